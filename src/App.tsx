@@ -1,4 +1,3 @@
-import * as htmlToImage from "html-to-image";
 import {
 	AlertCircle,
 	ArrowDownAZ,
@@ -7,21 +6,36 @@ import {
 	ChevronDown,
 	ExternalLink,
 	FileJson,
+	FileSpreadsheet,
+	FileText,
 	Filter,
+	Frown,
+	Heart,
 	Image,
 	LayoutDashboard,
 	Loader2,
+	Meh,
 	MessageCircle,
 	MessageSquare,
+	RefreshCw,
 	Reply,
 	Search,
+	ShieldAlert,
+	Smile,
 	Sparkles,
 	Users,
 	X,
 	Zap,
 } from "lucide-react";
-import { useCallback, useMemo, useRef, useState } from "react";
-import { ExportThreadView } from "./components/export-thread-view";
+import { useCallback, useMemo, useState } from "react";
+import {
+	analysisOf,
+	type Sentiment,
+	SPAM_THRESHOLD,
+	TOXICITY_THRESHOLD,
+} from "./analysis";
+import { AnalyticsView } from "./components/analytics-view";
+import { PastScrapes } from "./components/past-scrapes";
 import { TikTokComment } from "./components/tiktok-comment";
 import { Alert, AlertDescription } from "./components/ui/alert";
 import { Badge } from "./components/ui/badge";
@@ -36,11 +50,31 @@ import {
 import { Input } from "./components/ui/input";
 import { ScrollArea } from "./components/ui/scroll-area";
 import { Separator } from "./components/ui/separator";
-import { PngExportOptions } from "./constants/png-options";
-import { useScraper, type Comment, type Platform } from "./hooks/use-scraper";
+import {
+	type CommentFlag,
+	type CommentSort,
+	useCommentSearch,
+} from "./hooks/use-comment-search";
+import { useScraper, type Comment } from "./hooks/use-scraper";
+import {
+	commentsToRows,
+	downloadBlob,
+	rowsToCsv,
+	rowsToXlsx,
+} from "./lib/spreadsheet";
+import {
+	detectPlatform,
+	formatPlatformNames,
+	getPlatform,
+	getPlatformInfo,
+	PLATFORMS,
+} from "./platforms";
+
+// "TikTok, YouTube, ... or Reddit" for the page copy
+const SUPPORTED_PLATFORM_NAMES = formatPlatformNames(PLATFORMS);
 
 type FilterType = "all" | "comments" | "replies";
-type SortType = "newest" | "oldest" | "most_replies";
+type SortType = CommentSort;
 
 interface AppProps {
 	navigateToBoard: (slug: string) => void;
@@ -53,66 +87,16 @@ export function App({ navigateToBoard }: AppProps) {
 	const [exporting, setExporting] = useState(false);
 	const [filterType, setFilterType] = useState<FilterType>("all");
 	const [sortType, setSortType] = useState<SortType>("newest");
+	const [sentimentFilter, setSentimentFilter] = useState<Sentiment>();
+	const [flagFilter, setFlagFilter] = useState<CommentFlag>();
 	const [showFilters, setShowFilters] = useState(false);
 	const [sendingToBoard, setSendingToBoard] = useState(false);
-	const commentRefs = useRef<Map<string, HTMLDivElement>>(new Map());
-
-	const { status, result, error, platform, scrape } = useScraper();
 
-	// Platform display name mapping
-	const platformNames: Record<Platform, string> = {
-		tiktok: "TikTok",
-		facebook: "Facebook",
-		instagram: "Instagram",
-		youtube: "YouTube",
-		unknown: "Social Media",
-	};
+	const { status, result, error, platform, progress, scrape, load, refresh } =
+		useScraper();
 
 	// Detect platform from URL input in real-time
-	const urlPlatform = useMemo((): Platform => {
-		const normalizedUrl = url.toLowerCase().trim();
-
-		if (
-			/tiktok\.com/.test(normalizedUrl) ||
-			/vm\.tiktok\.com/.test(normalizedUrl) ||
-			/vt\.tiktok\.com/.test(normalizedUrl)
-		) {
-			return "tiktok";
-		}
-
-		if (/youtube\.com/.test(normalizedUrl) || /youtu\.be/.test(normalizedUrl)) {
-			return "youtube";
-		}
-
-		if (/instagram\.com/.test(normalizedUrl)) {
-			return "instagram";
-		}
-
-		if (
-			/facebook\.com/.test(normalizedUrl) ||
-			/fb\.watch/.test(normalizedUrl)
-		) {
-			return "facebook";
-		}
-
-		return "unknown";
-	}, [url]);
-
-	// Get theme class based on platform
-	const getThemeClass = (p: Platform): string => {
-		switch (p) {
-			case "tiktok":
-				return "theme-tiktok";
-			case "facebook":
-				return "theme-facebook";
-			case "instagram":
-				return "theme-instagram";
-			case "youtube":
-				return "theme-youtube";
-			default:
-				return "";
-		}
-	};
+	const urlPlatform = useMemo(() => detectPlatform(url), [url]);
 
 	// Get all comments including replies flattened
 	const allComments = useMemo(() => {
@@ -166,9 +150,23 @@ export function App({ navigateToBoard }: AppProps) {
 		return items;
 	}, [result]);
 
+	// Stored results are searched and paged on the server. Results still
+	// coming in, or that couldn't be stored, are filtered in memory.
+	const usesServerSearch = status === "success" && Boolean(result?.scrape_id);
+
+	const serverComments = useCommentSearch({
+		scrapeId: usesServerSearch ? result?.scrape_id : undefined,
+		fetchedAt: result?.fetched_at,
+		search: searchQuery,
+		filter: filterType,
+		sentiment: sentimentFilter,
+		flagged: flagFilter,
+		sort: sortType,
+	});
+
 	// Filter and sort comments
 	const filteredAndSortedComments = useMemo(() => {
-		if (!result) return [];
+		if (!result || usesServerSearch) return [];
 
 		let items = [...flattenedComments];
 
@@ -179,6 +177,22 @@ export function App({ navigateToBoard }: AppProps) {
 			items = items.filter((item) => item.isReply);
 		}
 
+		// Apply sentiment and toxicity/spam filters
+		if (sentimentFilter) {
+			items = items.filter(
+				(item) => analysisOf(item.comment).sentiment === sentimentFilter,
+			);
+		}
+		if (flagFilter === "toxic") {
+			items = items.filter(
+				(item) => analysisOf(item.comment).toxicity >= TOXICITY_THRESHOLD,
+			);
+		} else if (flagFilter === "spam") {
+			items = items.filter(
+				(item) => analysisOf(item.comment).spam >= SPAM_THRESHOLD,
+			);
+		}
+
 		// Apply search
 		if (searchQuery.trim()) {
 			const query = searchQuery.toLowerCase();
@@ -192,6 +206,14 @@ export function App({ navigateToBoard }: AppProps) {
 
 		// Apply sort
 		items.sort((a, b) => {
+			// Comments whose time couldn't be read go last when sorting by time
+			if (sortType === "newest" || sortType === "oldest") {
+				const unknown =
+					Number(a.comment.is_time_unknown ?? false) -
+					Number(b.comment.is_time_unknown ?? false);
+				if (unknown !== 0) return unknown;
+			}
+
 			if (sortType === "newest") {
 				return (
 					new Date(b.comment.create_time).getTime() -
@@ -204,12 +226,31 @@ export function App({ navigateToBoard }: AppProps) {
 				);
 			} else if (sortType === "most_replies") {
 				return b.comment.total_reply - a.comment.total_reply;
+			} else if (sortType === "most_liked") {
+				return (b.comment.like_count ?? 0) - (a.comment.like_count ?? 0);
+			} else if (sortType === "most_toxic") {
+				return analysisOf(b.comment).toxicity - analysisOf(a.comment).toxicity;
+			} else if (sortType === "most_spam") {
+				return analysisOf(b.comment).spam - analysisOf(a.comment).spam;
 			}
 			return 0;
 		});
 
 		return items;
-	}, [flattenedComments, filterType, searchQuery, sortType, result]);
+	}, [
+		flattenedComments,
+		filterType,
+		sentimentFilter,
+		flagFilter,
+		searchQuery,
+		sortType,
+		result,
+		usesServerSearch,
+	]);
+
+	const visibleComments = usesServerSearch
+		? serverComments.items
+		: filteredAndSortedComments;
 
 	// Toggle comment selection
 	const toggleSelection = useCallback((id: string) => {
@@ -227,11 +268,11 @@ export function App({ navigateToBoard }: AppProps) {
 	// Select all visible comments
 	const selectAll = useCallback(() => {
 		const ids = new Set<string>();
-		for (const item of filteredAndSortedComments) {
+		for (const item of visibleComments) {
 			ids.add(item.comment.comment_id);
 		}
 		setSelectedIds(ids);
-	}, [filteredAndSortedComments]);
+	}, [visibleComments]);
 
 	// Deselect all
 	const deselectAll = useCallback(() => {
@@ -258,104 +299,48 @@ export function App({ navigateToBoard }: AppProps) {
 		URL.revokeObjectURL(blobUrl);
 	}, [selectedComments]);
 
-	// Export selected as PNG ZIP - Optimized with parallel processing
+	// Export selected as PNG ZIP - rendered by the server so big exports don't freeze the tab
 	const handleExportPng = useCallback(async () => {
-		if (selectedComments.length === 0) return;
+		if (selectedComments.length === 0 || !result) return;
 
 		setExporting(true);
 		try {
-			const JSZip = (await import("jszip")).default;
-			const zip = new JSZip();
-			const folder = zip.folder("comments");
-
-			// Process selected comments
-			const exportItems: {
-				id: string;
-				element: HTMLElement;
-				isThread: boolean;
-			}[] = [];
-
-			// We need to temporarily render the export views for threads
-			// This is handled by the hidden container in the render method
-
-			// First, identify what we need to export
-			for (const comment of selectedComments) {
-				// If it's a parent comment, we want to export it with its replies (if any exist)
-				// check if it is a reply itself
-				const isReply = !!comment.parent_comment_id;
-
-				if (!isReply) {
-					// It's a parent. Check if we have an export view for it (which includes replies)
-					const exportEl = document.getElementById(
-						`export-thread-${comment.comment_id}`,
-					);
-					if (exportEl) {
-						exportItems.push({
-							id: comment.comment_id,
-							element: exportEl,
-							isThread: true,
-						});
-						continue;
-					}
-				}
-
-				// Fallback or if it is a reply: export just the comment element
-				const commentEl = commentRefs.current.get(comment.comment_id);
-				if (commentEl) {
-					exportItems.push({
-						id: comment.comment_id,
-						element: commentEl,
-						isThread: false,
-					});
-				}
-			}
-
-			// Capture images in parallel batches
-			const BATCH_SIZE = 10;
-			for (let i = 0; i < exportItems.length; i += BATCH_SIZE) {
-				const batch = exportItems.slice(i, i + BATCH_SIZE);
-
-				const results = await Promise.all(
-					batch.map(async (item) => {
-						try {
-							const dataUrl = await htmlToImage.toPng(
-								item.element,
-								PngExportOptions,
-							);
-							const data = dataUrl.split(",")[1];
-							if (!data) return null;
-
-							return {
-								name: `${item.id}${item.isThread ? "-thread" : ""}.png`,
-								data,
-							};
-						} catch (err) {
-							console.error(`Failed to capture ${item.id}:`, err);
-							return null;
-						}
-					}),
-				);
+			// Parents are exported as a thread with their replies, replies on their own
+			const comments = selectedComments.map((comment) => ({
+				...comment,
+				replies: comment.parent_comment_id
+					? []
+					: allComments.filter(
+							(c) => c.parent_comment_id === comment.comment_id,
+						),
+			}));
+
+			const response = await fetch("/api/generate-zip", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					caption: result.caption,
+					video_url: result.video_url,
+					has_more: 0,
+					platform: result.platform,
+					comments,
+				}),
+			});
 
-				for (const result of results) {
-					if (result) {
-						folder?.file(result.name, result.data, { base64: true });
-					}
-				}
+			if (!response.ok) {
+				throw new Error("Failed to generate PNG export");
 			}
 
-			const blob = await zip.generateAsync({ type: "blob" });
-			const blobUrl = URL.createObjectURL(blob);
-			const a = document.createElement("a");
-			a.href = blobUrl;
-			a.download = `tiktok-comments-${Date.now()}.zip`;
-			a.click();
-			URL.revokeObjectURL(blobUrl);
+			downloadBlob(
+				await response.blob(),
+				`${result.platform}-comments-${Date.now()}.zip`,
+			);
 		} catch (err) {
 			console.error("Export failed:", err);
 		} finally {
 			setExporting(false);
 		}
-	}, [selectedComments]);
+	}, [selectedComments, allComments, result]);
 
 	// Download all as JSON
 	const handleDownloadJson = () => {
@@ -372,6 +357,18 @@ export function App({ navigateToBoard }: AppProps) {
 		URL.revokeObjectURL(blobUrl);
 	};
 
+	const handleDownloadSpreadsheet = async (format: "csv" | "xlsx") => {
+		if (!result) return;
+
+		const rows = commentsToRows(
+			result.comments,
+			result.platform,
+			result.video_url,
+		);
+		const blob = format === "csv" ? rowsToCsv(rows) : await rowsToXlsx(rows);
+		downloadBlob(blob, `${result.platform}-comments-${Date.now()}.${format}`);
+	};
+
 	// Send comments to a new board
 	const handleSendToBoard = async () => {
 		if (!result) return;
@@ -421,18 +418,32 @@ export function App({ navigateToBoard }: AppProps) {
 		}
 	};
 
+	const handleCheckForNewComments = () => {
+		if (result?.scrape_id) {
+			refresh(result.scrape_id);
+		}
+	};
+
+	const handleOpenScrape = (scrapeId: string) => {
+		setSelectedIds(new Set());
+		load(scrapeId);
+	};
+
 	const totalReplies =
 		result?.comments.reduce((acc, c) => acc + c.replies.length, 0) ?? 0;
 	const uniqueUsers = result
 		? new Set(result.comments.map((c) => c.username)).size
 		: 0;
 
-	const themeClass = result
-		? getThemeClass(result.platform || platform)
-		: getThemeClass(urlPlatform);
+	const themeStyle = result
+		? getPlatformInfo(result.platform || platform).themeStyle
+		: getPlatformInfo(urlPlatform).themeStyle;
 
 	return (
-		<div className={`min-h-screen flex flex-col bg-background ${themeClass}`}>
+		<div
+			className="min-h-screen flex flex-col bg-background"
+			style={themeStyle}
+		>
 			{/* Animated background */}
 			<div className="fixed inset-0 overflow-hidden pointer-events-none">
 				<div className="absolute top-0 left-1/4 w-96 h-96 bg-secondary/10 rounded-full blur-3xl" />
@@ -450,11 +461,11 @@ export function App({ navigateToBoard }: AppProps) {
 						<div>
 							<h1 className="text-lg font-semibold gradient-text">
 								{result
-									? `${platformNames[result.platform || platform]} Comments`
+									? `${getPlatformInfo(result.platform || platform).displayName} Comments`
 									: "Social Media Scraper"}
 							</h1>
 							<p className="text-xs text-muted-foreground">
-								Extract comments from TikTok, YouTube, Instagram & Facebook
+								Extract comments from {formatPlatformNames(PLATFORMS, "&")}
 							</p>
 						</div>
 					</div>
@@ -474,9 +485,8 @@ export function App({ navigateToBoard }: AppProps) {
 							Scrape Comments <span className="gradient-text">in Seconds</span>
 						</h2>
 						<p className="text-muted-foreground text-base md:text-lg max-w-2xl mx-auto">
-							Enter any TikTok, YouTube, Instagram, or Facebook URL and extract
-							all comments with their replies. Search, filter, select, and
-							export.
+							Enter any {SUPPORTED_PLATFORM_NAMES} URL and extract all comments
+							with their replies. Search, filter, select, and export.
 						</p>
 					</div>
 
@@ -488,7 +498,7 @@ export function App({ navigateToBoard }: AppProps) {
 								Enter Video URL
 							</CardTitle>
 							<CardDescription>
-								Paste a URL from TikTok, YouTube, Instagram, or Facebook
+								Paste a URL from {SUPPORTED_PLATFORM_NAMES}
 							</CardDescription>
 						</CardHeader>
 						<CardContent className="space-y-4">
@@ -497,7 +507,7 @@ export function App({ navigateToBoard }: AppProps) {
 									type="text"
 									value={url}
 									onChange={(e) => setUrl(e.target.value)}
-									placeholder="Enter a video URL (TikTok, YouTube, Instagram, or Facebook)"
+									placeholder={`Enter a video URL (${SUPPORTED_PLATFORM_NAMES})`}
 									disabled={status === "loading"}
 									className="flex-1 h-11"
 									onKeyDown={(e) => e.key === "Enter" && handleScrape()}
@@ -523,6 +533,33 @@ export function App({ navigateToBoard }: AppProps) {
 								</Button>
 							</div>
 
+							{/* Live scrape progress */}
+							{status === "loading" && progress && (
+								<div className="space-y-2 animate-in fade-in">
+									<div className="flex items-center justify-between text-sm text-muted-foreground">
+										<span>{progress.message}</span>
+										{progress.total ? (
+											<span>
+												{progress.fetched ?? 0} / {progress.total}
+											</span>
+										) : null}
+									</div>
+									{progress.total ? (
+										<div className="h-2 rounded-full bg-muted overflow-hidden">
+											<div
+												className="h-full bg-primary transition-all duration-500"
+												style={{
+													width: `${Math.min(
+														100,
+														((progress.fetched ?? 0) / progress.total) * 100,
+													)}%`,
+												}}
+											/>
+										</div>
+									) : null}
+								</div>
+							)}
+
 							{/* Error */}
 							{error && (
 								<Alert
@@ -536,6 +573,13 @@ export function App({ navigateToBoard }: AppProps) {
 						</CardContent>
 					</Card>
 
+					{/* Past Scrapes */}
+					<PastScrapes
+						activeScrapeId={result?.scrape_id}
+						disabled={status === "loading"}
+						onOpen={handleOpenScrape}
+					/>
+
 					{/* Results Section */}
 					{result && (
 						<div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -606,6 +650,9 @@ export function App({ navigateToBoard }: AppProps) {
 								</Card>
 							)}
 
+							{/* Analytics */}
+							<AnalyticsView result={result} />
+
 							{/* Search, Filter, and Selection Controls */}
 							<Card>
 								<CardHeader className="pb-3">
@@ -616,7 +663,10 @@ export function App({ navigateToBoard }: AppProps) {
 										</CardTitle>
 										<div className="flex items-center gap-2 text-sm">
 											<Badge variant="secondary">
-												{filteredAndSortedComments.length} shown
+												{usesServerSearch
+													? `${visibleComments.length} of ${serverComments.total}`
+													: visibleComments.length}{" "}
+												shown
 											</Badge>
 											<Badge variant="outline">
 												{selectedIds.size} selected
@@ -717,7 +767,7 @@ export function App({ navigateToBoard }: AppProps) {
 												<label className="text-sm font-medium text-muted-foreground">
 													Sort by
 												</label>
-												<div className="flex gap-2">
+												<div className="flex flex-wrap gap-2">
 													<Button
 														variant={
 															sortType === "newest" ? "secondary" : "outline"
@@ -753,6 +803,136 @@ export function App({ navigateToBoard }: AppProps) {
 														<MessageCircle className="h-3.5 w-3.5" />
 														Most Replies
 													</Button>
+													<Button
+														variant={
+															sortType === "most_liked"
+																? "secondary"
+																: "outline"
+														}
+														size="sm"
+														onClick={() => setSortType("most_liked")}
+														className="gap-1.5"
+													>
+														<Heart className="h-3.5 w-3.5" />
+														Most Liked
+													</Button>
+													<Button
+														variant={
+															sortType === "most_toxic"
+																? "secondary"
+																: "outline"
+														}
+														size="sm"
+														onClick={() => setSortType("most_toxic")}
+														className="gap-1.5"
+													>
+														<ShieldAlert className="h-3.5 w-3.5" />
+														Most Toxic
+													</Button>
+													<Button
+														variant={
+															sortType === "most_spam" ? "secondary" : "outline"
+														}
+														size="sm"
+														onClick={() => setSortType("most_spam")}
+														className="gap-1.5"
+													>
+														<AlertCircle className="h-3.5 w-3.5" />
+														Most Spam-like
+													</Button>
+												</div>
+											</div>
+
+											{/* Sentiment */}
+											<div className="space-y-2">
+												<p className="text-sm font-medium text-muted-foreground">
+													Sentiment
+												</p>
+												<div className="flex gap-2">
+													<Button
+														variant={!sentimentFilter ? "secondary" : "outline"}
+														size="sm"
+														onClick={() => setSentimentFilter(undefined)}
+													>
+														Any
+													</Button>
+													<Button
+														variant={
+															sentimentFilter === "positive"
+																? "secondary"
+																: "outline"
+														}
+														size="sm"
+														onClick={() => setSentimentFilter("positive")}
+														className="gap-1.5"
+													>
+														<Smile className="h-3.5 w-3.5 text-success" />
+														Positive
+													</Button>
+													<Button
+														variant={
+															sentimentFilter === "neutral"
+																? "secondary"
+																: "outline"
+														}
+														size="sm"
+														onClick={() => setSentimentFilter("neutral")}
+														className="gap-1.5"
+													>
+														<Meh className="h-3.5 w-3.5" />
+														Neutral
+													</Button>
+													<Button
+														variant={
+															sentimentFilter === "negative"
+																? "secondary"
+																: "outline"
+														}
+														size="sm"
+														onClick={() => setSentimentFilter("negative")}
+														className="gap-1.5"
+													>
+														<Frown className="h-3.5 w-3.5 text-destructive" />
+														Negative
+													</Button>
+												</div>
+											</div>
+
+											{/* Toxicity and spam */}
+											<div className="space-y-2">
+												<p className="text-sm font-medium text-muted-foreground">
+													Flagged
+												</p>
+												<div className="flex gap-2">
+													<Button
+														variant={!flagFilter ? "secondary" : "outline"}
+														size="sm"
+														onClick={() => setFlagFilter(undefined)}
+													>
+														Any
+													</Button>
+													<Button
+														variant={
+															flagFilter === "toxic" ? "secondary" : "outline"
+														}
+														size="sm"
+														onClick={() => setFlagFilter("toxic")}
+														className="gap-1.5"
+													>
+														<ShieldAlert className="h-3.5 w-3.5" />
+														Toxic
+													</Button>
+													<Button
+														variant={
+															flagFilter === "spam" ? "secondary" : "outline"
+														}
+														size="sm"
+														onClick={() => setFlagFilter("spam")}
+														className="gap-1.5"
+													>
+														<AlertCircle className="h-3.5 w-3.5" />
+														Spam
+													</Button>
 												</div>
 											</div>
 										</div>
@@ -813,30 +993,48 @@ export function App({ navigateToBoard }: AppProps) {
 								{/* Comments List */}
 								<ScrollArea maxHeight="600px">
 									<div className="space-y-2 p-4">
-										{filteredAndSortedComments.map((item) => (
+										{visibleComments.map((item) => (
 											<TikTokComment
 												key={item.comment.comment_id}
-												ref={(el) => {
-													if (el) {
-														commentRefs.current.set(
-															item.comment.comment_id,
-															el,
-														);
-													}
-												}}
 												comment={item.comment}
 												isReply={item.isReply}
 												selected={selectedIds.has(item.comment.comment_id)}
 												onSelect={toggleSelection}
 												showCheckbox
+												platform={result.platform}
 											/>
 										))}
 
-										{filteredAndSortedComments.length === 0 && (
-											<div className="text-center py-8 text-muted-foreground">
-												No comments match your filters.
+										{usesServerSearch && serverComments.hasNextPage && (
+											<div className="flex justify-center pt-2">
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => serverComments.fetchNextPage()}
+													disabled={serverComments.isFetchingNextPage}
+													className="gap-1.5"
+												>
+													{serverComments.isFetchingNextPage && (
+														<Loader2 className="h-3.5 w-3.5 animate-spin" />
+													)}
+													Load more
+												</Button>
 											</div>
 										)}
+
+										{usesServerSearch && serverComments.isLoading && (
+											<div className="flex justify-center py-8 text-muted-foreground">
+												<Loader2 className="h-5 w-5 animate-spin" />
+											</div>
+										)}
+
+										{visibleComments.length === 0 &&
+											!(usesServerSearch && serverComments.isLoading) && (
+												<div className="text-center py-8 text-muted-foreground">
+													{serverComments.error?.message ??
+														"No comments match your filters."}
+												</div>
+											)}
 									</div>
 								</ScrollArea>
 							</Card>
@@ -845,7 +1043,7 @@ export function App({ navigateToBoard }: AppProps) {
 							<div className="flex flex-col sm:flex-row gap-3">
 								<Button
 									onClick={handleSendToBoard}
-									disabled={sendingToBoard}
+									disabled={sendingToBoard || status === "loading"}
 									size="lg"
 									className="flex-1 sm:flex-none"
 								>
@@ -858,6 +1056,7 @@ export function App({ navigateToBoard }: AppProps) {
 								</Button>
 								<Button
 									onClick={handleDownloadJson}
+									disabled={status === "loading"}
 									variant="outline"
 									size="lg"
 									className="flex-1 sm:flex-none"
@@ -865,6 +1064,39 @@ export function App({ navigateToBoard }: AppProps) {
 									<FileJson className="h-4 w-4 text-success" />
 									Download All JSON
 								</Button>
+								<Button
+									onClick={() => handleDownloadSpreadsheet("csv")}
+									disabled={status === "loading"}
+									variant="outline"
+									size="lg"
+									className="flex-1 sm:flex-none"
+								>
+									<FileText className="h-4 w-4 text-success" />
+									CSV
+								</Button>
+								<Button
+									onClick={() => handleDownloadSpreadsheet("xlsx")}
+									disabled={status === "loading"}
+									variant="outline"
+									size="lg"
+									className="flex-1 sm:flex-none"
+								>
+									<FileSpreadsheet className="h-4 w-4 text-success" />
+									Excel
+								</Button>
+								{result.scrape_id &&
+									getPlatform(result.platform)?.supportsIncremental && (
+										<Button
+											onClick={handleCheckForNewComments}
+											disabled={status === "loading"}
+											variant="outline"
+											size="lg"
+											className="flex-1 sm:flex-none"
+										>
+											<RefreshCw className="h-4 w-4 text-primary" />
+											Check for New Comments
+										</Button>
+									)}
 							</div>
 						</div>
 					)}
@@ -887,36 +1119,6 @@ export function App({ navigateToBoard }: AppProps) {
 					</div>
 				</div>
 			</footer>
-
-			{/* Hidden Export Container */}
-			<div
-				style={{
-					position: "absolute",
-					top: 0,
-					left: 0,
-					opacity: 0,
-					pointerEvents: "none",
-					zIndex: -1,
-				}}
-			>
-				{selectedComments.map((comment) => {
-					// Only render thread view for parents that have replies
-					if (comment.parent_comment_id) return null;
-
-					const replies = allComments.filter(
-						(c) => c.parent_comment_id === comment.comment_id,
-					);
-
-					return (
-						<div
-							key={`export-wrapper-${comment.comment_id}`}
-							id={`export-thread-${comment.comment_id}`}
-						>
-							<ExportThreadView comment={comment} replies={replies} />
-						</div>
-					);
-				})}
-			</div>
 		</div>
 	);
 }
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+	analysisOf,
+	analyzeComment,
+	SPAM_THRESHOLD,
+	TOXICITY_THRESHOLD,
+} from "./classifier";
+
+describe("analyzeComment", () => {
+	test("scores a plain positive comment", () => {
+		expect(analyzeComment("great video, love it!")).toEqual({
+			sentiment: "positive",
+			sentiment_score: 0.85,
+			toxicity: 0.02,
+			spam: 0.02,
+		});
+	});
+
+	test("scores a plain negative comment without flagging it", () => {
+		expect(analyzeComment("this is terrible")).toEqual({
+			sentiment: "negative",
+			sentiment_score: -0.61,
+			toxicity: 0.03,
+			spam: 0.02,
+		});
+	});
+
+	test("flips negated words", () => {
+		expect(analyzeComment("not bad").sentiment).toBe("positive");
+		expect(analyzeComment("not bad").sentiment_score).toBe(0.36);
+	});
+
+	test("leaves comments without sentiment words neutral", () => {
+		expect(analyzeComment("posted at 5pm").sentiment).toBe("neutral");
+		expect(analyzeComment("posted at 5pm").sentiment_score).toBe(0);
+	});
+
+	test("flags insults aimed at someone", () => {
+		const analysis = analyzeComment("you are an idiot");
+		expect(analysis.toxicity).toBe(0.78);
+		expect(analysis.toxicity).toBeGreaterThanOrEqual(TOXICITY_THRESHOLD);
+		expect(analysis.sentiment).toBe("negative");
+	});
+
+	test("puts a single strong word around the threshold", () => {
+		expect(analyzeComment("fuck this").toxicity).toBe(0.45);
+		expect(analyzeComment("f**k this").toxicity).toBe(0.48);
+		expect(analyzeComment("sh*t video").toxicity).toBe(0.48);
+	});
+
+	test("counts masked profanity along with the words around it", () => {
+		expect(analyzeComment("you f**king idiot").toxicity).toBe(0.99);
+	});
+
+	test("doesn't read email addresses as masked profanity", () => {
+		expect(analyzeComment("email me at john@gmail dot com").toxicity).toBe(
+			0.02,
+		);
+	});
+
+	test("flags links and spam phrases", () => {
+		const analysis = analyzeComment("Check out my page www.freecoins.xyz");
+		expect(analysis.spam).toBe(0.93);
+		expect(analysis.toxicity).toBe(0.02);
+	});
+
+	test("flags emoji floods", () => {
+		expect(
+			analyzeComment("follow me for free followers 💯💯💯💯💯💯💯").spam,
+		).toBe(0.89);
+	});
+
+	test("lets a few mentions through", () => {
+		expect(analyzeComment("@anna @ben look at this").spam).toBeLessThan(
+			SPAM_THRESHOLD,
+		);
+	});
+});
+
+describe("analysisOf", () => {
+	test("keeps a stored analysis", () => {
+		const analysis = {
+			sentiment: "neutral" as const,
+			sentiment_score: 0,
+			toxicity: 0.9,
+			spam: 0.9,
+		};
+		expect(analysisOf({ comment: "love it", analysis })).toBe(analysis);
+	});
+
+	test("analyzes comments stored without one", () => {
+		expect(analysisOf({ comment: "love it" })).toEqual(
+			analyzeComment("love it"),
+		);
+	});
+});
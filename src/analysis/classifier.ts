@@ -0,0 +1,214 @@
+import {
+	INTENSIFIERS,
+	NEGATIONS,
+	SENTIMENT_EMOJI,
+	SENTIMENT_WORDS,
+	SPAM_PHRASES,
+	TARGET_WORDS,
+	TOXIC_WORDS,
+} from "./lexicon";
+import type { CommentAnalysis, Sentiment } from "./types";
+
+// Scores at or above these count as toxic / spam in filters and on boards
+export const TOXICITY_THRESHOLD = 0.5;
+export const SPAM_THRESHOLD = 0.5;
+
+// Normalized sentiment beyond which a comment isn't neutral
+const SENTIMENT_THRESHOLD = 0.05;
+
+// Keeps the normalized score in -1..1, higher is flatter (as in VADER)
+const SENTIMENT_NORMALIZATION = 15;
+
+// Negated words keep part of their strength, "not bad" is mildly positive
+const NEGATION_FACTOR = -0.74;
+
+// How many words back a negation or a target word still applies
+const CONTEXT_WINDOW = 3;
+
+// Weights of the toxicity and spam models, a logistic regression over the
+// features below. Hand-tuned so plain comments score near 0 and a single
+// strong signal lands around the threshold.
+const TOXICITY_WEIGHTS = {
+	bias: -4,
+	toxicWords: 1.3,
+	targeted: 1.5,
+	shouting: 1.2,
+	exclamations: 0.6,
+	negativity: 1,
+};
+
+const SPAM_WEIGHTS = {
+	bias: -4,
+	links: 2.2,
+	phrases: 2.2,
+	mentions: 0.8,
+	phoneNumbers: 2,
+	repeatedCharacters: 0.8,
+	emojiFlood: 1.5,
+	repetition: 2,
+};
+
+// Maps so inherited object keys ("constructor") never match a word
+const sentimentWords = new Map(Object.entries(SENTIMENT_WORDS));
+const sentimentEmoji = new Map(Object.entries(SENTIMENT_EMOJI));
+const intensifiers = new Map(Object.entries(INTENSIFIERS));
+const toxicWords = new Map(Object.entries(TOXIC_WORDS));
+
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const LINK_PATTERN =
+	/https?:\/\/|www\.|\b[\w-]+\.(?:com|net|org|io|ly|me|gg|xyz|link|shop|site)\b/gi;
+const MENTION_PATTERN = /@[\w.]+/g;
+const PHONE_PATTERN = /\+?\d[\d\s-]{8,}\d/;
+const REPEATED_CHARACTER_PATTERN = /(.)\1{5,}/u;
+// Censored profanity such as "f**k" or "sh*t". No "@", which would match
+// email addresses.
+const MASKED_PROFANITY_PATTERN = /\b[a-z]+[*#$]{1,3}[a-z]*\b/gi;
+
+// The masked word can't be looked up, weigh it like the strongest ones
+const MASKED_PROFANITY_WEIGHT = 3;
+
+function sigmoid(z: number): number {
+	return 1 / (1 + Math.exp(-z));
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+	return text.match(pattern)?.length ?? 0;
+}
+
+function scoreSentiment(words: string[], emoji: string[], text: string) {
+	let sum = 0;
+
+	words.forEach((word, index) => {
+		// Insults read as negative even when the lexicon doesn't list them
+		const toxicWeight = toxicWords.get(word);
+		let value =
+			sentimentWords.get(word) ??
+			(toxicWeight === undefined ? undefined : -Math.min(toxicWeight, 3));
+		if (value === undefined) return;
+
+		const previous = words[index - 1];
+		value *= (previous && intensifiers.get(previous)) || 1;
+
+		const context = words.slice(Math.max(0, index - CONTEXT_WINDOW), index);
+		if (context.some((w) => NEGATIONS.has(w))) {
+			value *= NEGATION_FACTOR;
+		}
+
+		sum += value;
+	});
+
+	for (const symbol of emoji) {
+		sum += sentimentEmoji.get(symbol) ?? 0;
+	}
+
+	// "!!!" makes whatever was said stronger
+	if (sum !== 0) {
+		sum += Math.sign(sum) * Math.min(countMatches(text, /!/g), 4) * 0.3;
+	}
+
+	return sum / Math.sqrt(sum * sum + SENTIMENT_NORMALIZATION);
+}
+
+function scoreToxicity(words: string[], text: string, sentiment: number) {
+	let toxicWeight =
+		countMatches(text, MASKED_PROFANITY_PATTERN) * MASKED_PROFANITY_WEIGHT;
+	let targeted = 0;
+
+	words.forEach((word, index) => {
+		const weight = toxicWords.get(word);
+		if (weight === undefined) return;
+
+		// "you're not stupid" is still pointed, but far less so
+		const before = words.slice(Math.max(0, index - CONTEXT_WINDOW), index);
+		toxicWeight += before.some((w) => NEGATIONS.has(w)) ? weight / 2 : weight;
+
+		const context = words.slice(
+			Math.max(0, index - CONTEXT_WINDOW),
+			index + CONTEXT_WINDOW + 1,
+		);
+		if (context.some((w) => TARGET_WORDS.has(w))) {
+			targeted = 1;
+		}
+	});
+
+	const letters = text.replace(/[^\p{L}]/gu, "");
+	const shouting =
+		letters.length >= 8
+			? countMatches(letters, /\p{Lu}/gu) / letters.length
+			: 0;
+
+	return sigmoid(
+		TOXICITY_WEIGHTS.bias +
+			TOXICITY_WEIGHTS.toxicWords * Math.min(toxicWeight, 6) +
+			TOXICITY_WEIGHTS.targeted * targeted +
+			TOXICITY_WEIGHTS.shouting * shouting +
+			TOXICITY_WEIGHTS.exclamations *
+				(Math.min(countMatches(text, /!/g), 5) / 5) +
+			TOXICITY_WEIGHTS.negativity * Math.max(0, -sentiment),
+	);
+}
+
+function scoreSpam(words: string[], emoji: string[], text: string) {
+	const lower = text.toLowerCase();
+	const phrases = SPAM_PHRASES.filter((phrase) =>
+		lower.includes(phrase),
+	).length;
+
+	// Tagging a friend or two is normal, a list of handles is not
+	const mentions = Math.max(0, countMatches(text, MENTION_PATTERN) - 3);
+
+	const symbols = words.length + emoji.length;
+	const emojiFlood = emoji.length >= 6 ? emoji.length / symbols : 0;
+
+	const repetition =
+		words.length >= 6 ? 1 - new Set(words).size / words.length : 0;
+
+	return sigmoid(
+		SPAM_WEIGHTS.bias +
+			SPAM_WEIGHTS.links * Math.min(countMatches(text, LINK_PATTERN), 2) +
+			SPAM_WEIGHTS.phrases * Math.min(phrases, 3) +
+			SPAM_WEIGHTS.mentions * Math.min(mentions, 3) +
+			SPAM_WEIGHTS.phoneNumbers * (PHONE_PATTERN.test(text) ? 1 : 0) +
+			SPAM_WEIGHTS.repeatedCharacters *
+				(REPEATED_CHARACTER_PATTERN.test(text) ? 1 : 0) +
+			SPAM_WEIGHTS.emojiFlood * emojiFlood +
+			SPAM_WEIGHTS.repetition * repetition,
+	);
+}
+
+/**
+ * Score a comment's sentiment, toxicity and spam likelihood. Runs locally
+ * off the bundled word lists, no network or model download involved.
+ */
+export function analyzeComment(text: string): CommentAnalysis {
+	const words = text.toLowerCase().match(WORD_PATTERN) ?? [];
+	const emoji = text.match(EMOJI_PATTERN) ?? [];
+
+	const sentimentScore = scoreSentiment(words, emoji, text);
+	let sentiment: Sentiment = "neutral";
+	if (sentimentScore >= SENTIMENT_THRESHOLD) sentiment = "positive";
+	else if (sentimentScore <= -SENTIMENT_THRESHOLD) sentiment = "negative";
+
+	return {
+		sentiment,
+		sentiment_score: round(sentimentScore),
+		toxicity: round(scoreToxicity(words, text, sentimentScore)),
+		spam: round(scoreSpam(words, emoji, text)),
+	};
+}
+
+/**
+ * A comment's stored analysis, or a fresh one for comments saved before
+ * analysis existed
+ */
+export function analysisOf(comment: {
+	comment: string;
+	analysis?: CommentAnalysis;
+}): CommentAnalysis {
+	return comment.analysis ?? analyzeComment(comment.comment);
+}
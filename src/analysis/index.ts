@@ -0,0 +1,23 @@
+export {
+	analysisOf,
+	analyzeComment,
+	SPAM_THRESHOLD,
+	TOXICITY_THRESHOLD,
+} from "./classifier";
+export {
+	type CommenterCount,
+	type CommentStats,
+	computeCommentStats,
+	type StatsComment,
+	type TermCount,
+	type VolumeBucket,
+	type VolumeInterval,
+} from "./stats";
+export {
+	type ClusterOptions,
+	clusterByTopic,
+	type TopicCluster,
+	type TopicDocument,
+	topicTerms,
+} from "./topics";
+export type { CommentAnalysis, Sentiment } from "./types";
@@ -0,0 +1,475 @@
+// Word lists the classifier and the topic clustering work from. Words are
+// lowercase, matched against whole tokens.
+
+// Sentiment valence from -3 (very negative) to 3 (very positive), in the
+// style of AFINN with common comment-section slang added
+export const SENTIMENT_WORDS: Record<string, number> = {
+	// Positive
+	amazing: 3,
+	awesome: 3,
+	beautiful: 3,
+	best: 3,
+	brilliant: 3,
+	excellent: 3,
+	fantastic: 3,
+	goat: 3,
+	incredible: 3,
+	legendary: 3,
+	love: 3,
+	loved: 3,
+	loving: 3,
+	masterpiece: 3,
+	outstanding: 3,
+	perfect: 3,
+	superb: 3,
+	wonderful: 3,
+	adorable: 2,
+	agree: 1,
+	appreciate: 2,
+	based: 1,
+	blessed: 2,
+	bravo: 2,
+	congrats: 2,
+	congratulations: 2,
+	cool: 1,
+	cute: 2,
+	enjoy: 2,
+	enjoyed: 2,
+	epic: 2,
+	fav: 2,
+	favorite: 2,
+	favourite: 2,
+	fire: 2,
+	fun: 2,
+	funny: 2,
+	glad: 2,
+	good: 2,
+	gorgeous: 3,
+	great: 3,
+	happy: 2,
+	helpful: 2,
+	hilarious: 2,
+	inspiring: 2,
+	interesting: 1,
+	iconic: 2,
+	impressive: 2,
+	kind: 2,
+	legend: 2,
+	like: 1,
+	liked: 1,
+	lit: 2,
+	lol: 1,
+	lmao: 1,
+	lovely: 3,
+	nice: 2,
+	obsessed: 2,
+	pretty: 1,
+	proud: 2,
+	queen: 2,
+	recommend: 2,
+	respect: 2,
+	slay: 2,
+	slayed: 2,
+	smart: 2,
+	sweet: 2,
+	talented: 2,
+	thank: 2,
+	thanks: 2,
+	thx: 2,
+	top: 1,
+	useful: 2,
+	valid: 1,
+	win: 2,
+	wow: 2,
+	yay: 2,
+	yes: 1,
+	// Negative
+	abysmal: -3,
+	atrocious: -3,
+	awful: -3,
+	cringe: -2,
+	cringy: -2,
+	disgusting: -3,
+	dreadful: -3,
+	hate: -3,
+	hated: -3,
+	horrible: -3,
+	horrendous: -3,
+	terrible: -3,
+	worst: -3,
+	angry: -2,
+	annoying: -2,
+	bad: -2,
+	boring: -2,
+	broken: -2,
+	cheap: -1,
+	clickbait: -2,
+	confusing: -1,
+	cry: -1,
+	crying: -1,
+	dead: -1,
+	delete: -1,
+	depressing: -2,
+	disappointed: -2,
+	disappointing: -2,
+	dislike: -2,
+	fail: -2,
+	failed: -2,
+	fake: -2,
+	flop: -2,
+	garbage: -3,
+	gross: -2,
+	hurt: -2,
+	lame: -2,
+	liar: -3,
+	lie: -2,
+	lies: -2,
+	mad: -2,
+	meh: -1,
+	mid: -1,
+	misleading: -2,
+	mistake: -2,
+	overrated: -2,
+	pathetic: -3,
+	poor: -2,
+	problem: -1,
+	ridiculous: -2,
+	rude: -2,
+	sad: -2,
+	scam: -3,
+	shame: -2,
+	sick: -1,
+	sorry: -1,
+	stop: -1,
+	sucks: -3,
+	trash: -3,
+	ugly: -3,
+	unfollow: -2,
+	unfortunately: -1,
+	upset: -2,
+	useless: -2,
+	waste: -2,
+	weak: -2,
+	worse: -2,
+	wrong: -2,
+};
+
+// Emoji valence, same scale as SENTIMENT_WORDS
+export const SENTIMENT_EMOJI: Record<string, number> = {
+	"😍": 3,
+	"🥰": 3,
+	"❤": 3,
+	"❤️": 3,
+	"💕": 3,
+	"💖": 3,
+	"😘": 2,
+	"🔥": 2,
+	"👏": 2,
+	"🙌": 2,
+	"👍": 2,
+	"💯": 2,
+	"🥳": 2,
+	"😊": 2,
+	"😁": 2,
+	"😄": 2,
+	"😂": 1,
+	"🤣": 1,
+	"😆": 1,
+	"🙏": 1,
+	"✨": 1,
+	"😐": -1,
+	"🙄": -2,
+	"😒": -2,
+	"😕": -1,
+	"😞": -2,
+	"😢": -2,
+	"😭": -1,
+	"😔": -2,
+	"👎": -2,
+	"😡": -3,
+	"🤬": -3,
+	"😠": -2,
+	"🤮": -3,
+	"🤢": -2,
+	"💩": -2,
+	"🖕": -3,
+};
+
+// Flip the valence of the words that follow
+export const NEGATIONS = new Set([
+	"not",
+	"no",
+	"never",
+	"nothing",
+	"nobody",
+	"neither",
+	"nor",
+	"dont",
+	"don't",
+	"doesnt",
+	"doesn't",
+	"didnt",
+	"didn't",
+	"isnt",
+	"isn't",
+	"wasnt",
+	"wasn't",
+	"aint",
+	"ain't",
+	"cant",
+	"can't",
+	"cannot",
+	"wont",
+	"won't",
+	"without",
+]);
+
+// Strengthen (or soften, below 1) the word that follows
+export const INTENSIFIERS: Record<string, number> = {
+	absolutely: 1.5,
+	completely: 1.5,
+	extremely: 1.6,
+	literally: 1.3,
+	really: 1.3,
+	so: 1.3,
+	soo: 1.4,
+	sooo: 1.5,
+	super: 1.5,
+	too: 1.2,
+	totally: 1.5,
+	very: 1.4,
+	kinda: 0.7,
+	slightly: 0.6,
+	somewhat: 0.7,
+};
+
+// Insults and profanity, weighted by how strongly they signal abuse. Slurs
+// are deliberately left out of the source; they score through the
+// profanity and targeting features instead.
+export const TOXIC_WORDS: Record<string, number> = {
+	asshole: 3,
+	bastard: 3,
+	bitch: 3,
+	clown: 1.5,
+	crap: 1,
+	cunt: 3,
+	damn: 0.5,
+	dick: 2,
+	dickhead: 3,
+	disgusting: 1,
+	dumb: 2,
+	dumbass: 3,
+	fck: 2,
+	fuck: 2.5,
+	fucking: 2,
+	fuk: 2,
+	garbage: 1,
+	hoe: 2.5,
+	idiot: 2.5,
+	idiots: 2.5,
+	imbecile: 2.5,
+	kys: 4,
+	loser: 2,
+	moron: 2.5,
+	morons: 2.5,
+	pathetic: 1.5,
+	piss: 1.5,
+	pos: 2,
+	retard: 3,
+	retarded: 3,
+	scum: 2.5,
+	shit: 1.5,
+	shitty: 1.5,
+	shut: 1,
+	slut: 3,
+	stfu: 2.5,
+	stupid: 2,
+	trash: 1,
+	twat: 3,
+	ugly: 1.5,
+	whore: 3,
+	worthless: 2,
+	wtf: 1,
+};
+
+// Words that aim a comment at someone, an insult near one is likely abuse
+export const TARGET_WORDS = new Set([
+	"you",
+	"your",
+	"youre",
+	"you're",
+	"ur",
+	"u",
+	"yall",
+	"y'all",
+	"he",
+	"she",
+	"they",
+	"ppl",
+	"people",
+]);
+
+// Phrases typical of spam and self-promotion, matched against the
+// lowercased text
+export const SPAM_PHRASES = [
+	"check my profile",
+	"check out my",
+	"click the link",
+	"link in bio",
+	"link in my bio",
+	"follow me",
+	"follow for follow",
+	"f4f",
+	"sub4sub",
+	"sub to me",
+	"subscribe to my",
+	"dm me",
+	"dm for",
+	"message me on",
+	"whatsapp",
+	"telegram",
+	"free followers",
+	"free money",
+	"giveaway",
+	"earn $",
+	"make money",
+	"passive income",
+	"crypto",
+	"bitcoin",
+	"investment",
+	"forex",
+	"promo code",
+	"use my code",
+	"onlyfans",
+	"hot singles",
+];
+
+// Words too common to say anything about a comment's topic
+export const STOPWORDS = new Set([
+	"a",
+	"about",
+	"after",
+	"again",
+	"all",
+	"also",
+	"am",
+	"an",
+	"and",
+	"any",
+	"are",
+	"as",
+	"at",
+	"be",
+	"because",
+	"been",
+	"before",
+	"being",
+	"but",
+	"by",
+	"can",
+	"could",
+	"did",
+	"do",
+	"does",
+	"doing",
+	"dont",
+	"even",
+	"every",
+	"for",
+	"from",
+	"get",
+	"got",
+	"had",
+	"has",
+	"have",
+	"he",
+	"her",
+	"here",
+	"him",
+	"his",
+	"how",
+	"i",
+	"if",
+	"im",
+	"in",
+	"into",
+	"is",
+	"it",
+	"its",
+	"just",
+	"let",
+	"me",
+	"more",
+	"most",
+	"much",
+	"my",
+	"no",
+	"not",
+	"now",
+	"of",
+	"oh",
+	"on",
+	"one",
+	"only",
+	"or",
+	"other",
+	"our",
+	"out",
+	"over",
+	"really",
+	"same",
+	"she",
+	"should",
+	"so",
+	"some",
+	"still",
+	"such",
+	"than",
+	"that",
+	"thats",
+	"the",
+	"their",
+	"them",
+	"then",
+	"there",
+	"these",
+	"they",
+	"this",
+	"those",
+	"to",
+	"too",
+	"u",
+	"ur",
+	"up",
+	"us",
+	"very",
+	"was",
+	"we",
+	"were",
+	"what",
+	"when",
+	"where",
+	"which",
+	"who",
+	"why",
+	"will",
+	"with",
+	"would",
+	"yall",
+	"yeah",
+	"yes",
+	"you",
+	"youre",
+	"your",
+	// Comment filler
+	"bro",
+	"haha",
+	"hahaha",
+	"lmao",
+	"lol",
+	"omg",
+	"pls",
+	"please",
+	"video",
+	"ya",
+]);
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { computeCommentStats, type StatsComment } from "./stats";
+
+function comment(
+	id: string,
+	username: string,
+	createTime: string,
+	fields: Partial<StatsComment> = {},
+): StatsComment {
+	return {
+		comment_id: id,
+		username,
+		nickname: username.toUpperCase(),
+		comment: "",
+		create_time: createTime,
+		total_reply: 0,
+		replies: [],
+		...fields,
+	};
+}
+
+// A thread three replies deep, a comment without replies, and a reply whose
+// parent wasn't scraped
+const comments = [
+	comment("c1", "alice", "2024-05-01T10:15:00", {
+		total_reply: 3,
+		replies: [
+			comment("r1", "bob", "2024-05-01T10:40:00", { parent_comment_id: "c1" }),
+			comment("r2", "carol", "2024-05-01T12:05:00", {
+				parent_comment_id: "r1",
+			}),
+			comment("r3", "alice", "2024-05-01T12:59:00", {
+				parent_comment_id: "r2",
+			}),
+		],
+	}),
+	comment("c2", "bob", "2024-05-01T13:00:00"),
+	comment("c3", "dave", "2024-05-01T10:00:00", {
+		parent_comment_id: "x9",
+		is_orphan_reply: true,
+	}),
+];
+
+describe("computeCommentStats", () => {
+	const stats = computeCommentStats(comments);
+
+	test("counts comments and replies", () => {
+		expect(stats.total).toBe(6);
+		expect(stats.topLevel).toBe(2);
+		expect(stats.replies).toBe(4);
+	});
+
+	test("buckets volume by hour, keeping empty hours", () => {
+		expect(stats.volume).toEqual({
+			interval: "hour",
+			buckets: [
+				{ start: "2024-05-01T10:00:00.000Z", count: 3 },
+				{ start: "2024-05-01T11:00:00.000Z", count: 0 },
+				{ start: "2024-05-01T12:00:00.000Z", count: 2 },
+				{ start: "2024-05-01T13:00:00.000Z", count: 1 },
+			],
+		});
+	});
+
+	test("widens buckets for longer spans", () => {
+		const month = computeCommentStats([
+			comment("a", "alice", "2024-01-01T00:00:00"),
+			comment("b", "bob", "2024-01-31T08:00:00"),
+		]);
+		expect(month.volume.interval).toBe("day");
+		expect(month.volume.buckets).toHaveLength(31);
+
+		const year = computeCommentStats([
+			comment("a", "alice", "2024-01-01T00:00:00"),
+			comment("b", "bob", "2024-12-31T00:00:00"),
+		]);
+		expect(year.volume.interval).toBe("week");
+	});
+
+	test("follows reply chains for their depth", () => {
+		expect(stats.replyDepth).toEqual({
+			max: 3,
+			average: 1.75,
+			distribution: [
+				{ depth: 1, count: 2 },
+				{ depth: 2, count: 1 },
+				{ depth: 3, count: 1 },
+			],
+			threadsWithReplies: 2,
+			largestThread: 3,
+		});
+	});
+
+	test("counts orphaned replies and their share of replies", () => {
+		expect(stats.orphanReplies).toBe(1);
+		expect(stats.orphanShare).toBe(0.25);
+	});
+
+	test("ranks commenters by comments written and replies received", () => {
+		expect(stats.topCommenters.slice(0, 2)).toEqual([
+			{ username: "alice", nickname: "ALICE", count: 2 },
+			{ username: "bob", nickname: "BOB", count: 2 },
+		]);
+		expect(stats.mostReplied).toEqual([
+			{ username: "alice", nickname: "ALICE", count: 3 },
+		]);
+	});
+
+	test("handles no comments", () => {
+		const empty = computeCommentStats([]);
+		expect(empty.volume).toEqual({ interval: "day", buckets: [] });
+		expect(empty.replyDepth.max).toBe(0);
+		expect(empty.orphanShare).toBe(0);
+	});
+});
@@ -0,0 +1,241 @@
+import { topicTerms } from "./topics";
+
+// Fields the statistics read, shared by the scraper's CommentData and the
+// frontend's Comment
+export interface StatsComment {
+	comment_id: string;
+	username: string;
+	nickname: string;
+	comment: string;
+	create_time: string;
+	total_reply: number;
+	replies: StatsComment[];
+	parent_comment_id?: string;
+	is_orphan_reply?: boolean;
+}
+
+export type VolumeInterval = "hour" | "day" | "week";
+
+export interface VolumeBucket {
+	start: string; // ISO time the bucket starts at, UTC
+	count: number;
+}
+
+export interface CommenterCount {
+	username: string;
+	nickname: string;
+	count: number;
+}
+
+export interface TermCount {
+	term: string;
+	count: number;
+}
+
+export interface CommentStats {
+	total: number;
+	topLevel: number;
+	replies: number;
+	volume: { interval: VolumeInterval; buckets: VolumeBucket[] };
+	topCommenters: CommenterCount[]; // By comments written
+	mostReplied: CommenterCount[]; // By replies received
+	replyDepth: {
+		max: number;
+		average: number; // Over replies only
+		distribution: { depth: number; count: number }[];
+		threadsWithReplies: number; // Top-level comments with at least one reply
+		largestThread: number;
+	};
+	orphanReplies: number;
+	orphanShare: number; // Of all replies, 0 to 1
+	keywords: TermCount[];
+	emoji: TermCount[];
+	hashtags: TermCount[];
+	mentions: TermCount[];
+}
+
+const TOP_COMMENTERS = 10;
+const TOP_TERMS = 20;
+
+// Most buckets the volume histogram is drawn with before widening them
+const MAX_BUCKETS = 120;
+
+const INTERVAL_MS: Record<VolumeInterval, number> = {
+	hour: 60 * 60 * 1000,
+	day: 24 * 60 * 60 * 1000,
+	week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+const IS_EMOJI = /\p{Extended_Pictographic}/u;
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /@[\w.]+/g;
+
+function topCounts(counts: Map<string, number>, limit: number): TermCount[] {
+	return [...counts.entries()]
+		.sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+		.slice(0, limit)
+		.map(([term, count]) => ({ term, count }));
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1): void {
+	counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+/**
+ * Comments per hour, day or week, whichever keeps the histogram under
+ * MAX_BUCKETS bars. Empty buckets are kept so gaps show.
+ */
+function volumeOverTime(times: number[]): CommentStats["volume"] {
+	if (times.length === 0) return { interval: "day", buckets: [] };
+
+	const first = Math.min(...times);
+	const last = Math.max(...times);
+	const interval =
+		(["hour", "day", "week"] as const).find(
+			(candidate) => (last - first) / INTERVAL_MS[candidate] < MAX_BUCKETS,
+		) ?? "week";
+
+	const size = INTERVAL_MS[interval];
+	const start = Math.floor(first / size) * size;
+	const counts = new Array<number>(Math.floor((last - start) / size) + 1).fill(
+		0,
+	);
+	for (const time of times) {
+		const index = Math.floor((time - start) / size);
+		counts[index] = (counts[index] ?? 0) + 1;
+	}
+
+	return {
+		interval,
+		buckets: counts.map((count, index) => ({
+			start: new Date(start + index * size).toISOString(),
+			count,
+		})),
+	};
+}
+
+/**
+ * Statistics for a scrape result: volume over time, most active and most
+ * replied-to commenters, how deep reply chains go, orphaned replies, and the
+ * most used keywords, emoji, hashtags and mentions
+ */
+export function computeCommentStats(comments: StatsComment[]): CommentStats {
+	// Flatten threads, replies keep the comment they were listed under
+	const all: { comment: StatsComment; threadId?: string }[] = [];
+	for (const comment of comments) {
+		all.push({ comment });
+		for (const reply of comment.replies) {
+			all.push({ comment: reply, threadId: comment.comment_id });
+		}
+	}
+
+	const byId = new Map(all.map(({ comment }) => [comment.comment_id, comment]));
+	const parentOf = ({ comment, threadId }: (typeof all)[number]) => {
+		const parent = comment.parent_comment_id;
+		if (parent && parent !== "0") return parent;
+		return threadId;
+	};
+
+	const written = new Map<string, number>();
+	const received = new Map<string, number>();
+	const nicknames = new Map<string, string>();
+	const keywords = new Map<string, number>();
+	const emoji = new Map<string, number>();
+	const hashtags = new Map<string, number>();
+	const mentions = new Map<string, number>();
+	const depths = new Map<number, number>();
+	const threadSizes = new Map<string, number>();
+	const times: number[] = [];
+	let replies = 0;
+	let orphans = 0;
+	let depthSum = 0;
+
+	for (const item of all) {
+		const { comment } = item;
+		increment(written, comment.username);
+		nicknames.set(comment.username, comment.nickname);
+		// Counted by the platform, so it includes replies that weren't loaded
+		increment(received, comment.username, comment.total_reply);
+
+		const time = Date.parse(`${comment.create_time}Z`);
+		if (!Number.isNaN(time)) times.push(time);
+
+		const parentId = parentOf(item);
+		if (parentId) {
+			replies++;
+			if (comment.is_orphan_reply) orphans++;
+
+			// Follow the chain up while the parents were scraped
+			let depth = 1;
+			let parent = byId.get(parentId);
+			const seen = new Set([comment.comment_id]);
+			while (
+				parent?.parent_comment_id &&
+				parent.parent_comment_id !== "0" &&
+				!seen.has(parent.comment_id)
+			) {
+				seen.add(parent.comment_id);
+				const next = byId.get(parent.parent_comment_id);
+				if (!next) break;
+				depth++;
+				parent = next;
+			}
+			depths.set(depth, (depths.get(depth) ?? 0) + 1);
+			depthSum += depth;
+
+			increment(threadSizes, item.threadId ?? parentId);
+		}
+
+		// Mentions are counted on their own, keep usernames out of the keywords
+		for (const term of topicTerms(
+			comment.comment.replace(MENTION_PATTERN, " "),
+		)) {
+			if (!term.startsWith("#") && !IS_EMOJI.test(term)) {
+				increment(keywords, term);
+			}
+		}
+		for (const match of comment.comment.match(EMOJI_PATTERN) ?? []) {
+			increment(emoji, match);
+		}
+		for (const match of comment.comment.match(HASHTAG_PATTERN) ?? []) {
+			increment(hashtags, match.toLowerCase());
+		}
+		for (const match of comment.comment.match(MENTION_PATTERN) ?? []) {
+			increment(mentions, match.toLowerCase());
+		}
+	}
+
+	const commenters = (counts: Map<string, number>) =>
+		topCounts(counts, TOP_COMMENTERS)
+			.filter(({ count }) => count > 0)
+			.map(({ term, count }) => ({
+				username: term,
+				nickname: nicknames.get(term) ?? term,
+				count,
+			}));
+
+	return {
+		total: all.length,
+		topLevel: all.length - replies,
+		replies,
+		volume: volumeOverTime(times),
+		topCommenters: commenters(written),
+		mostReplied: commenters(received),
+		replyDepth: {
+			max: Math.max(0, ...depths.keys()),
+			average: replies > 0 ? depthSum / replies : 0,
+			distribution: [...depths.entries()]
+				.sort(([a], [b]) => a - b)
+				.map(([depth, count]) => ({ depth, count })),
+			threadsWithReplies: threadSizes.size,
+			largestThread: Math.max(0, ...threadSizes.values()),
+		},
+		orphanReplies: orphans,
+		orphanShare: replies > 0 ? orphans / replies : 0,
+		keywords: topCounts(keywords, TOP_TERMS),
+		emoji: topCounts(emoji, TOP_TERMS),
+		hashtags: topCounts(hashtags, TOP_TERMS),
+		mentions: topCounts(mentions, TOP_TERMS),
+	};
+}
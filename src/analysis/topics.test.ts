@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { clusterByTopic, type TopicDocument, topicTerms } from "./topics";
+
+const documents: TopicDocument[] = [
+	"this pasta recipe is amazing",
+	"the pasta sauce looks so good",
+	"what sauce did you use for the pasta?",
+	"need this recipe for the sauce",
+	"the guitar solo at the end",
+	"that guitar riff though",
+	"who plays guitar in this song?",
+	"this song is stuck in my head",
+	"best song of the year, the solo",
+	"123",
+	"🔥",
+	"ok",
+].map((text, index) => ({ id: `c${index}`, text }));
+
+describe("topicTerms", () => {
+	test("keeps hashtags and emoji, drops stopwords and numbers", () => {
+		expect(
+			topicTerms("The cat's videos are SO good #Cats 🔥 123 it's"),
+		).toEqual(["cat", "video", "good", "#cat", "🔥"]);
+	});
+});
+
+describe("clusterByTopic", () => {
+	test("labels clusters with their heaviest terms, biggest first", () => {
+		expect(clusterByTopic(documents, { k: 2, labelKeywords: 2 })).toEqual([
+			{
+				label: "guitar, song",
+				keywords: ["guitar", "song"],
+				memberIds: ["c4", "c5", "c6", "c7", "c8"],
+			},
+			{
+				label: "pasta, sauce",
+				keywords: ["pasta", "sauce"],
+				memberIds: ["c0", "c1", "c2", "c3"],
+			},
+			{ label: "Other", keywords: [], memberIds: ["c9", "c10", "c11"] },
+		]);
+	});
+
+	test("picks the number of topics from the comment count", () => {
+		expect(clusterByTopic(documents).map((cluster) => cluster.label)).toEqual([
+			"pasta, sauce, recipe",
+			"guitar, solo, song",
+			"song, solo",
+			"Other",
+		]);
+	});
+
+	test("clusters the same comments the same way every time", () => {
+		expect(clusterByTopic(documents)).toEqual(clusterByTopic(documents));
+	});
+
+	test("puts comments without a shared term in Other", () => {
+		const other = clusterByTopic(documents).at(-1);
+		expect(other).toEqual({
+			label: "Other",
+			keywords: [],
+			memberIds: ["c9", "c10", "c11"],
+		});
+	});
+
+	test("returns no clusters for no comments", () => {
+		expect(clusterByTopic([])).toEqual([]);
+	});
+});
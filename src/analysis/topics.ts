@@ -0,0 +1,297 @@
+import { STOPWORDS } from "./lexicon";
+
+export interface TopicDocument {
+	id: string;
+	text: string;
+}
+
+export interface TopicCluster {
+	label: string; // Top keywords, "Other" for comments without any
+	keywords: string[];
+	memberIds: string[];
+}
+
+export interface ClusterOptions {
+	// Number of topics, picked from the comment count when unset
+	k?: number;
+	// Keywords used for each label
+	labelKeywords?: number;
+}
+
+const MAX_TOPICS = 12;
+const MAX_ITERATIONS = 30;
+const RESTARTS = 5;
+const DEFAULT_LABEL_KEYWORDS = 3;
+
+// Terms in more than this share of the comments don't separate topics
+const MAX_DOCUMENT_FREQUENCY = 0.5;
+
+const TOKEN_PATTERN = /#?[\p{L}\p{N}']+|\p{Extended_Pictographic}/gu;
+
+type SparseVector = Map<number, number>;
+
+/**
+ * Lowercased topic terms of a text: hashtags and emoji are kept, stopwords
+ * and numbers dropped, and plurals folded into their singular
+ */
+export function topicTerms(text: string): string[] {
+	const terms: string[] = [];
+
+	for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+		let term = match[0].replace(/'s$/, "").replace(/'/g, "");
+		if (term.length < 2 && !/\p{Extended_Pictographic}/u.test(term)) continue;
+		if (STOPWORDS.has(term) || /^\d+$/.test(term)) continue;
+
+		if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) {
+			term = term.slice(0, -1);
+		}
+		terms.push(term);
+	}
+
+	return terms;
+}
+
+/**
+ * Small seeded generator (mulberry32), so the same comments always cluster
+ * the same way
+ */
+function seededRandom(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function dot(vector: SparseVector, centroid: Float64Array): number {
+	let sum = 0;
+	for (const [term, weight] of vector) {
+		sum += weight * (centroid[term] ?? 0);
+	}
+	return sum;
+}
+
+function normalize(values: Float64Array): void {
+	let norm = 0;
+	for (const value of values) norm += value * value;
+	norm = Math.sqrt(norm);
+	if (norm === 0) return;
+	for (let i = 0; i < values.length; i++) {
+		values[i] = (values[i] ?? 0) / norm;
+	}
+}
+
+/**
+ * TF-IDF vectors of the documents, L2 normalized, over terms shared by at
+ * least two of them
+ */
+function vectorize(documents: string[][]): {
+	vectors: SparseVector[];
+	vocabulary: string[];
+} {
+	const documentFrequency = new Map<string, number>();
+	for (const terms of documents) {
+		for (const term of new Set(terms)) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+
+	const count = documents.length;
+	const minFrequency = count >= 10 ? 2 : 1;
+	const vocabulary: string[] = [];
+	const termIndex = new Map<string, number>();
+	for (const [term, frequency] of documentFrequency) {
+		if (frequency < minFrequency) continue;
+		if (count >= 10 && frequency > count * MAX_DOCUMENT_FREQUENCY) continue;
+		termIndex.set(term, vocabulary.length);
+		vocabulary.push(term);
+	}
+
+	const vectors = documents.map((terms) => {
+		const counts = new Map<number, number>();
+		for (const term of terms) {
+			const index = termIndex.get(term);
+			if (index !== undefined) {
+				counts.set(index, (counts.get(index) ?? 0) + 1);
+			}
+		}
+
+		const vector: SparseVector = new Map();
+		let norm = 0;
+		for (const [index, termCount] of counts) {
+			const term = vocabulary[index] as string;
+			const idf = Math.log(count / (documentFrequency.get(term) as number)) + 1;
+			const weight = (1 + Math.log(termCount)) * idf;
+			vector.set(index, weight);
+			norm += weight * weight;
+		}
+		norm = Math.sqrt(norm);
+		for (const [index, weight] of vector) {
+			vector.set(index, weight / norm);
+		}
+		return vector;
+	});
+
+	return { vectors, vocabulary };
+}
+
+/**
+ * Pick starting centroids with k-means++: each next one is drawn with
+ * probability growing with its distance to the ones already picked
+ */
+function initialCentroids(
+	vectors: SparseVector[],
+	k: number,
+	dimensions: number,
+	random: () => number,
+): Float64Array[] {
+	const toDense = (vector: SparseVector) => {
+		const dense = new Float64Array(dimensions);
+		for (const [index, weight] of vector) dense[index] = weight;
+		return dense;
+	};
+
+	const first = vectors[Math.floor(random() * vectors.length)] as SparseVector;
+	const centroids = [toDense(first)];
+
+	while (centroids.length < k) {
+		// Cosine distance to the closest centroid, squared
+		const distances = vectors.map((vector) => {
+			const similarity = Math.max(...centroids.map((c) => dot(vector, c)));
+			return (1 - similarity) ** 2;
+		});
+		const total = distances.reduce((sum, distance) => sum + distance, 0);
+		if (total === 0) break;
+
+		let target = random() * total;
+		let picked = vectors.length - 1;
+		for (let i = 0; i < distances.length; i++) {
+			target -= distances[i] ?? 0;
+			if (target <= 0) {
+				picked = i;
+				break;
+			}
+		}
+		centroids.push(toDense(vectors[picked] as SparseVector));
+	}
+
+	return centroids;
+}
+
+/**
+ * One spherical k-means run: assign each point to its most similar
+ * centroid, move the centroids to their members' mean, until stable
+ */
+function runKMeans(
+	points: SparseVector[],
+	k: number,
+	dimensions: number,
+	seed: number,
+): { centroids: Float64Array[]; assignments: number[]; similarity: number } {
+	const centroids = initialCentroids(points, k, dimensions, seededRandom(seed));
+	let assignments = new Array<number>(points.length).fill(-1);
+	let similarity = 0;
+
+	for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+		similarity = 0;
+		const next = points.map((point) => {
+			let best = 0;
+			let bestSimilarity = -1;
+			centroids.forEach((centroid, index) => {
+				const value = dot(point, centroid);
+				if (value > bestSimilarity) {
+					bestSimilarity = value;
+					best = index;
+				}
+			});
+			similarity += bestSimilarity;
+			return best;
+		});
+
+		const changed = next.some((cluster, i) => cluster !== assignments[i]);
+		assignments = next;
+		if (!changed) break;
+
+		for (const centroid of centroids) centroid.fill(0);
+		points.forEach((point, i) => {
+			const centroid = centroids[assignments[i] as number] as Float64Array;
+			for (const [index, weight] of point) {
+				centroid[index] = (centroid[index] ?? 0) + weight;
+			}
+		});
+		for (const centroid of centroids) normalize(centroid);
+	}
+
+	return { centroids, assignments, similarity };
+}
+
+/**
+ * Group documents by topic: spherical k-means over TF-IDF vectors, labeled
+ * with each cluster's heaviest terms. Runs fully locally. Documents without
+ * a single shared term end up in an "Other" cluster.
+ */
+export function clusterByTopic(
+	documents: TopicDocument[],
+	options: ClusterOptions = {},
+): TopicCluster[] {
+	const { vectors, vocabulary } = vectorize(
+		documents.map((document) => topicTerms(document.text)),
+	);
+
+	const clusterable: number[] = [];
+	const unclustered: string[] = [];
+	vectors.forEach((vector, index) => {
+		const id = (documents[index] as TopicDocument).id;
+		if (vector.size > 0) clusterable.push(index);
+		else unclustered.push(id);
+	});
+
+	const clusters: TopicCluster[] = [];
+
+	if (clusterable.length > 0) {
+		const k = Math.min(
+			clusterable.length,
+			options.k ??
+				Math.min(
+					MAX_TOPICS,
+					Math.max(2, Math.ceil(Math.sqrt(clusterable.length))),
+				),
+		);
+		const points = clusterable.map((index) => vectors[index] as SparseVector);
+
+		// k-means lands in a local optimum, keep the best of a few starts
+		let best = runKMeans(points, k, vocabulary.length, 1);
+		for (let seed = 2; seed <= RESTARTS; seed++) {
+			const run = runKMeans(points, k, vocabulary.length, seed);
+			if (run.similarity > best.similarity) best = run;
+		}
+		const { centroids, assignments } = best;
+
+		const labelKeywords = options.labelKeywords ?? DEFAULT_LABEL_KEYWORDS;
+		centroids.forEach((centroid, cluster) => {
+			const memberIds = clusterable
+				.filter((_, i) => assignments[i] === cluster)
+				.map((index) => (documents[index] as TopicDocument).id);
+			if (memberIds.length === 0) return;
+
+			const keywords = [...centroid.entries()]
+				.filter(([, weight]) => weight > 0)
+				.sort(([, a], [, b]) => b - a)
+				.slice(0, labelKeywords)
+				.map(([index]) => vocabulary[index] as string);
+
+			clusters.push({ label: keywords.join(", "), keywords, memberIds });
+		});
+
+		// Biggest topics first
+		clusters.sort((a, b) => b.memberIds.length - a.memberIds.length);
+	}
+
+	if (unclustered.length > 0) {
+		clusters.push({ label: "Other", keywords: [], memberIds: unclustered });
+	}
+
+	return clusters;
+}
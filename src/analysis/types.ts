@@ -0,0 +1,11 @@
+export type Sentiment = "positive" | "neutral" | "negative";
+
+/**
+ * Scores computed for a comment's text. Safe to import from the frontend.
+ */
+export interface CommentAnalysis {
+	sentiment: Sentiment;
+	sentiment_score: number; // -1 (negative) to 1 (positive)
+	toxicity: number; // 0 to 1
+	spam: number; // 0 to 1
+}
@@ -0,0 +1,192 @@
+#!/usr/bin/env bun
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { Command, InvalidArgumentError } from "commander";
+import { formatPlatformNames, PLATFORMS } from "./platforms";
+import { resolveScrapeTarget, runScrape, TiktokComment } from "./scraper";
+import { Comments, type CommentsData } from "./types";
+import {
+	logger,
+	parseCollectionSource,
+	type TiktokCollectionSource,
+} from "./utils";
+
+interface CliOptions {
+	id?: string;
+	url?: string;
+	output: string;
+	previous?: string;
+	profile?: string;
+	hashtag?: string;
+	limit?: number;
+	since?: Date;
+	until?: Date;
+}
+
+function parseDateOption(value: string): Date {
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new InvalidArgumentError("Expected a date like 2024-01-31.");
+	}
+	return date;
+}
+
+// A bare date in --until includes that whole day
+function parseEndDateOption(value: string): Date {
+	const date = parseDateOption(value);
+	if (/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+		date.setUTCHours(23, 59, 59, 999);
+	}
+	return date;
+}
+
+function parseLimitOption(value: string): number {
+	const limit = Number.parseInt(value, 10);
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new InvalidArgumentError("Expected a positive number.");
+	}
+	return limit;
+}
+
+/**
+ * Scrape a TikTok profile's or hashtag's videos into one JSON file
+ */
+async function scrapeCollection(
+	source: TiktokCollectionSource,
+	options: CliOptions,
+): Promise<void> {
+	logger.info(`Scraping TikTok ${source.type} ${source.name}...`);
+	const result = await new TiktokComment().scrapeCollection(source, {
+		limit: options.limit,
+		since: options.since,
+		until: options.until,
+	});
+
+	const outputDir = resolve(options.output);
+	mkdirSync(outputDir, { recursive: true });
+
+	const outputPath = join(
+		outputDir,
+		`tiktok-${source.type}-${source.name.replace(/[^\w.-]+/g, "_")}.json`,
+	);
+	writeFileSync(
+		outputPath,
+		JSON.stringify({ ...result, platform: "tiktok" }, null, 2),
+	);
+
+	const commentCount = result.videos.reduce(
+		(total, video) => total + video.comments.length,
+		0,
+	);
+	logger.info(
+		`Saved ${commentCount} comments from ${result.videos.length} videos to ${outputPath}`,
+	);
+}
+
+const packageJson = (await Bun.file(
+	new URL("../package.json", import.meta.url),
+).json()) as { version: string };
+
+const program = new Command()
+	.name("tiktok-comment-scrapper")
+	.description(
+		`Scrape comments from ${formatPlatformNames(PLATFORMS, "and")} into JSON`,
+	)
+	.version(packageJson.version)
+	.argument(
+		"[input]",
+		"video URL, TikTok video ID, or TikTok profile/hashtag (@user, #tag)",
+	)
+	.option("--id <id>", "TikTok video ID")
+	.option("--url <url>", "video or post URL")
+	.option("--output <dir>", "output directory for JSON", "data")
+	.option(
+		"--previous <file>",
+		"previous JSON result to update with new comments only (TikTok)",
+	)
+	.option("--profile <user>", "scrape a TikTok profile's videos")
+	.option("--hashtag <tag>", "scrape a TikTok hashtag's videos")
+	.option(
+		"--limit <n>",
+		"number of newest videos to scrape for --profile/--hashtag (default 10 without a date range)",
+		parseLimitOption,
+	)
+	.option(
+		"--since <date>",
+		"only videos posted on or after this date",
+		parseDateOption,
+	)
+	.option(
+		"--until <date>",
+		"only videos posted on or before this date",
+		parseEndDateOption,
+	)
+	.action(async (input: string | undefined, options: CliOptions) => {
+		const source: TiktokCollectionSource | undefined = options.profile
+			? { type: "profile", name: options.profile.replace(/^@/, "") }
+			: options.hashtag
+				? { type: "hashtag", name: options.hashtag.replace(/^#/, "") }
+				: parseCollectionSource(input ?? options.url ?? "");
+
+		if (source) {
+			await scrapeCollection(source, options);
+			return;
+		}
+
+		let url = options.url;
+		let id = options.id;
+
+		// A positional argument can be either a URL or a bare video ID
+		if (input) {
+			if (/^\d+$/.test(input.trim())) {
+				id ??= input.trim();
+			} else {
+				url ??= input;
+			}
+		}
+
+		if (!url && !id) {
+			program.help({ error: true });
+		}
+
+		const target = await resolveScrapeTarget(url, id);
+		if ("error" in target) {
+			logger.error(target.error);
+			process.exit(1);
+		}
+
+		let previous: Comments | undefined;
+		if (options.previous) {
+			const data = JSON.parse(
+				readFileSync(resolve(options.previous), "utf-8"),
+			) as CommentsData;
+			previous = Comments.fromDict(data);
+			logger.info(
+				`Loaded ${previous.comments.length} comments from ${options.previous}`,
+			);
+		}
+
+		logger.info(`Scraping ${target.platform} content ${target.contentId}...`);
+		const result = await runScrape(target, undefined, previous);
+
+		const outputDir = resolve(options.output);
+		mkdirSync(outputDir, { recursive: true });
+
+		const outputPath = join(
+			outputDir,
+			`${target.platform}-${target.contentId}.json`,
+		);
+		writeFileSync(
+			outputPath,
+			JSON.stringify({ ...result.dict, platform: target.platform }, null, 2),
+		);
+
+		logger.info(`Saved ${result.comments.length} comments to ${outputPath}`);
+	});
+
+try {
+	await program.parseAsync();
+} catch (error) {
+	logger.error(error instanceof Error ? error.message : String(error));
+	process.exit(1);
+}
@@ -0,0 +1,343 @@
+import { toPng } from "html-to-image";
+import { jsPDF } from "jspdf";
+import { BarChart3, ChevronDown, FileText, Image, Loader2 } from "lucide-react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+	type CommenterCount,
+	computeCommentStats,
+	type TermCount,
+	type VolumeInterval,
+} from "../analysis";
+import { PngExportOptions } from "../constants/png-options";
+import type { ScrapeResult } from "../hooks/use-scraper";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+interface AnalyticsViewProps {
+	result: ScrapeResult;
+}
+
+const BUCKET_FORMAT: Record<VolumeInterval, Intl.DateTimeFormatOptions> = {
+	hour: { month: "short", day: "numeric", hour: "numeric" },
+	day: { month: "short", day: "numeric", year: "numeric" },
+	week: { month: "short", day: "numeric", year: "numeric" },
+};
+
+function formatBucket(start: string, interval: VolumeInterval): string {
+	const label = new Date(start).toLocaleString(undefined, {
+		...BUCKET_FORMAT[interval],
+		timeZone: "UTC",
+	});
+	return interval === "week" ? `Week of ${label}` : label;
+}
+
+function formatPercent(share: number): string {
+	return `${Math.round(share * 100)}%`;
+}
+
+function StatTile({ label, value }: { label: string; value: string | number }) {
+	return (
+		<div className="rounded-lg border border-border p-3">
+			<div className="text-xl font-bold">{value}</div>
+			<div className="text-xs text-muted-foreground">{label}</div>
+		</div>
+	);
+}
+
+// Horizontal bars scaled to the largest count in the list
+function BarList({
+	title,
+	items,
+	empty = "None found",
+}: {
+	title: string;
+	items: { key: string; label: string; count: number }[];
+	empty?: string;
+}) {
+	const max = Math.max(1, ...items.map((item) => item.count));
+
+	return (
+		<div className="space-y-2">
+			<p className="text-sm font-medium">{title}</p>
+			{items.length === 0 ? (
+				<p className="text-sm text-muted-foreground">{empty}</p>
+			) : (
+				<div className="space-y-1">
+					{items.map((item) => (
+						<div key={item.key} className="flex items-center gap-2 text-xs">
+							<span className="w-28 shrink-0 truncate" title={item.label}>
+								{item.label}
+							</span>
+							<div className="h-3 flex-1 rounded bg-muted">
+								<div
+									className="h-3 rounded bg-primary/70"
+									style={{ width: `${(item.count / max) * 100}%` }}
+								/>
+							</div>
+							<span className="w-10 shrink-0 text-right text-muted-foreground">
+								{item.count}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+const commenterItems = (commenters: CommenterCount[]) =>
+	commenters.map((commenter) => ({
+		key: commenter.username,
+		label: `@${commenter.username}`,
+		count: commenter.count,
+	}));
+
+const termItems = (terms: TermCount[]) =>
+	terms.map((term) => ({
+		key: term.term,
+		label: term.term,
+		count: term.count,
+	}));
+
+/**
+ * Statistics of a scrape result: comment volume over time, top commenters,
+ * reply depth, orphaned replies and the most used terms. Collapsed until
+ * opened, since computing it walks every comment.
+ */
+export function AnalyticsView({ result }: AnalyticsViewProps) {
+	const [open, setOpen] = useState(false);
+	const [exporting, setExporting] = useState(false);
+	const reportRef = useRef<HTMLDivElement>(null);
+
+	const stats = useMemo(
+		() => (open ? computeCommentStats(result.comments) : null),
+		[open, result.comments],
+	);
+
+	const filename = `${result.platform}-analytics-${Date.now()}`;
+
+	const renderReport = useCallback(async () => {
+		if (!reportRef.current) return null;
+		return toPng(reportRef.current, PngExportOptions);
+	}, []);
+
+	// Export as PNG
+	const handleExportPng = async () => {
+		setExporting(true);
+		try {
+			const dataUrl = await renderReport();
+			if (!dataUrl) return;
+
+			const link = document.createElement("a");
+			link.download = `${filename}.png`;
+			link.href = dataUrl;
+			link.click();
+		} catch (error) {
+			console.error("Failed to export PNG:", error);
+		} finally {
+			setExporting(false);
+		}
+	};
+
+	// Export as PDF, one page sized to the report
+	const handleExportPdf = async () => {
+		setExporting(true);
+		try {
+			const dataUrl = await renderReport();
+			if (!dataUrl) return;
+
+			const img = new window.Image();
+			img.src = dataUrl;
+
+			await new Promise((resolve) => {
+				img.onload = resolve;
+			});
+
+			const pdf = new jsPDF({
+				orientation: img.width > img.height ? "landscape" : "portrait",
+				unit: "px",
+				format: [img.width, img.height],
+			});
+
+			pdf.addImage(dataUrl, "PNG", 0, 0, img.width, img.height);
+			pdf.save(`${filename}.pdf`);
+		} catch (error) {
+			console.error("Failed to export PDF:", error);
+		} finally {
+			setExporting(false);
+		}
+	};
+
+	const maxVolume = Math.max(
+		1,
+		...(stats?.volume.buckets.map((bucket) => bucket.count) ?? []),
+	);
+	const firstBucket = stats?.volume.buckets[0];
+	const lastBucket = stats?.volume.buckets.at(-1);
+
+	return (
+		<Card>
+			<CardHeader className="pb-3">
+				<div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+					<CardTitle className="text-lg flex items-center gap-2">
+						<BarChart3 className="h-5 w-5 text-primary" />
+						Analytics
+					</CardTitle>
+					<div className="flex items-center gap-2">
+						{open && (
+							<>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={handleExportPng}
+									disabled={exporting}
+									className="gap-1.5"
+								>
+									{exporting ? (
+										<Loader2 className="h-3.5 w-3.5 animate-spin" />
+									) : (
+										<Image className="h-3.5 w-3.5" />
+									)}
+									PNG
+								</Button>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={handleExportPdf}
+									disabled={exporting}
+									className="gap-1.5"
+								>
+									<FileText className="h-3.5 w-3.5" />
+									PDF
+								</Button>
+							</>
+						)}
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setOpen(!open)}
+							className="gap-1.5"
+						>
+							{open ? "Hide" : "Show"}
+							<ChevronDown
+								className={`h-4 w-4 transition-transform ${
+									open ? "rotate-180" : ""
+								}`}
+							/>
+						</Button>
+					</div>
+				</div>
+			</CardHeader>
+
+			{stats && (
+				<CardContent>
+					<div ref={reportRef} className="space-y-6 bg-card p-2">
+						{result.caption && (
+							<p className="text-sm text-muted-foreground line-clamp-2">
+								{result.caption}
+							</p>
+						)}
+
+						<div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+							<StatTile label="Comments" value={stats.topLevel} />
+							<StatTile label="Replies" value={stats.replies} />
+							<StatTile
+								label="Orphan replies"
+								value={`${stats.orphanReplies} (${formatPercent(stats.orphanShare)})`}
+							/>
+							<StatTile
+								label="Threads with replies"
+								value={stats.replyDepth.threadsWithReplies}
+							/>
+						</div>
+
+						{/* Volume histogram */}
+						<div className="space-y-2">
+							<p className="text-sm font-medium">
+								Comments per {stats.volume.interval}
+							</p>
+							{stats.volume.buckets.length === 0 ? (
+								<p className="text-sm text-muted-foreground">
+									No comment times to plot
+								</p>
+							) : (
+								<>
+									<div className="flex h-40 items-end gap-px">
+										{stats.volume.buckets.map((bucket) => (
+											<div
+												key={bucket.start}
+												className="flex-1 rounded-t bg-secondary/70"
+												style={{
+													height: `${(bucket.count / maxVolume) * 100}%`,
+													minHeight: bucket.count > 0 ? 2 : 0,
+												}}
+												title={`${formatBucket(bucket.start, stats.volume.interval)}: ${bucket.count}`}
+											/>
+										))}
+									</div>
+									{firstBucket && lastBucket && (
+										<div className="flex justify-between text-xs text-muted-foreground">
+											<span>
+												{formatBucket(firstBucket.start, stats.volume.interval)}
+											</span>
+											<span>Peak {maxVolume}</span>
+											<span>
+												{formatBucket(lastBucket.start, stats.volume.interval)}
+											</span>
+										</div>
+									)}
+								</>
+							)}
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<BarList
+								title="Top commenters"
+								items={commenterItems(stats.topCommenters)}
+							/>
+							<BarList
+								title="Most replied to"
+								items={commenterItems(stats.mostReplied)}
+								empty="No replies"
+							/>
+						</div>
+
+						{/* Reply depth */}
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<div className="space-y-2">
+								<p className="text-sm font-medium">Reply depth</p>
+								<div className="grid grid-cols-3 gap-3">
+									<StatTile label="Deepest" value={stats.replyDepth.max} />
+									<StatTile
+										label="Average"
+										value={stats.replyDepth.average.toFixed(1)}
+									/>
+									<StatTile
+										label="Largest thread"
+										value={stats.replyDepth.largestThread}
+									/>
+								</div>
+							</div>
+							<BarList
+								title="Replies by depth"
+								items={stats.replyDepth.distribution.map((entry) => ({
+									key: String(entry.depth),
+									label: `Depth ${entry.depth}`,
+									count: entry.count,
+								}))}
+								empty="No replies"
+							/>
+						</div>
+
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							<BarList title="Top keywords" items={termItems(stats.keywords)} />
+							<BarList title="Top emoji" items={termItems(stats.emoji)} />
+							<BarList title="Top hashtags" items={termItems(stats.hashtags)} />
+							<BarList title="Top mentions" items={termItems(stats.mentions)} />
+						</div>
+					</div>
+				</CardContent>
+			)}
+		</Card>
+	);
+}
@@ -70,6 +70,7 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 		setInteractionMode,
 		pendingShapeType,
 		setPendingShapeType,
+		updateNodeData,
 	} = useBoardStore();
 
 	const reactFlowInstance = useReactFlow();
@@ -131,6 +132,26 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 				// Reset to select mode after placing
 				setInteractionMode("select");
 				setPendingShapeType(null);
+
+				// Create shape on server
+				if (slug) {
+					fetch(`/api/boards/${slug}/shapes`, {
+						method: "POST",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({
+							shapeType: newShape.data.shapeType,
+							positionX: position.x,
+							positionY: position.y,
+							width: 100,
+							height: 100,
+							color: newShape.data.color,
+							borderColor: newShape.data.borderColor,
+						}),
+					})
+						.then((res) => res.json())
+						.then((data) => updateNodeData(newShape.id, { dbId: data.id }))
+						.catch(console.error);
+				}
 			} else if (interactionMode === "text") {
 				const bounds = (event.target as HTMLElement).getBoundingClientRect();
 				const position = reactFlowInstance.screenToFlowPosition({
@@ -155,6 +176,27 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 				setNodes([...nodes, newText]);
 				// Reset to select mode after placing
 				setInteractionMode("select");
+
+				// Create text on server
+				if (slug) {
+					fetch(`/api/boards/${slug}/texts`, {
+						method: "POST",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({
+							text: newText.data.text,
+							positionX: position.x,
+							positionY: position.y,
+							width: 200,
+							height: 50,
+							fontSize: newText.data.fontSize,
+							fontWeight: newText.data.fontWeight,
+							color: newText.data.color,
+						}),
+					})
+						.then((res) => res.json())
+						.then((data) => updateNodeData(newText.id, { dbId: data.id }))
+						.catch(console.error);
+				}
 			}
 		},
 		[
@@ -166,6 +208,8 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 			setNodes,
 			setInteractionMode,
 			setPendingShapeType,
+			updateNodeData,
+			slug,
 		],
 	);
 
@@ -183,6 +227,16 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 						: n,
 				) as BoardNode[],
 			);
+
+			// Sync to server
+			const textNode = currentNodes.find((n) => n.id === id);
+			if (slug && textNode?.data.dbId) {
+				fetch(`/api/boards/${slug}/texts/${textNode.data.dbId}`, {
+					method: "PATCH",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ text }),
+				}).catch(console.error);
+			}
 		};
 
 		window.addEventListener(
@@ -194,7 +248,7 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 				"textNodeUpdate",
 				handleTextUpdate as EventListener,
 			);
-	}, []);
+	}, [slug]);
 
 	// Fetch board data
 	useEffect(() => {
@@ -285,6 +339,58 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 					}),
 				);
 
+				// Convert shapes to nodes
+				const shapeNodes = data.shapes.map(
+					(shape: {
+						id: string;
+						shapeType: "rectangle" | "circle" | "diamond";
+						positionX: number;
+						positionY: number;
+						width: number;
+						height: number;
+						color: string;
+						borderColor: string;
+					}) => ({
+						id: shape.id,
+						type: "shape",
+						position: { x: shape.positionX, y: shape.positionY },
+						style: { width: shape.width, height: shape.height },
+						data: {
+							dbId: shape.id,
+							shapeType: shape.shapeType,
+							color: shape.color,
+							borderColor: shape.borderColor,
+						},
+					}),
+				);
+
+				// Convert text annotations to nodes
+				const textNodes = data.texts.map(
+					(text: {
+						id: string;
+						text: string;
+						positionX: number;
+						positionY: number;
+						width: number;
+						height: number;
+						fontSize: number;
+						fontWeight: "normal" | "bold";
+						color: string;
+					}) => ({
+						id: text.id,
+						type: "text",
+						position: { x: text.positionX, y: text.positionY },
+						style: { width: text.width, height: text.height },
+						data: {
+							dbId: text.id,
+							text: text.text,
+							fontSize: text.fontSize,
+							fontWeight: text.fontWeight,
+							color: text.color,
+						},
+					}),
+				);
+
 				// Convert edges
 				const replyEdges = data.edges.map(
 					(edge: {
@@ -311,7 +417,7 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 					},
 				);
 
-				setNodes([...groupNodes, ...commentNodes]);
+				setNodes([...groupNodes, ...shapeNodes, ...commentNodes, ...textNodes]);
 				setEdges(replyEdges);
 			} catch (err) {
 				setError(err instanceof Error ? err.message : "Failed to load board");
@@ -395,7 +501,8 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 					.map((change) => {
 						if (!("id" in change)) return null;
 						const node = nodes.find((n) => n.id === change.id);
-						if (!node) return null;
+						// Skip nodes still waiting for their server ID
+						if (!node?.data.dbId) return null;
 
 						const update: {
 							id: string;
@@ -654,6 +761,81 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 		[slug],
 	);
 
+	// Cluster ungrouped comments by topic into new groups, laid out by the server
+	const [autoGrouping, setAutoGrouping] = useState(false);
+	const handleAutoGroup = useCallback(async () => {
+		if (!slug) return;
+
+		setAutoGrouping(true);
+		try {
+			const response = await fetch(`/api/boards/${slug}/auto-group`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({}),
+			});
+			if (!response.ok) {
+				throw new Error("Failed to group comments");
+			}
+
+			const data = (await response.json()) as {
+				groups: {
+					id: string;
+					label: string;
+					positionX: number;
+					positionY: number;
+					width: number;
+					height: number;
+					color: string;
+				}[];
+				comments: {
+					id: string;
+					groupId: string;
+					positionX: number;
+					positionY: number;
+				}[];
+			};
+			if (data.groups.length === 0) return;
+
+			const groupNodes: BoardNode[] = data.groups.map((group) => ({
+				id: group.id,
+				type: "group",
+				position: { x: group.positionX, y: group.positionY },
+				style: { width: group.width, height: group.height },
+				data: {
+					dbId: group.id,
+					label: group.label,
+					color: group.color,
+				},
+				zIndex: -1,
+			}));
+			const placements = new Map(
+				data.comments.map((comment) => [comment.id, comment]),
+			);
+
+			// Groups go first so React Flow knows the parents of the moved comments
+			const { nodes: currentNodes, setNodes } = useBoardStore.getState();
+			setNodes([
+				...groupNodes,
+				...currentNodes.map((node) => {
+					const placement = placements.get(node.id);
+					if (!placement) return node;
+					return {
+						...node,
+						parentId: placement.groupId,
+						extent: "parent" as const,
+						position: { x: placement.positionX, y: placement.positionY },
+					};
+				}),
+			] as BoardNode[]);
+
+			setTimeout(() => reactFlowInstance.fitView({ padding: 0.2 }), 0);
+		} catch (err) {
+			console.error(err);
+		} finally {
+			setAutoGrouping(false);
+		}
+	}, [slug, reactFlowInstance]);
+
 	// Delete selected nodes
 	const handleDeleteSelected = useCallback(() => {
 		const { selectedNodes, nodes: currentNodes } = useBoardStore.getState();
@@ -722,10 +904,15 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 			const node = currentNodes.find((n) => n.id === nodeId);
 			if (!node || !slug || !node.data.dbId) continue;
 
-			const endpoint =
+			const collection =
 				node.type === "group"
-					? `/api/boards/${slug}/groups/${node.data.dbId}`
-					: `/api/boards/${slug}/comments/${node.data.dbId}`;
+					? "groups"
+					: node.type === "shape"
+						? "shapes"
+						: node.type === "text"
+							? "texts"
+							: "comments";
+			const endpoint = `/api/boards/${slug}/${collection}/${node.data.dbId}`;
 
 			fetch(endpoint, { method: "DELETE" }).catch(console.error);
 		}
@@ -798,6 +985,8 @@ export function BoardCanvas({ slug }: BoardCanvasProps) {
 				/>
 				<BoardToolbar
 					onCreateGroup={() => handleCreateGroup(false)}
+					onAutoGroup={handleAutoGroup}
+					autoGrouping={autoGrouping}
 					onDeleteSelected={handleDeleteSelected}
 				/>
 			</ReactFlow>
@@ -5,6 +5,7 @@ import {
 	Circle,
 	Diamond,
 	FileJson,
+	FileSpreadsheet,
 	FileText,
 	Group,
 	Hand,
@@ -12,7 +13,9 @@ import {
 	Maximize,
 	MousePointer2,
 	Redo2,
+	Sparkles,
 	Square,
+	Table,
 	Trash2,
 	Type,
 	Undo2,
@@ -21,7 +24,16 @@ import {
 } from "lucide-react";
 import { useCallback } from "react";
 import { PngExportOptions } from "@/constants/png-options";
+import { analyzeComment } from "../../analysis";
 import {
+	type CommentRow,
+	downloadBlob,
+	rowsToCsv,
+	rowsToXlsx,
+} from "../../lib/spreadsheet";
+import { detectPlatform } from "../../platforms";
+import {
+	type CommentNode,
 	type InteractionMode,
 	useBoardHistory,
 	useBoardStore,
@@ -30,11 +42,15 @@ import { Button } from "../ui/button";
 
 interface BoardToolbarProps {
 	onCreateGroup?: () => void;
+	onAutoGroup?: () => void;
+	autoGrouping?: boolean;
 	onDeleteSelected?: () => void;
 }
 
 export function BoardToolbar({
 	onCreateGroup,
+	onAutoGroup,
+	autoGrouping,
 	onDeleteSelected,
 }: BoardToolbarProps) {
 	const { zoomIn, zoomOut, fitView, getNodes } = useReactFlow();
@@ -142,6 +158,8 @@ export function BoardToolbar({
 				id: node.id,
 				type: node.type,
 				position: node.position,
+				width: node.measured?.width ?? node.width,
+				height: node.measured?.height ?? node.height,
 				data: node.data,
 			})),
 			exportedAt: new Date().toISOString(),
@@ -158,6 +176,46 @@ export function BoardToolbar({
 		URL.revokeObjectURL(url);
 	}, [board, getNodes]);
 
+	// Export comment cards as CSV or XLSX, one row per comment
+	const handleExportSpreadsheet = useCallback(
+		async (format: "csv" | "xlsx") => {
+			const platform = board?.videoUrl
+				? detectPlatform(board.videoUrl)
+				: "unknown";
+
+			const rows: CommentRow[] = getNodes()
+				.filter((node): node is CommentNode => node.type === "comment")
+				.map(({ data }) => {
+					const analysis = analyzeComment(data.comment);
+					return {
+						platform,
+						comment_id: data.commentId,
+						parent_comment_id: data.parentCommentId ?? "",
+						is_reply: Boolean(data.parentCommentId),
+						username: data.username,
+						nickname: data.nickname,
+						comment: data.comment,
+						create_time: data.createTime,
+						is_time_approximate: "",
+						is_time_unknown: "",
+						// Boards don't keep engagement metrics
+						like_count: "",
+						total_reply: data.totalReply,
+						is_pinned: "",
+						is_creator_liked: "",
+						sentiment: analysis.sentiment,
+						toxicity: analysis.toxicity,
+						spam: analysis.spam,
+						video_url: board?.videoUrl ?? "",
+					};
+				});
+
+			const blob = format === "csv" ? rowsToCsv(rows) : await rowsToXlsx(rows);
+			downloadBlob(blob, `${board?.title || "board"}-${Date.now()}.${format}`);
+		},
+		[board, getNodes],
+	);
+
 	return (
 		<div className="absolute bottom-24 left-4 z-10 flex flex-col gap-2">
 			{/* Interaction Mode */}
@@ -276,6 +334,17 @@ export function BoardToolbar({
 				>
 					<Group className="w-4 h-4" />
 				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={onAutoGroup}
+					disabled={autoGrouping}
+					title="Auto-group comments by topic"
+				>
+					<Sparkles
+						className={`w-4 h-4 ${autoGrouping ? "animate-pulse" : ""}`}
+					/>
+				</Button>
 				{selectedNodes.length > 0 && (
 					<Button
 						variant="ghost"
@@ -315,6 +384,22 @@ export function BoardToolbar({
 				>
 					<FileJson className="w-4 h-4" />
 				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={() => handleExportSpreadsheet("csv")}
+					title="Export comments as CSV"
+				>
+					<Table className="w-4 h-4" />
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					onClick={() => handleExportSpreadsheet("xlsx")}
+					title="Export comments as Excel"
+				>
+					<FileSpreadsheet className="w-4 h-4" />
+				</Button>
 			</div>
 		</div>
 	);
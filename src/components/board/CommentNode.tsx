@@ -1,6 +1,21 @@
 import { Handle, Position } from "@xyflow/react";
 import { MessageSquare, Reply } from "lucide-react";
-import type { CommentNodeData } from "../../stores/board-store";
+import { useMemo } from "react";
+import {
+	analyzeComment,
+	type Sentiment,
+	SPAM_THRESHOLD,
+	TOXICITY_THRESHOLD,
+} from "../../analysis";
+import { userProfileHref } from "../../hooks/use-router";
+import { detectPlatform } from "../../platforms";
+import { type CommentNodeData, useBoardStore } from "../../stores/board-store";
+
+const SENTIMENT_COLORS: Record<Sentiment, string> = {
+	positive: "bg-success",
+	neutral: "bg-muted-foreground/40",
+	negative: "bg-destructive",
+};
 
 interface CommentNodeProps {
 	data: CommentNodeData;
@@ -9,6 +24,10 @@ interface CommentNodeProps {
 
 export function CommentNode({ data, selected }: CommentNodeProps) {
 	const isReply = Boolean(data.parentCommentId);
+	const analysis = useMemo(() => analyzeComment(data.comment), [data.comment]);
+	// Boards don't store a platform, it comes from the board's video
+	const videoUrl = useBoardStore((state) => state.board?.videoUrl);
+	const platform = videoUrl ? detectPlatform(videoUrl) : "unknown";
 
 	return (
 		<div
@@ -24,6 +43,12 @@ export function CommentNode({ data, selected }: CommentNodeProps) {
 				backgroundColor: data.color || undefined,
 			}}
 		>
+			{/* Sentiment strip */}
+			<div
+				className={`absolute inset-x-3 top-0 h-1 rounded-b-full ${SENTIMENT_COLORS[analysis.sentiment]}`}
+				title={`Sentiment: ${analysis.sentiment}`}
+			/>
+
 			{/* Connection handles */}
 			<Handle
 				type="target"
@@ -54,9 +79,21 @@ export function CommentNode({ data, selected }: CommentNodeProps) {
 				)}
 				<div className="flex-1 min-w-0">
 					<p className="font-semibold text-sm truncate">{data.nickname}</p>
-					<p className="text-xs text-muted-foreground truncate">
-						@{data.username}
-					</p>
+					{platform !== "unknown" ? (
+						<a
+							href={userProfileHref(platform, data.username)}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="nodrag block text-xs text-muted-foreground truncate hover:text-foreground hover:underline"
+							title="Comments by this user across stored scrapes"
+						>
+							@{data.username}
+						</a>
+					) : (
+						<p className="text-xs text-muted-foreground truncate">
+							@{data.username}
+						</p>
+					)}
 				</div>
 				{isReply && <Reply className="w-4 h-4 text-primary shrink-0" />}
 			</div>
@@ -81,6 +118,23 @@ export function CommentNode({ data, selected }: CommentNodeProps) {
 				)}
 			</div>
 
+			{/* Toxicity and spam indicators */}
+			{(analysis.toxicity >= TOXICITY_THRESHOLD ||
+				analysis.spam >= SPAM_THRESHOLD) && (
+				<div className="absolute -top-2 -left-2 flex gap-1">
+					{analysis.toxicity >= TOXICITY_THRESHOLD && (
+						<span className="bg-destructive text-destructive-foreground text-xs px-2 py-0.5 rounded-full">
+							Toxic
+						</span>
+					)}
+					{analysis.spam >= SPAM_THRESHOLD && (
+						<span className="bg-warning text-warning-foreground text-xs px-2 py-0.5 rounded-full">
+							Spam
+						</span>
+					)}
+				</div>
+			)}
+
 			{/* Orphan reply indicator */}
 			{data.isOrphanReply && (
 				<div className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground text-xs px-2 py-0.5 rounded-full">
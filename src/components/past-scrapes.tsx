@@ -0,0 +1,136 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { History, Loader2, MessageSquare, Trash2 } from "lucide-react";
+import { useEffect } from "react";
+import type { Platform } from "../hooks/use-scraper";
+import { cn } from "../lib/utils";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { ScrollArea } from "./ui/scroll-area";
+
+// Row returned by GET /api/scrapes
+export interface ScrapeSummary {
+	id: string;
+	platform: Platform;
+	contentId: string;
+	url: string | null;
+	caption: string | null;
+	commentCount: number;
+	fetchedAt: string;
+}
+
+interface PastScrapesProps {
+	// Scrape currently shown in the results view
+	activeScrapeId?: string;
+	disabled?: boolean;
+	onOpen: (scrapeId: string) => void;
+}
+
+const SCRAPES_QUERY_KEY = ["scrapes"];
+
+async function fetchScrapes(): Promise<ScrapeSummary[]> {
+	const response = await fetch("/api/scrapes");
+	if (!response.ok) {
+		throw new Error("Failed to load past scrapes");
+	}
+	return response.json();
+}
+
+export function PastScrapes({
+	activeScrapeId,
+	disabled,
+	onOpen,
+}: PastScrapesProps) {
+	const queryClient = useQueryClient();
+	const { data: scrapes, isLoading } = useQuery({
+		queryKey: SCRAPES_QUERY_KEY,
+		queryFn: fetchScrapes,
+	});
+
+	const deleteScrape = useMutation({
+		mutationFn: async (scrapeId: string) => {
+			const response = await fetch(`/api/scrapes/${scrapeId}`, {
+				method: "DELETE",
+			});
+			if (!response.ok) {
+				throw new Error("Failed to delete scrape");
+			}
+		},
+		onSuccess: () =>
+			queryClient.invalidateQueries({ queryKey: SCRAPES_QUERY_KEY }),
+	});
+
+	// A freshly finished scrape shows up in the list right away
+	useEffect(() => {
+		if (activeScrapeId) {
+			queryClient.invalidateQueries({ queryKey: SCRAPES_QUERY_KEY });
+		}
+	}, [activeScrapeId, queryClient]);
+
+	if (isLoading || !scrapes || scrapes.length === 0) {
+		return null;
+	}
+
+	return (
+		<Card>
+			<CardHeader className="pb-3">
+				<CardTitle className="text-lg flex items-center gap-2">
+					<History className="h-5 w-5 text-primary" />
+					Past Scrapes
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="p-0">
+				<ScrollArea maxHeight="320px">
+					<div className="divide-y divide-border">
+						{scrapes.map((scrape) => (
+							<div
+								key={scrape.id}
+								className={cn(
+									"flex items-center gap-3 px-6 py-3",
+									scrape.id === activeScrapeId && "bg-primary/5",
+								)}
+							>
+								<button
+									type="button"
+									onClick={() => onOpen(scrape.id)}
+									disabled={disabled}
+									className="flex-1 min-w-0 text-left disabled:opacity-50"
+								>
+									<div className="flex items-center gap-2">
+										<Badge variant="outline" className="capitalize">
+											{scrape.platform}
+										</Badge>
+										<span className="truncate text-sm font-medium">
+											{scrape.caption || scrape.url || scrape.contentId}
+										</span>
+									</div>
+									<div className="mt-1 flex items-center gap-3 text-xs text-muted-foreground">
+										<span className="flex items-center gap-1">
+											<MessageSquare className="h-3 w-3" />
+											{scrape.commentCount} comments
+										</span>
+										<span>{new Date(scrape.fetchedAt).toLocaleString()}</span>
+									</div>
+								</button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => deleteScrape.mutate(scrape.id)}
+									disabled={deleteScrape.isPending}
+									title="Delete scrape"
+								>
+									{deleteScrape.isPending &&
+									deleteScrape.variables === scrape.id ? (
+										<Loader2 className="h-4 w-4 animate-spin" />
+									) : (
+										<Trash2 className="h-4 w-4 text-muted-foreground" />
+									)}
+								</Button>
+							</div>
+						))}
+					</div>
+				</ScrollArea>
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,5 +1,6 @@
-import { Heart, MessageCircle } from "lucide-react";
+import { Heart, MessageCircle, Pin } from "lucide-react";
 import { forwardRef, useState } from "react";
+import { userProfileHref } from "../hooks/use-router";
 
 interface Comment {
 	comment_id: string;
@@ -10,6 +11,11 @@ interface Comment {
 	avatar: string;
 	total_reply: number;
 	replies?: Comment[];
+	like_count?: number;
+	is_pinned?: boolean;
+	is_creator_liked?: boolean;
+	is_time_approximate?: boolean;
+	is_time_unknown?: boolean;
 }
 
 interface TikTokCommentProps {
@@ -18,6 +24,8 @@ interface TikTokCommentProps {
 	selected?: boolean;
 	onSelect?: (id: string) => void;
 	showCheckbox?: boolean;
+	// Links the username to the commenter's profile when set
+	platform?: string;
 }
 
 // Generate a consistent color based on username
@@ -39,6 +47,14 @@ function getAvatarColor(username: string): string {
 	return colors[Math.abs(hash) % colors.length];
 }
 
+// Shorten large counts the way the platforms display them (1.2K, 3.4M)
+function formatCount(count: number): string {
+	return new Intl.NumberFormat("en", {
+		notation: "compact",
+		maximumFractionDigits: 1,
+	}).format(count);
+}
+
 export const TikTokComment = forwardRef<HTMLDivElement, TikTokCommentProps>(
 	(
 		{
@@ -47,6 +63,7 @@ export const TikTokComment = forwardRef<HTMLDivElement, TikTokCommentProps>(
 			selected = false,
 			onSelect,
 			showCheckbox = false,
+			platform,
 		},
 		ref,
 	) => {
@@ -118,9 +135,27 @@ export const TikTokComment = forwardRef<HTMLDivElement, TikTokCommentProps>(
 							>
 								{comment.nickname}
 							</span>
-							<span className="text-muted-foreground text-xs">
-								@{comment.username}
-							</span>
+							{platform ? (
+								<a
+									href={userProfileHref(platform, comment.username)}
+									target="_blank"
+									rel="noopener noreferrer"
+									className="text-muted-foreground text-xs hover:text-foreground hover:underline"
+									title="Comments by this user across stored scrapes"
+								>
+									@{comment.username}
+								</a>
+							) : (
+								<span className="text-muted-foreground text-xs">
+									@{comment.username}
+								</span>
+							)}
+							{comment.is_pinned && (
+								<span className="flex items-center gap-1 text-xs text-primary">
+									<Pin className="h-3 w-3" />
+									Pinned
+								</span>
+							)}
 						</div>
 
 						{/* Comment text */}
@@ -132,8 +167,24 @@ export const TikTokComment = forwardRef<HTMLDivElement, TikTokCommentProps>(
 
 						{/* Footer: timestamp and actions */}
 						<div className="flex items-center gap-4 pt-1">
-							<span className="text-xs text-muted-foreground">
-								{comment.create_time}
+							<span
+								className="text-xs text-muted-foreground"
+								title={
+									comment.is_time_unknown
+										? `Couldn't read the comment's time, scraped at ${comment.create_time}`
+										: comment.is_time_approximate
+											? "Approximate, estimated from relative time"
+											: undefined
+								}
+							>
+								{comment.is_time_unknown ? (
+									"Time unknown"
+								) : (
+									<>
+										{comment.is_time_approximate && "~"}
+										{comment.create_time}
+									</>
+								)}
 							</span>
 
 							{/* Reply count indicator */}
@@ -144,10 +195,21 @@ export const TikTokComment = forwardRef<HTMLDivElement, TikTokCommentProps>(
 								</div>
 							)}
 
-							{/* Like indicator (decorative) */}
+							{/* Like count */}
 							<div className="flex items-center gap-1.5 text-xs text-muted-foreground">
 								<Heart className="h-3.5 w-3.5" />
+								{comment.like_count ? (
+									<span>{formatCount(comment.like_count)}</span>
+								) : null}
 							</div>
+
+							{/* Liked by the creator */}
+							{comment.is_creator_liked && (
+								<div className="flex items-center gap-1 text-xs text-rose-500">
+									<Heart className="h-3.5 w-3.5 fill-current" />
+									<span>by creator</span>
+								</div>
+							)}
 						</div>
 					</div>
 				</div>
@@ -0,0 +1,174 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { clusterByTopic } from "../analysis";
+import { db } from "./client";
+import {
+	type BoardGroup,
+	boardComments,
+	boardGroups,
+	boardShapes,
+	boardTexts,
+} from "./schema";
+
+// Card footprint on the canvas, matches CommentNode
+const CARD_WIDTH = 280;
+const CARD_HEIGHT = 180;
+const CARD_GAP = 40;
+
+// Space around the cards inside a group, plus room for its label
+const GROUP_PADDING = 40;
+const GROUP_HEADER = 40;
+const GROUP_GAP = 120;
+
+// Groups wrap onto a new row past this width
+const ROW_WIDTH = 4000;
+
+// Same palette as the context menu's color picker
+const GROUP_COLORS = [
+	"#6366f1",
+	"#8b5cf6",
+	"#ec4899",
+	"#ef4444",
+	"#f97316",
+	"#eab308",
+	"#22c55e",
+	"#14b8a6",
+	"#06b6d4",
+	"#3b82f6",
+];
+
+export interface AutoGroupResult {
+	groups: BoardGroup[];
+	// New group and position (relative to the group) of each moved comment
+	comments: {
+		id: string;
+		groupId: string;
+		positionX: number;
+		positionY: number;
+	}[];
+}
+
+/**
+ * Bottom edge of everything already placed on the board, new groups go
+ * below it
+ */
+async function contentBottom(boardId: string): Promise<number> {
+	const items = [
+		...(await db
+			.select({ y: boardGroups.positionY, height: boardGroups.height })
+			.from(boardGroups)
+			.where(eq(boardGroups.boardId, boardId))),
+		...(await db
+			.select({ y: boardShapes.positionY, height: boardShapes.height })
+			.from(boardShapes)
+			.where(eq(boardShapes.boardId, boardId))),
+		...(await db
+			.select({ y: boardTexts.positionY, height: boardTexts.height })
+			.from(boardTexts)
+			.where(eq(boardTexts.boardId, boardId))),
+	];
+
+	if (items.length === 0) return 0;
+	return Math.max(...items.map((item) => item.y + item.height)) + GROUP_GAP;
+}
+
+/**
+ * Cluster a board's ungrouped comments by topic and put each cluster in a
+ * new group labeled with its top keywords. Groups are laid out in rows below
+ * the existing content, with their comments in a grid.
+ */
+export async function autoGroupBoard(
+	boardId: string,
+	options: { k?: number } = {},
+): Promise<AutoGroupResult> {
+	const comments = await db
+		.select({ id: boardComments.id, comment: boardComments.comment })
+		.from(boardComments)
+		.where(
+			and(eq(boardComments.boardId, boardId), isNull(boardComments.groupId)),
+		);
+
+	if (comments.length === 0) {
+		return { groups: [], comments: [] };
+	}
+
+	const clusters = clusterByTopic(
+		comments.map((comment) => ({
+			id: comment.id,
+			text: comment.comment ?? "",
+		})),
+		options,
+	);
+
+	const top = await contentBottom(boardId);
+
+	return db.transaction(async (tx) => {
+		const result: AutoGroupResult = { groups: [], comments: [] };
+		let x = 0;
+		let y = top;
+		let rowHeight = 0;
+
+		for (const [index, cluster] of clusters.entries()) {
+			const columns = Math.ceil(Math.sqrt(cluster.memberIds.length));
+			const rows = Math.ceil(cluster.memberIds.length / columns);
+			const width =
+				GROUP_PADDING * 2 + columns * CARD_WIDTH + (columns - 1) * CARD_GAP;
+			const height =
+				GROUP_HEADER +
+				GROUP_PADDING * 2 +
+				rows * CARD_HEIGHT +
+				(rows - 1) * CARD_GAP;
+
+			if (x > 0 && x + width > ROW_WIDTH) {
+				x = 0;
+				y += rowHeight + GROUP_GAP;
+				rowHeight = 0;
+			}
+
+			const [group] = await tx
+				.insert(boardGroups)
+				.values({
+					boardId,
+					label: cluster.label,
+					positionX: x,
+					positionY: y,
+					width,
+					height,
+					color: GROUP_COLORS[index % GROUP_COLORS.length],
+				})
+				.returning();
+
+			if (!group) {
+				throw new Error("Failed to create group");
+			}
+			result.groups.push(group);
+
+			for (const [position, commentId] of cluster.memberIds.entries()) {
+				const placed = {
+					id: commentId,
+					groupId: group.id,
+					positionX:
+						GROUP_PADDING + (position % columns) * (CARD_WIDTH + CARD_GAP),
+					positionY:
+						GROUP_HEADER +
+						GROUP_PADDING +
+						Math.floor(position / columns) * (CARD_HEIGHT + CARD_GAP),
+				};
+
+				await tx
+					.update(boardComments)
+					.set({
+						groupId: placed.groupId,
+						positionX: placed.positionX,
+						positionY: placed.positionY,
+					})
+					.where(eq(boardComments.id, commentId));
+				result.comments.push(placed);
+			}
+
+			x += width + GROUP_GAP;
+			rowHeight = Math.max(rowHeight, height);
+		}
+
+		return result;
+	});
+}
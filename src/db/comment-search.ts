@@ -0,0 +1,547 @@
+import {
+	and,
+	asc,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	not,
+	notExists,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import {
+	analysisOf,
+	type Sentiment,
+	SPAM_THRESHOLD,
+	TOXICITY_THRESHOLD,
+} from "../analysis";
+import type { CommentData } from "../types";
+import { db } from "./client";
+import {
+	boardComments,
+	commentSearchVector,
+	type NewScrapeComment,
+	type Scrape,
+	scrapeComments,
+	scrapes,
+} from "./schema";
+
+export type CommentFilter = "all" | "comments" | "replies";
+export type CommentSort =
+	| "newest"
+	| "oldest"
+	| "most_replies"
+	| "most_liked"
+	| "most_toxic"
+	| "most_spam";
+export type CommentFlag = "toxic" | "spam";
+
+const COMMENT_FILTERS: CommentFilter[] = ["all", "comments", "replies"];
+const COMMENT_SORTS: CommentSort[] = [
+	"newest",
+	"oldest",
+	"most_replies",
+	"most_liked",
+	"most_toxic",
+	"most_spam",
+];
+const SENTIMENTS: Sentiment[] = ["positive", "neutral", "negative"];
+const COMMENT_FLAGS: CommentFlag[] = ["toxic", "spam"];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Rows inserted per statement when indexing a scrape
+const INSERT_BATCH_SIZE = 1000;
+
+export interface CommentQuery {
+	q?: string; // Full-text search over text, username and nickname
+	authors: string[]; // Usernames, case-insensitive
+	from?: Date;
+	to?: Date;
+	filter: CommentFilter;
+	sentiment?: Sentiment;
+	flagged?: CommentFlag; // Only comments scoring above the flag's threshold
+	sort: CommentSort;
+	cursor?: string;
+	limit: number;
+}
+
+// Same shape the App's in-memory filtering works on
+export interface CommentSearchItem {
+	comment: CommentData;
+	isReply: boolean;
+	parentId?: string;
+}
+
+export interface CommentSearchPage {
+	items: CommentSearchItem[];
+	nextCursor: string | null;
+	total?: number; // Only on the first page
+}
+
+// Position of the last row of a page: its sort value and tiebreaker
+interface CommentCursor {
+	v: string | number;
+	k: string | number;
+}
+
+/**
+ * Read a comment query from request search params. Returns an error
+ * message instead when a parameter is invalid.
+ */
+export function parseCommentQuery(
+	params: URLSearchParams,
+): CommentQuery | { error: string } {
+	const filter = (params.get("type") ?? "all") as CommentFilter;
+	if (!COMMENT_FILTERS.includes(filter)) {
+		return { error: `type must be one of: ${COMMENT_FILTERS.join(", ")}` };
+	}
+
+	const sort = (params.get("sort") ?? "newest") as CommentSort;
+	if (!COMMENT_SORTS.includes(sort)) {
+		return { error: `sort must be one of: ${COMMENT_SORTS.join(", ")}` };
+	}
+
+	const sentiment = (params.get("sentiment") || undefined) as
+		| Sentiment
+		| undefined;
+	if (sentiment && !SENTIMENTS.includes(sentiment)) {
+		return { error: `sentiment must be one of: ${SENTIMENTS.join(", ")}` };
+	}
+
+	const flagged = (params.get("flagged") || undefined) as
+		| CommentFlag
+		| undefined;
+	if (flagged && !COMMENT_FLAGS.includes(flagged)) {
+		return { error: `flagged must be one of: ${COMMENT_FLAGS.join(", ")}` };
+	}
+
+	const dates: { from?: Date; to?: Date } = {};
+	for (const key of ["from", "to"] as const) {
+		const value = params.get(key);
+		if (!value) continue;
+		const date = new Date(value);
+		if (Number.isNaN(date.getTime())) {
+			return { error: `${key} must be a date` };
+		}
+		dates[key] = date;
+	}
+
+	const limit = Number.parseInt(
+		params.get("limit") ?? String(DEFAULT_PAGE_SIZE),
+		10,
+	);
+	if (!Number.isInteger(limit) || limit < 1) {
+		return { error: "limit must be a positive number" };
+	}
+
+	return {
+		q: params.get("q")?.trim() || undefined,
+		authors: params
+			.getAll("author")
+			.flatMap((value) => value.split(","))
+			.map((author) => author.trim().replace(/^@/, "").toLowerCase())
+			.filter(Boolean),
+		...dates,
+		filter,
+		sentiment,
+		flagged,
+		sort,
+		cursor: params.get("cursor") ?? undefined,
+		limit: Math.min(limit, MAX_PAGE_SIZE),
+	};
+}
+
+function encodeCursor(cursor: CommentCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): CommentCursor | null {
+	try {
+		const cursor = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8"),
+		) as CommentCursor;
+		return cursor && "v" in cursor && "k" in cursor ? cursor : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Replace a scrape's comment rows with the given result, flattening replies.
+ * Runs in the caller's transaction, which holds a lock on the scrape until
+ * it commits so concurrent indexing of the same scrape can't duplicate rows.
+ */
+export async function indexScrapeComments(
+	tx: Pick<typeof db, "delete" | "execute" | "insert">,
+	scrapeId: string,
+	comments: CommentData[],
+): Promise<void> {
+	await tx.execute(
+		sql`select pg_advisory_xact_lock(hashtext(${`scrape_comments:${scrapeId}`}))`,
+	);
+	await tx.delete(scrapeComments).where(eq(scrapeComments.scrapeId, scrapeId));
+
+	const rows: NewScrapeComment[] = [];
+	const addRow = (comment: CommentData, parentId?: string) => {
+		const { replies: _replies, ...data } = comment;
+		const analysis = analysisOf(comment);
+		rows.push({
+			scrapeId,
+			position: rows.length,
+			commentId: comment.comment_id,
+			parentCommentId: parentId,
+			username: comment.username,
+			nickname: comment.nickname,
+			comment: comment.comment,
+			createTime: new Date(`${comment.create_time}Z`),
+			likeCount: comment.like_count ?? 0,
+			totalReply: comment.total_reply,
+			sentiment: analysis.sentiment,
+			sentimentScore: analysis.sentiment_score,
+			toxicity: analysis.toxicity,
+			spam: analysis.spam,
+			data: { ...data, analysis, replies: [], parent_comment_id: parentId },
+		});
+	};
+
+	for (const comment of comments) {
+		// Orphaned replies are kept at the top level
+		const parentId =
+			comment.parent_comment_id && comment.parent_comment_id !== "0"
+				? comment.parent_comment_id
+				: undefined;
+		addRow(comment, parentId);
+
+		for (const reply of comment.replies) {
+			addRow(reply, reply.parent_comment_id || comment.comment_id);
+		}
+	}
+
+	for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+		await tx
+			.insert(scrapeComments)
+			.values(rows.slice(i, i + INSERT_BATCH_SIZE));
+	}
+}
+
+/**
+ * Index scrapes stored before scrape_comments existed, or before comments
+ * were analyzed, on first search
+ */
+async function ensureScrapeIndexed(scrape: Scrape): Promise<void> {
+	if (scrape.commentCount === 0) return;
+
+	const [existing] = await db
+		.select({ sentiment: scrapeComments.sentiment })
+		.from(scrapeComments)
+		.where(eq(scrapeComments.scrapeId, scrape.id))
+		.limit(1);
+
+	if (!existing?.sentiment) {
+		await db.transaction((tx) =>
+			indexScrapeComments(tx, scrape.id, scrape.comments),
+		);
+	}
+}
+
+/**
+ * Index every stored scrape that has no scrape_comments rows yet, for
+ * queries that span all scrapes. Run once at startup, scrapes saved after
+ * that are indexed as they're saved.
+ */
+export async function indexStoredScrapes(): Promise<void> {
+	const unindexed = await db
+		.select()
+		.from(scrapes)
+		.where(
+			and(
+				gt(scrapes.commentCount, 0),
+				notExists(
+					db
+						.select({ id: scrapeComments.id })
+						.from(scrapeComments)
+						.where(eq(scrapeComments.scrapeId, scrapes.id)),
+				),
+			),
+		);
+
+	for (const scrape of unindexed) {
+		await db.transaction((tx) =>
+			indexScrapeComments(tx, scrape.id, scrape.comments),
+		);
+	}
+}
+
+interface SearchColumns {
+	comment: AnyPgColumn;
+	username: AnyPgColumn;
+	nickname: AnyPgColumn;
+	createTime: AnyPgColumn | SQL;
+	parentCommentId: AnyPgColumn;
+	totalReply: AnyPgColumn;
+	likeCount?: AnyPgColumn;
+	// Analysis scores, only stored for scrapes
+	sentiment?: AnyPgColumn;
+	toxicity?: AnyPgColumn;
+	spam?: AnyPgColumn;
+	// Unique within the source, keeps pages stable between equal sort values
+	tiebreaker: AnyPgColumn;
+}
+
+interface Search {
+	where: SQL | undefined; // Every matching row, for the total
+	pageWhere: SQL | undefined; // Matching rows after the cursor
+	orderBy: SQL[];
+	sortValue: AnyPgColumn | SQL;
+}
+
+/**
+ * Conditions and ordering shared by the scrape and board searches
+ */
+function buildSearch(
+	columns: SearchColumns,
+	scope: SQL,
+	query: CommentQuery,
+): Search | { error: string } {
+	const conditions: (SQL | undefined)[] = [scope];
+
+	if (query.q) {
+		conditions.push(
+			sql`${commentSearchVector(columns.comment, columns.username, columns.nickname)} @@ websearch_to_tsquery('simple', ${query.q})`,
+		);
+	}
+	if (query.authors.length > 0) {
+		conditions.push(
+			or(
+				...query.authors.map(
+					(author) => sql`lower(${columns.username}) = ${author}`,
+				),
+			),
+		);
+	}
+	// Times are stored as UTC without a zone, compare against ISO strings
+	// so the driver doesn't convert them with the session time zone
+	if (query.from) {
+		conditions.push(sql`${columns.createTime} >= ${query.from.toISOString()}`);
+	}
+	if (query.to) {
+		conditions.push(sql`${columns.createTime} <= ${query.to.toISOString()}`);
+	}
+
+	// Board rows store top-level comments with an empty parent
+	const isReply = sql`coalesce(${columns.parentCommentId}, '') <> ''`;
+	if (query.filter === "comments") {
+		conditions.push(not(isReply));
+	} else if (query.filter === "replies") {
+		conditions.push(isReply);
+	}
+
+	if (query.sentiment || query.flagged) {
+		if (!columns.sentiment || !columns.toxicity || !columns.spam) {
+			return { error: "Sentiment is not stored for board comments" };
+		}
+		if (query.sentiment) {
+			conditions.push(eq(columns.sentiment, query.sentiment));
+		}
+		if (query.flagged === "toxic") {
+			conditions.push(gte(columns.toxicity, TOXICITY_THRESHOLD));
+		} else if (query.flagged === "spam") {
+			conditions.push(gte(columns.spam, SPAM_THRESHOLD));
+		}
+	}
+
+	let sortValue: AnyPgColumn | SQL;
+	let descending = true;
+	switch (query.sort) {
+		case "newest":
+			sortValue = columns.createTime;
+			break;
+		case "oldest":
+			sortValue = columns.createTime;
+			descending = false;
+			break;
+		case "most_replies":
+			sortValue = columns.totalReply;
+			break;
+		case "most_liked":
+			if (!columns.likeCount) {
+				return { error: "Likes are not stored for board comments" };
+			}
+			sortValue = columns.likeCount;
+			break;
+		case "most_toxic":
+		case "most_spam": {
+			const column =
+				query.sort === "most_toxic" ? columns.toxicity : columns.spam;
+			if (!column) {
+				return { error: "Sentiment is not stored for board comments" };
+			}
+			sortValue = column;
+			break;
+		}
+	}
+
+	const pageConditions = [...conditions];
+	if (query.cursor) {
+		const cursor = decodeCursor(query.cursor);
+		if (!cursor) {
+			return { error: "Invalid cursor" };
+		}
+		pageConditions.push(
+			or(
+				descending
+					? sql`${sortValue} < ${cursor.v}`
+					: sql`${sortValue} > ${cursor.v}`,
+				and(sql`${sortValue} = ${cursor.v}`, gt(columns.tiebreaker, cursor.k)),
+			),
+		);
+	}
+
+	return {
+		where: and(...conditions),
+		pageWhere: and(...pageConditions),
+		orderBy: [
+			descending ? desc(sortValue) : asc(sortValue),
+			asc(columns.tiebreaker),
+		],
+		sortValue,
+	};
+}
+
+/**
+ * Cursor pointing after the last row, null when there are no more rows
+ */
+function nextCursor(
+	rows: { sortValue: unknown; tiebreaker: string | number }[],
+	limit: number,
+): string | null {
+	const last = rows[limit - 1];
+	if (rows.length <= limit || !last) return null;
+
+	return encodeCursor({
+		v:
+			last.sortValue instanceof Date
+				? last.sortValue.toISOString()
+				: (last.sortValue as number),
+		k: last.tiebreaker,
+	});
+}
+
+/**
+ * Search, filter, sort and page through a stored scrape's comments
+ */
+export async function searchScrapeComments(
+	scrape: Scrape,
+	query: CommentQuery,
+): Promise<CommentSearchPage | { error: string }> {
+	await ensureScrapeIndexed(scrape);
+
+	const search = buildSearch(
+		{ ...scrapeComments, tiebreaker: scrapeComments.position },
+		eq(scrapeComments.scrapeId, scrape.id),
+		query,
+	);
+	if ("error" in search) return search;
+
+	const rows = await db
+		.select({
+			data: scrapeComments.data,
+			parentCommentId: scrapeComments.parentCommentId,
+			sortValue: search.sortValue,
+			tiebreaker: scrapeComments.position,
+		})
+		.from(scrapeComments)
+		.where(search.pageWhere)
+		.orderBy(...search.orderBy)
+		.limit(query.limit + 1);
+
+	const [counted] = query.cursor
+		? []
+		: await db
+				.select({ total: count() })
+				.from(scrapeComments)
+				.where(search.where);
+
+	return {
+		items: rows.slice(0, query.limit).map((row) => ({
+			comment: row.data,
+			isReply: Boolean(row.parentCommentId),
+			parentId: row.parentCommentId ?? undefined,
+		})),
+		nextCursor: nextCursor(rows, query.limit),
+		total: counted?.total,
+	};
+}
+
+/**
+ * Search, filter, sort and page through a board's comment cards
+ */
+export async function searchBoardComments(
+	boardId: string,
+	query: CommentQuery,
+): Promise<CommentSearchPage | { error: string }> {
+	// Cards added by hand may have no comment time. Truncated to the
+	// millisecond so cursor values survive the round trip through Date.
+	const createTime =
+		sql`date_trunc('milliseconds', coalesce(${boardComments.createTime}, ${boardComments.createdAt}))`.mapWith(
+			boardComments.createTime,
+		);
+
+	const search = buildSearch(
+		{ ...boardComments, createTime, tiebreaker: boardComments.id },
+		eq(boardComments.boardId, boardId),
+		query,
+	);
+	if ("error" in search) return search;
+
+	const rows = await db
+		.select({
+			row: boardComments,
+			sortValue: search.sortValue,
+			tiebreaker: boardComments.id,
+		})
+		.from(boardComments)
+		.where(search.pageWhere)
+		.orderBy(...search.orderBy)
+		.limit(query.limit + 1);
+
+	const [counted] = query.cursor
+		? []
+		: await db
+				.select({ total: count() })
+				.from(boardComments)
+				.where(search.where);
+
+	return {
+		items: rows.slice(0, query.limit).map(({ row }) => ({
+			comment: {
+				comment_id: row.commentId,
+				username: row.username ?? "",
+				nickname: row.nickname ?? "",
+				comment: row.comment ?? "",
+				create_time: (row.createTime ?? row.createdAt)
+					.toISOString()
+					.slice(0, 19),
+				avatar: row.avatar ?? "",
+				total_reply: row.totalReply ?? 0,
+				replies: [],
+				parent_comment_id: row.parentCommentId || undefined,
+				is_orphan_reply: row.isOrphanReply === 1,
+				like_count: 0,
+				is_pinned: false,
+				is_creator_liked: false,
+				is_time_approximate: false,
+			},
+			isReply: Boolean(row.parentCommentId),
+			parentId: row.parentCommentId || undefined,
+		})),
+		nextCursor: nextCursor(rows, query.limit),
+		total: counted?.total,
+	};
+}
@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import type { CommentData } from "../types";
+import { buildCommenterProfile, type CommenterCommentRow } from "./commenters";
+
+interface Scrape {
+	id: string;
+	contentId: string;
+	fetchedAt: string;
+}
+
+const olderScrape: Scrape = {
+	id: "s1",
+	contentId: "v1",
+	fetchedAt: "2024-06-01T00:00:00Z",
+};
+const newerScrape: Scrape = {
+	id: "s2",
+	contentId: "v1",
+	fetchedAt: "2024-06-10T00:00:00Z",
+};
+const otherVideo: Scrape = {
+	id: "s3",
+	contentId: "v2",
+	fetchedAt: "2024-06-05T00:00:00Z",
+};
+
+function row(
+	scrape: Scrape,
+	commentId: string,
+	createTime: string,
+	fields: Partial<CommentData> = {},
+): CommenterCommentRow {
+	const data: CommentData = {
+		comment_id: commentId,
+		username: "alice",
+		nickname: "Alice",
+		comment: `comment ${commentId}`,
+		create_time: createTime,
+		avatar: "",
+		total_reply: 0,
+		replies: [],
+		like_count: 0,
+		is_pinned: false,
+		is_creator_liked: false,
+		is_time_approximate: false,
+		...fields,
+	};
+
+	return {
+		scrapeId: scrape.id,
+		contentId: scrape.contentId,
+		url: `https://www.tiktok.com/@creator/video/${scrape.contentId}`,
+		caption: null,
+		fetchedAt: new Date(scrape.fetchedAt),
+		commentId,
+		nickname: data.nickname,
+		createTime: new Date(`${createTime}Z`),
+		data,
+	};
+}
+
+// v1 was scraped twice, both scrapes have comment a1. The nickname changed
+// and the avatar URL was re-signed in between.
+const rows = [
+	row(olderScrape, "a1", "2024-05-30T10:00:00", {
+		avatar: "https://cdn.example/a.jpg?sig=1",
+		like_count: 3,
+	}),
+	row(newerScrape, "a1", "2024-05-30T10:00:00", {
+		nickname: "Alice ✨",
+		avatar: "https://cdn.example/a.jpg?sig=2",
+		like_count: 5,
+	}),
+	row(newerScrape, "a2", "2024-06-08T12:00:00", {
+		nickname: "Alice ✨",
+		parent_comment_id: "z1",
+	}),
+	row(otherVideo, "a3", "2024-06-04T09:00:00", {
+		nickname: "Alice ✨",
+		avatar: "https://cdn.example/b.jpg?sig=1",
+	}),
+];
+
+describe("buildCommenterProfile", () => {
+	const profile = buildCommenterProfile("tiktok", "alice", rows);
+
+	test("counts a comment stored by several scrapes once", () => {
+		expect(profile.comments).toBe(3);
+		expect(profile.replies).toBe(1);
+		expect(profile.videos).toBe(2);
+	});
+
+	test("measures activity between the first and last comment", () => {
+		expect(profile.firstSeen).toBe("2024-05-30T10:00:00.000Z");
+		expect(profile.lastSeen).toBe("2024-06-08T12:00:00.000Z");
+		expect(profile.activeDays).toBe(3);
+		// Three comments over 9 days and 2 hours
+		expect(profile.commentsPerWeek).toBeCloseTo(3 / (218 / 168));
+	});
+
+	test("tracks nicknames by the scrapes they were seen in", () => {
+		expect(profile.nickname).toBe("Alice ✨");
+		expect(profile.nicknames).toEqual([
+			{
+				value: "Alice",
+				firstSeen: "2024-06-01T00:00:00.000Z",
+				lastSeen: "2024-06-01T00:00:00.000Z",
+			},
+			{
+				value: "Alice ✨",
+				firstSeen: "2024-06-05T00:00:00.000Z",
+				lastSeen: "2024-06-10T00:00:00.000Z",
+			},
+		]);
+	});
+
+	test("treats re-signed avatar URLs as the same avatar", () => {
+		expect(profile.avatar).toBe("https://cdn.example/a.jpg?sig=2");
+		expect(profile.avatars).toEqual([
+			{
+				value: "https://cdn.example/a.jpg?sig=2",
+				firstSeen: "2024-06-01T00:00:00.000Z",
+				lastSeen: "2024-06-10T00:00:00.000Z",
+			},
+			{
+				value: "https://cdn.example/b.jpg?sig=1",
+				firstSeen: "2024-06-05T00:00:00.000Z",
+				lastSeen: "2024-06-05T00:00:00.000Z",
+			},
+		]);
+	});
+
+	test("groups comments by video from its latest scrape", () => {
+		expect(
+			profile.history.map((video) => ({
+				scrapeId: video.scrapeId,
+				contentId: video.contentId,
+				comments: video.comments.map((comment) => [
+					comment.comment_id,
+					comment.like_count,
+				]),
+			})),
+		).toEqual([
+			{
+				scrapeId: "s2",
+				contentId: "v1",
+				comments: [
+					["a1", 5],
+					["a2", 0],
+				],
+			},
+			{ scrapeId: "s3", contentId: "v2", comments: [["a3", 0]] },
+		]);
+	});
+
+	test("handles a single comment without an avatar", () => {
+		const single = buildCommenterProfile("tiktok", "alice", [
+			row(otherVideo, "a3", "2024-06-04T09:00:00"),
+		]);
+		expect(single.avatar).toBe("");
+		expect(single.commentsPerWeek).toBe(1);
+	});
+});
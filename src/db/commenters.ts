@@ -0,0 +1,311 @@
+import {
+	and,
+	countDistinct,
+	desc,
+	eq,
+	ilike,
+	max,
+	min,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type { CommentData } from "../types";
+import { db } from "./client";
+import { scrapeComments, scrapes } from "./schema";
+
+const DEFAULT_LIST_SIZE = 50;
+const MAX_LIST_SIZE = 200;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CommenterQuery {
+	q?: string; // Username or nickname prefix, case-insensitive
+	platform?: string;
+	minVideos: number; // Only commenters seen on at least this many videos
+	limit: number;
+}
+
+// Row of the commenters index
+export interface CommenterSummary {
+	platform: string;
+	username: string;
+	nickname: string; // As last scraped
+	comments: number;
+	videos: number;
+	firstSeen: string; // Earliest and latest comment times, ISO
+	lastSeen: string;
+}
+
+// A nickname or avatar and the scrapes it was seen in
+export interface HistoryEntry {
+	value: string;
+	firstSeen: string; // fetched_at of the first and last scrape showing it
+	lastSeen: string;
+}
+
+export interface CommenterVideo {
+	scrapeId: string; // Latest scrape of the video
+	contentId: string;
+	url: string | null;
+	caption: string | null;
+	fetchedAt: string;
+	comments: CommentData[]; // Oldest first, replies flattened
+}
+
+export interface CommenterProfile {
+	platform: string;
+	username: string;
+	nickname: string;
+	avatar: string;
+	firstSeen: string;
+	lastSeen: string;
+	comments: number;
+	replies: number; // Of the comments, how many were replies
+	videos: number;
+	activeDays: number; // Distinct days with at least one comment
+	commentsPerWeek: number; // Between the first and last comment
+	nicknames: HistoryEntry[]; // Oldest first
+	avatars: HistoryEntry[];
+	history: CommenterVideo[]; // Most recently commented video first
+}
+
+/**
+ * Read a commenters index query from request search params. Returns an
+ * error message instead when a parameter is invalid.
+ */
+export function parseCommenterQuery(
+	params: URLSearchParams,
+): CommenterQuery | { error: string } {
+	const limit = Number(params.get("limit") ?? DEFAULT_LIST_SIZE);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_SIZE) {
+		return { error: `limit must be between 1 and ${MAX_LIST_SIZE}` };
+	}
+
+	const minVideos = Number(params.get("minVideos") ?? 1);
+	if (!Number.isInteger(minVideos) || minVideos < 1) {
+		return { error: "minVideos must be a positive integer" };
+	}
+
+	return {
+		q: params.get("q")?.trim() || undefined,
+		platform: params.get("platform") || undefined,
+		minVideos,
+		limit,
+	};
+}
+
+/**
+ * Commenters across all stored scrapes, the ones seen on the most videos
+ * first. A video scraped more than once counts its comments once.
+ */
+export async function listCommenters(
+	query: CommenterQuery,
+): Promise<CommenterSummary[]> {
+	const conditions: SQL[] = [];
+	if (query.platform) {
+		conditions.push(eq(scrapes.platform, query.platform));
+	}
+	if (query.q) {
+		const prefix = `${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+		conditions.push(
+			or(
+				ilike(scrapeComments.username, prefix),
+				ilike(scrapeComments.nickname, prefix),
+			) as SQL,
+		);
+	}
+
+	const videos = countDistinct(scrapes.contentId);
+	const comments =
+		sql<number>`count(distinct ${scrapes.contentId} || ':' || ${scrapeComments.commentId})`.mapWith(
+			Number,
+		);
+
+	const rows = await db
+		.select({
+			platform: scrapes.platform,
+			username: scrapeComments.username,
+			nickname: sql<string>`(array_agg(${scrapeComments.nickname} order by ${scrapes.fetchedAt} desc))[1]`,
+			comments,
+			videos,
+			firstSeen: min(scrapeComments.createTime),
+			lastSeen: max(scrapeComments.createTime),
+		})
+		.from(scrapeComments)
+		.innerJoin(scrapes, eq(scrapeComments.scrapeId, scrapes.id))
+		.where(and(...conditions))
+		.groupBy(scrapes.platform, scrapeComments.username)
+		.having(sql`${videos} >= ${query.minVideos}`)
+		.orderBy(desc(videos), desc(comments), scrapeComments.username)
+		.limit(query.limit);
+
+	return rows.map((row) => ({
+		...row,
+		firstSeen: (row.firstSeen as Date).toISOString(),
+		lastSeen: (row.lastSeen as Date).toISOString(),
+	}));
+}
+
+// A comment of the commenter joined with the scrape it was stored in
+export interface CommenterCommentRow {
+	scrapeId: string;
+	contentId: string;
+	url: string | null;
+	caption: string | null;
+	fetchedAt: Date;
+	commentId: string;
+	nickname: string;
+	createTime: Date;
+	data: CommentData;
+}
+
+/**
+ * Record when a nickname or avatar was seen, keyed so that values that only
+ * differ in ways the platform doesn't care about share an entry
+ */
+function recordSeen(
+	history: Map<string, HistoryEntry>,
+	key: string,
+	value: string,
+	seenAt: string,
+): void {
+	const entry = history.get(key);
+	if (!entry) {
+		history.set(key, { value, firstSeen: seenAt, lastSeen: seenAt });
+		return;
+	}
+	if (seenAt < entry.firstSeen) entry.firstSeen = seenAt;
+	if (seenAt >= entry.lastSeen) {
+		entry.lastSeen = seenAt;
+		entry.value = value;
+	}
+}
+
+/**
+ * Everything a commenter left across the stored scrapes of a platform, with
+ * how often they comment and the nicknames and avatars they went by. Returns
+ * undefined when the username isn't in any scrape.
+ */
+export async function getCommenterProfile(
+	platform: string,
+	username: string,
+): Promise<CommenterProfile | undefined> {
+	const rows: CommenterCommentRow[] = await db
+		.select({
+			scrapeId: scrapes.id,
+			contentId: scrapes.contentId,
+			url: scrapes.url,
+			caption: scrapes.caption,
+			fetchedAt: scrapes.fetchedAt,
+			commentId: scrapeComments.commentId,
+			nickname: scrapeComments.nickname,
+			createTime: scrapeComments.createTime,
+			data: scrapeComments.data,
+		})
+		.from(scrapeComments)
+		.innerJoin(scrapes, eq(scrapeComments.scrapeId, scrapes.id))
+		.where(
+			and(
+				eq(scrapes.platform, platform),
+				eq(scrapeComments.username, username),
+			),
+		)
+		.orderBy(scrapeComments.createTime, desc(scrapes.fetchedAt));
+
+	return rows.length === 0
+		? undefined
+		: buildCommenterProfile(platform, username, rows);
+}
+
+/**
+ * Build a commenter's profile from their comment rows, which must not be
+ * empty. A comment stored by several scrapes of a video counts once.
+ */
+export function buildCommenterProfile(
+	platform: string,
+	username: string,
+	rows: CommenterCommentRow[],
+): CommenterProfile {
+	const nicknames = new Map<string, HistoryEntry>();
+	const avatars = new Map<string, HistoryEntry>();
+	// A video scraped more than once keeps the copy from its latest scrape
+	const latest = new Map<string, CommenterCommentRow>();
+
+	for (const row of rows) {
+		const fetchedAt = row.fetchedAt.toISOString();
+		recordSeen(nicknames, row.nickname, row.nickname, fetchedAt);
+		if (row.data.avatar) {
+			// Avatar URLs are re-signed on every scrape, compare them without
+			// the query string
+			recordSeen(
+				avatars,
+				row.data.avatar.split("?")[0] as string,
+				row.data.avatar,
+				fetchedAt,
+			);
+		}
+
+		const key = `${row.contentId}:${row.commentId}`;
+		const current = latest.get(key);
+		if (!current || row.fetchedAt > current.fetchedAt) {
+			latest.set(key, row);
+		}
+	}
+
+	const comments = [...latest.values()].sort(
+		(a, b) => a.createTime.getTime() - b.createTime.getTime(),
+	);
+
+	const videos = new Map<string, CommenterVideo>();
+	for (const row of comments) {
+		let video = videos.get(row.contentId);
+		if (!video || row.fetchedAt.toISOString() > video.fetchedAt) {
+			video = {
+				scrapeId: row.scrapeId,
+				contentId: row.contentId,
+				url: row.url,
+				caption: row.caption,
+				fetchedAt: row.fetchedAt.toISOString(),
+				comments: video?.comments ?? [],
+			};
+			videos.set(row.contentId, video);
+		}
+		video.comments.push(row.data);
+	}
+
+	const first = (comments[0] as CommenterCommentRow).createTime;
+	const last = (comments.at(-1) as CommenterCommentRow).createTime;
+	const weeks = Math.max(1, (last.getTime() - first.getTime()) / WEEK_MS);
+	const byRecency = (a: HistoryEntry, b: HistoryEntry) =>
+		a.lastSeen.localeCompare(b.lastSeen);
+	const newest = [...nicknames.values()].sort(byRecency).at(-1);
+	const newestAvatar = [...avatars.values()].sort(byRecency).at(-1);
+
+	return {
+		platform,
+		username,
+		nickname: newest?.value ?? username,
+		avatar: newestAvatar?.value ?? "",
+		firstSeen: first.toISOString(),
+		lastSeen: last.toISOString(),
+		comments: comments.length,
+		replies: comments.filter((row) => row.data.parent_comment_id).length,
+		videos: videos.size,
+		activeDays: new Set(
+			comments.map((row) => row.createTime.toISOString().slice(0, 10)),
+		).size,
+		commentsPerWeek: comments.length / weeks,
+		nicknames: [...nicknames.values()].sort((a, b) =>
+			a.firstSeen.localeCompare(b.firstSeen),
+		),
+		avatars: [...avatars.values()].sort((a, b) =>
+			a.firstSeen.localeCompare(b.firstSeen),
+		),
+		history: [...videos.values()].sort((a, b) =>
+			(b.comments.at(-1)?.create_time ?? "").localeCompare(
+				a.comments.at(-1)?.create_time ?? "",
+			),
+		),
+	};
+}
@@ -1,5 +1,10 @@
+import { type SQL, sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
+	boolean,
+	index,
 	integer,
+	jsonb,
 	pgTable,
 	real,
 	text,
@@ -7,6 +12,28 @@ import {
 	uuid,
 	varchar,
 } from "drizzle-orm/pg-core";
+import type { Sentiment } from "../analysis";
+import type { CommentData, CommentDiff } from "../types";
+
+// Progress snapshot stored on a running scrape job
+export interface ScrapeJobProgress {
+	message: string;
+	page?: number; // Last page requested (paginated scrapers only)
+	fetched?: number; // Top-level comments fetched so far
+	total?: number; // Total comments reported by the platform
+}
+
+/**
+ * Full-text search document of a comment. The GIN indexes below are built on
+ * this exact expression, so queries must use it too to hit them.
+ */
+export function commentSearchVector(
+	comment: AnyPgColumn,
+	username: AnyPgColumn,
+	nickname: AnyPgColumn,
+): SQL {
+	return sql`to_tsvector('simple', coalesce(${comment}, '') || ' ' || coalesce(${username}, '') || ' ' || coalesce(${nickname}, ''))`;
+}
 
 // Boards table - stores the canvas/board metadata
 export const boards = pgTable("boards", {
@@ -20,33 +47,42 @@ export const boards = pgTable("boards", {
 });
 
 // Board comments table - stores comments with their canvas positions
-export const boardComments = pgTable("board_comments", {
-	id: uuid("id").primaryKey().defaultRandom(),
-	boardId: uuid("board_id")
-		.references(() => boards.id, { onDelete: "cascade" })
-		.notNull(),
-	groupId: uuid("group_id").references(() => boardGroups.id, {
-		onDelete: "set null",
-	}), // Group membership
-	// TikTok comment data
-	commentId: varchar("comment_id", { length: 50 }).notNull(),
-	parentCommentId: varchar("parent_comment_id", { length: 50 }), // For replies
-	username: varchar("username", { length: 100 }),
-	nickname: varchar("nickname", { length: 255 }),
-	comment: text("comment"),
-	createTime: timestamp("create_time"),
-	avatar: text("avatar"),
-	totalReply: integer("total_reply").default(0),
-	isOrphanReply: integer("is_orphan_reply").default(0), // 1 if parent was missing
-	// Canvas positioning
-	positionX: real("position_x").default(0).notNull(),
-	positionY: real("position_y").default(0).notNull(),
-	width: real("width").default(300).notNull(),
-	height: real("height").default(150).notNull(),
-	color: varchar("color", { length: 7 }), // Hex color like #FF5733
-	zIndex: integer("z_index").default(0).notNull(),
-	createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const boardComments = pgTable(
+	"board_comments",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		boardId: uuid("board_id")
+			.references(() => boards.id, { onDelete: "cascade" })
+			.notNull(),
+		groupId: uuid("group_id").references(() => boardGroups.id, {
+			onDelete: "set null",
+		}), // Group membership
+		// TikTok comment data
+		commentId: varchar("comment_id", { length: 50 }).notNull(),
+		parentCommentId: varchar("parent_comment_id", { length: 50 }), // For replies
+		username: varchar("username", { length: 100 }),
+		nickname: varchar("nickname", { length: 255 }),
+		comment: text("comment"),
+		createTime: timestamp("create_time"),
+		avatar: text("avatar"),
+		totalReply: integer("total_reply").default(0),
+		isOrphanReply: integer("is_orphan_reply").default(0), // 1 if parent was missing
+		// Canvas positioning
+		positionX: real("position_x").default(0).notNull(),
+		positionY: real("position_y").default(0).notNull(),
+		width: real("width").default(300).notNull(),
+		height: real("height").default(150).notNull(),
+		color: varchar("color", { length: 7 }), // Hex color like #FF5733
+		zIndex: integer("z_index").default(0).notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+	},
+	(table) => [
+		index("board_comments_search_idx").using(
+			"gin",
+			commentSearchVector(table.comment, table.username, table.nickname),
+		),
+	],
+);
 
 // Board groups table - for grouping comments visually
 export const boardGroups = pgTable("board_groups", {
@@ -76,6 +112,149 @@ export const boardEdges = pgTable("board_edges", {
 	createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Board shapes table - rectangles, circles and diamonds drawn on the canvas
+export const boardShapes = pgTable("board_shapes", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	boardId: uuid("board_id")
+		.references(() => boards.id, { onDelete: "cascade" })
+		.notNull(),
+	shapeType: varchar("shape_type", { length: 20 })
+		.default("rectangle")
+		.notNull(), // 'rectangle' | 'circle' | 'diamond'
+	positionX: real("position_x").default(0).notNull(),
+	positionY: real("position_y").default(0).notNull(),
+	width: real("width").default(100).notNull(),
+	height: real("height").default(100).notNull(),
+	color: varchar("color", { length: 7 }).default("#3b82f6"), // Fill
+	borderColor: varchar("border_color", { length: 7 }).default("#2563eb"),
+	zIndex: integer("z_index").default(0).notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Board texts table - free text annotations on the canvas
+export const boardTexts = pgTable("board_texts", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	boardId: uuid("board_id")
+		.references(() => boards.id, { onDelete: "cascade" })
+		.notNull(),
+	text: text("text").default("").notNull(),
+	positionX: real("position_x").default(0).notNull(),
+	positionY: real("position_y").default(0).notNull(),
+	width: real("width").default(200).notNull(),
+	height: real("height").default(50).notNull(),
+	fontSize: integer("font_size").default(16).notNull(),
+	fontWeight: varchar("font_weight", { length: 10 })
+		.default("normal")
+		.notNull(), // 'normal' | 'bold'
+	color: varchar("color", { length: 7 }).default("#ffffff"),
+	zIndex: integer("z_index").default(0).notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Scrapes table - stored results of finished scrapes
+export const scrapes = pgTable("scrapes", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	platform: varchar("platform", { length: 20 }).notNull(),
+	contentId: text("content_id").notNull(),
+	url: text("url"),
+	caption: text("caption"),
+	commentCount: integer("comment_count").default(0).notNull(),
+	comments: jsonb("comments").$type<CommentData[]>().notNull(),
+	fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+});
+
+// Scrape comments table - one row per comment and reply of a stored scrape,
+// for searching and paging through large results on the server
+export const scrapeComments = pgTable(
+	"scrape_comments",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		scrapeId: uuid("scrape_id")
+			.references(() => scrapes.id, { onDelete: "cascade" })
+			.notNull(),
+		position: integer("position").notNull(), // Order in the scrape result
+		commentId: text("comment_id").notNull(),
+		parentCommentId: text("parent_comment_id"), // Set for replies
+		username: text("username").notNull(),
+		nickname: text("nickname").notNull(),
+		comment: text("comment").notNull(),
+		createTime: timestamp("create_time").notNull(),
+		likeCount: integer("like_count").default(0).notNull(),
+		totalReply: integer("total_reply").default(0).notNull(),
+		// Scores from src/analysis, null on rows indexed before it existed
+		sentiment: varchar("sentiment", { length: 10 }).$type<Sentiment>(),
+		sentimentScore: real("sentiment_score"),
+		toxicity: real("toxicity"),
+		spam: real("spam"),
+		data: jsonb("data").$type<CommentData>().notNull(), // Without nested replies
+	},
+	(table) => [
+		index("scrape_comments_scrape_id_idx").on(table.scrapeId, table.position),
+		// Commenter profiles look a username up across every scrape
+		index("scrape_comments_username_idx").on(table.username),
+		index("scrape_comments_search_idx").using(
+			"gin",
+			commentSearchVector(table.comment, table.username, table.nickname),
+		),
+	],
+);
+
+// Watched videos table - re-scraped on a schedule to track comment changes
+export const watchedVideos = pgTable("watched_videos", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	url: text("url").notNull(),
+	platform: varchar("platform", { length: 20 }).notNull(),
+	contentId: text("content_id").notNull(),
+	intervalMinutes: integer("interval_minutes").notNull(),
+	enabled: boolean("enabled").default(true).notNull(),
+	lastRunAt: timestamp("last_run_at"),
+	nextRunAt: timestamp("next_run_at").defaultNow().notNull(),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Scrape jobs table - background scrapes submitted through /api/jobs
+export const scrapeJobs = pgTable("scrape_jobs", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	platform: varchar("platform", { length: 20 }).notNull(),
+	input: text("input").notNull(), // TikTok video ID or post URL
+	contentId: text("content_id").notNull(),
+	status: varchar("status", { length: 20 }).default("queued").notNull(), // 'queued' | 'running' | 'done' | 'failed'
+	progress: jsonb("progress").$type<ScrapeJobProgress>(),
+	incremental: boolean("incremental").default(false).notNull(), // Only fetch what's new since scrapeId
+	scrapeId: uuid("scrape_id").references(() => scrapes.id, {
+		onDelete: "set null",
+	}), // Scrape to update when incremental, otherwise set once the job is done
+	watchId: uuid("watch_id").references(() => watchedVideos.id, {
+		onDelete: "set null",
+	}), // Set for jobs started by the watch scheduler
+	error: text("error"),
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+	startedAt: timestamp("started_at"),
+	finishedAt: timestamp("finished_at"),
+});
+
+// Watch runs table - one per scheduled scrape, with the diff against the previous run
+export const watchRuns = pgTable("watch_runs", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	watchId: uuid("watch_id")
+		.references(() => watchedVideos.id, { onDelete: "cascade" })
+		.notNull(),
+	jobId: uuid("job_id").references(() => scrapeJobs.id, {
+		onDelete: "set null",
+	}),
+	scrapeId: uuid("scrape_id").references(() => scrapes.id, {
+		onDelete: "set null",
+	}),
+	status: varchar("status", { length: 20 }).notNull(), // 'done' | 'failed'
+	error: text("error"),
+	commentCount: integer("comment_count").default(0).notNull(),
+	addedCount: integer("added_count").default(0).notNull(),
+	deletedCount: integer("deleted_count").default(0).notNull(),
+	editedCount: integer("edited_count").default(0).notNull(),
+	diff: jsonb("diff").$type<CommentDiff>(), // Null for the first run and failed runs
+	createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Type exports for insert and select
 export type Board = typeof boards.$inferSelect;
 export type NewBoard = typeof boards.$inferInsert;
@@ -88,3 +267,24 @@ export type NewBoardGroup = typeof boardGroups.$inferInsert;
 
 export type BoardEdge = typeof boardEdges.$inferSelect;
 export type NewBoardEdge = typeof boardEdges.$inferInsert;
+
+export type BoardShape = typeof boardShapes.$inferSelect;
+export type NewBoardShape = typeof boardShapes.$inferInsert;
+
+export type BoardText = typeof boardTexts.$inferSelect;
+export type NewBoardText = typeof boardTexts.$inferInsert;
+
+export type Scrape = typeof scrapes.$inferSelect;
+export type NewScrape = typeof scrapes.$inferInsert;
+
+export type ScrapeComment = typeof scrapeComments.$inferSelect;
+export type NewScrapeComment = typeof scrapeComments.$inferInsert;
+
+export type ScrapeJob = typeof scrapeJobs.$inferSelect;
+export type NewScrapeJob = typeof scrapeJobs.$inferInsert;
+
+export type WatchedVideo = typeof watchedVideos.$inferSelect;
+export type NewWatchedVideo = typeof watchedVideos.$inferInsert;
+
+export type WatchRun = typeof watchRuns.$inferSelect;
+export type NewWatchRun = typeof watchRuns.$inferInsert;
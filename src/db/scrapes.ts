@@ -0,0 +1,96 @@
+import { eq } from "drizzle-orm";
+import type { CommentsData } from "../types";
+import { isUuid } from "../utils";
+import { db } from "./client";
+import { indexScrapeComments } from "./comment-search";
+import { type Scrape, scrapes } from "./schema";
+
+// Shape returned to clients - the same as a live /api/scrape response
+export interface StoredScrapeResult extends CommentsData {
+	platform: string;
+	scrape_id: string;
+	fetched_at: string;
+}
+
+/**
+ * Store the result of a finished scrape, with its comments indexed for search
+ */
+export async function saveScrape(
+	platform: string,
+	contentId: string,
+	result: CommentsData,
+): Promise<Scrape> {
+	return db.transaction(async (tx) => {
+		const [scrape] = await tx
+			.insert(scrapes)
+			.values({
+				platform,
+				contentId,
+				url: result.video_url,
+				caption: result.caption,
+				commentCount: result.comments.length,
+				comments: result.comments,
+			})
+			.returning();
+
+		if (!scrape) {
+			throw new Error("Failed to save scrape");
+		}
+
+		await indexScrapeComments(tx, scrape.id, result.comments);
+		return scrape;
+	});
+}
+
+/**
+ * Replace a stored scrape's result, e.g. after an incremental re-scrape
+ */
+export async function updateScrape(
+	id: string,
+	result: CommentsData,
+): Promise<Scrape> {
+	return db.transaction(async (tx) => {
+		const [scrape] = await tx
+			.update(scrapes)
+			.set({
+				url: result.video_url,
+				caption: result.caption,
+				commentCount: result.comments.length,
+				comments: result.comments,
+				fetchedAt: new Date(),
+			})
+			.where(eq(scrapes.id, id))
+			.returning();
+
+		if (!scrape) {
+			throw new Error("Scrape not found");
+		}
+
+		await indexScrapeComments(tx, scrape.id, result.comments);
+		return scrape;
+	});
+}
+
+export async function getScrape(id: string): Promise<Scrape | undefined> {
+	if (!isUuid(id)) return undefined;
+
+	const [scrape] = await db
+		.select()
+		.from(scrapes)
+		.where(eq(scrapes.id, id))
+		.limit(1);
+
+	return scrape;
+}
+
+export function toScrapeResult(scrape: Scrape): StoredScrapeResult {
+	return {
+		caption: scrape.caption ?? "",
+		video_url: scrape.url ?? "",
+		comments: scrape.comments,
+		has_more: 0,
+		platform: scrape.platform,
+		scrape_id: scrape.id,
+		fetched_at: scrape.fetchedAt.toISOString(),
+	};
+}
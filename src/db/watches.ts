@@ -0,0 +1,60 @@
+import { and, desc, eq } from "drizzle-orm";
+import { diffComments } from "../utils";
+import { db } from "./client";
+import { type Scrape, scrapes, type WatchRun, watchRuns } from "./schema";
+
+/**
+ * Record a successful scheduled scrape, diffed against the watch's last
+ * successful run
+ */
+export async function recordWatchRun(
+	watchId: string,
+	jobId: string,
+	scrape: Scrape,
+): Promise<WatchRun> {
+	const [previous] = await db
+		.select({ comments: scrapes.comments })
+		.from(watchRuns)
+		.innerJoin(scrapes, eq(watchRuns.scrapeId, scrapes.id))
+		.where(and(eq(watchRuns.watchId, watchId), eq(watchRuns.status, "done")))
+		.orderBy(desc(watchRuns.createdAt))
+		.limit(1);
+
+	const diff = previous
+		? diffComments(previous.comments, scrape.comments)
+		: undefined;
+
+	const [run] = await db
+		.insert(watchRuns)
+		.values({
+			watchId,
+			jobId,
+			scrapeId: scrape.id,
+			status: "done",
+			commentCount: scrape.commentCount,
+			addedCount: diff?.added.length ?? 0,
+			deletedCount: diff?.deleted.length ?? 0,
+			editedCount: diff?.edited.length ?? 0,
+			diff,
+		})
+		.returning();
+
+	if (!run) {
+		throw new Error("Failed to record watch run");
+	}
+
+	return run;
+}
+
+export async function recordFailedWatchRun(
+	watchId: string,
+	jobId: string,
+	error: string,
+): Promise<void> {
+	await db.insert(watchRuns).values({
+		watchId,
+		jobId,
+		status: "failed",
+		error,
+	});
+}
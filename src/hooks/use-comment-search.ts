@@ -0,0 +1,129 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import type { Sentiment } from "../analysis";
+import type { Comment } from "./use-scraper";
+
+export type CommentFilter = "all" | "comments" | "replies";
+export type CommentSort =
+	| "newest"
+	| "oldest"
+	| "most_replies"
+	| "most_liked"
+	| "most_toxic"
+	| "most_spam";
+export type CommentFlag = "toxic" | "spam";
+
+export interface CommentSearchItem {
+	comment: Comment;
+	isReply: boolean;
+	parentId?: string;
+}
+
+// Page returned by GET /api/scrapes/:id/comments
+interface CommentSearchPage {
+	items: CommentSearchItem[];
+	nextCursor: string | null;
+	total?: number;
+}
+
+interface CommentSearchOptions {
+	// Stored scrape to search, the search is off without one
+	scrapeId?: string;
+	// Changes when the scrape is refreshed, so cached pages are dropped
+	fetchedAt?: string;
+	search: string;
+	filter: CommentFilter;
+	sentiment?: Sentiment;
+	flagged?: CommentFlag;
+	sort: CommentSort;
+	pageSize?: number;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const DEFAULT_PAGE_SIZE = 100;
+
+function useDebouncedValue<T>(value: T, delay: number): T {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delay);
+		return () => clearTimeout(timeout);
+	}, [value, delay]);
+
+	return debounced;
+}
+
+async function fetchCommentPage(
+	scrapeId: string,
+	params: URLSearchParams,
+): Promise<CommentSearchPage> {
+	const response = await fetch(`/api/scrapes/${scrapeId}/comments?${params}`);
+	if (!response.ok) {
+		const data = await response.json().catch(() => ({}));
+		throw new Error(data.error || "Failed to load comments");
+	}
+	return response.json();
+}
+
+/**
+ * Search, filter and sort a stored scrape's comments on the server, a page
+ * at a time
+ */
+export function useCommentSearch({
+	scrapeId,
+	fetchedAt,
+	search,
+	filter,
+	sentiment,
+	flagged,
+	sort,
+	pageSize = DEFAULT_PAGE_SIZE,
+}: CommentSearchOptions) {
+	const q = useDebouncedValue(search.trim(), SEARCH_DEBOUNCE_MS);
+
+	const query = useInfiniteQuery({
+		queryKey: [
+			"scrape-comments",
+			scrapeId,
+			fetchedAt,
+			q,
+			filter,
+			sentiment,
+			flagged,
+			sort,
+		],
+		queryFn: ({ pageParam }) => {
+			const params = new URLSearchParams({
+				type: filter,
+				sort,
+				limit: String(pageSize),
+			});
+			if (q) params.set("q", q);
+			if (sentiment) params.set("sentiment", sentiment);
+			if (flagged) params.set("flagged", flagged);
+			if (pageParam) params.set("cursor", pageParam);
+			return fetchCommentPage(scrapeId as string, params);
+		},
+		initialPageParam: null as string | null,
+		getNextPageParam: (lastPage) => lastPage.nextCursor,
+		enabled: Boolean(scrapeId),
+		// Keep showing the previous results while a new search loads
+		placeholderData: (previous) => previous,
+	});
+
+	const items = useMemo(
+		() => query.data?.pages.flatMap((page) => page.items) ?? [],
+		[query.data],
+	);
+
+	return {
+		items,
+		// Only the first page carries the total
+		total: query.data?.pages[0]?.total ?? 0,
+		error: query.error,
+		isLoading: query.isLoading,
+		hasNextPage: query.hasNextPage,
+		isFetchingNextPage: query.isFetchingNextPage,
+		fetchNextPage: query.fetchNextPage,
+	};
+}
@@ -1,8 +1,18 @@
 import { useCallback, useEffect, useState } from "react";
 
 interface RouteState {
-	page: "home" | "board";
+	page: "home" | "board" | "user";
 	slug?: string;
+	// Commenter profile
+	platform?: string;
+	username?: string;
+}
+
+/**
+ * Link to a commenter's profile, e.g. #/user/tiktok/someone
+ */
+export function userProfileHref(platform: string, username: string): string {
+	return `#/user/${platform}/${encodeURIComponent(username)}`;
 }
 
 function parseRoute(): RouteState {
@@ -15,6 +25,21 @@ function parseRoute(): RouteState {
 		}
 	}
 
+	if (hash.startsWith("/user/")) {
+		const [platform, username] = hash.slice(6).split("/"); // Remove "/user/"
+		if (platform && username) {
+			try {
+				return {
+					page: "user",
+					platform,
+					username: decodeURIComponent(username),
+				};
+			} catch {
+				// Malformed percent-encoding, such as a lone "%"
+			}
+		}
+	}
+
 	return { page: "home" };
 }
 
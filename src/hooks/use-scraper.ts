@@ -1,11 +1,13 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CommentAnalysis } from "../analysis";
+import {
+	detectPlatform,
+	formatPlatformNames,
+	PLATFORMS,
+	type Platform,
+} from "../platforms";
 
-export type Platform =
-	| "tiktok"
-	| "facebook"
-	| "instagram"
-	| "youtube"
-	| "unknown";
+export type { Platform } from "../platforms";
 
 export interface Comment {
 	comment_id: string;
@@ -18,6 +20,16 @@ export interface Comment {
 	replies: Comment[];
 	parent_comment_id?: string;
 	is_orphan_reply?: boolean;
+	// Missing on scrapes saved before engagement metrics were collected
+	like_count?: number;
+	is_pinned?: boolean;
+	is_creator_liked?: boolean;
+	// Set when create_time was estimated from relative text (YouTube)
+	is_time_approximate?: boolean;
+	// Set when the relative text couldn't be read, create_time is the scrape time
+	is_time_unknown?: boolean;
+	// Sentiment, toxicity and spam scores, missing on older scrapes
+	analysis?: CommentAnalysis;
 }
 
 export interface ScrapeResult {
@@ -28,115 +40,308 @@ export interface ScrapeResult {
 	platform: Platform;
 	needs_auth?: boolean;
 	auth_message?: string;
+	// Set once the result is stored on the server
+	scrape_id?: string;
+	fetched_at?: string;
 }
 
 export type ScraperStatus = "idle" | "loading" | "success" | "error";
 
+export interface ScrapeProgress {
+	message: string;
+	page?: number;
+	fetched?: number;
+	total?: number;
+}
+
+interface ScrapeJob {
+	id: string;
+	platform: Platform;
+	status: "queued" | "running" | "done" | "failed";
+	progress: ScrapeProgress | null;
+	result: ScrapeResult | null;
+	error: string | null;
+}
+
+// Mirrors ScrapeProgressEvent sent by the server over /api/jobs/:id/events
+type ScrapeProgressEvent =
+	| { type: "status"; message: string }
+	| { type: "page"; page: number; cursor: number }
+	| { type: "comments"; fetched: number; total?: number; comments: Comment[] }
+	| { type: "replies"; commentId: string; fetched: number; total: number };
+
+// The running job survives page reloads through localStorage
+const JOB_STORAGE_KEY = "scrape-job-id";
+
 interface UseScraperReturn {
 	status: ScraperStatus;
+	// While loading, holds the comments streamed in so far
 	result: ScrapeResult | null;
 	error: string;
 	platform: Platform;
+	progress: ScrapeProgress | null;
 	scrape: (url: string) => Promise<void>;
+	// Reopen a stored scrape without scraping again
+	load: (scrapeId: string) => Promise<void>;
+	// Fetch only comments added since a stored TikTok scrape was made
+	refresh: (scrapeId: string) => Promise<void>;
 	reset: () => void;
 }
 
-/**
- * Detect platform from URL
- */
-function detectPlatform(url: string): Platform {
-	const normalizedUrl = url.toLowerCase().trim();
-
-	if (
-		/tiktok\.com/.test(normalizedUrl) ||
-		/vm\.tiktok\.com/.test(normalizedUrl) ||
-		/vt\.tiktok\.com/.test(normalizedUrl)
-	) {
-		return "tiktok";
-	}
-
-	if (/youtube\.com/.test(normalizedUrl) || /youtu\.be/.test(normalizedUrl)) {
-		return "youtube";
-	}
-
-	if (/instagram\.com/.test(normalizedUrl)) {
-		return "instagram";
-	}
-
-	if (/facebook\.com/.test(normalizedUrl) || /fb\.watch/.test(normalizedUrl)) {
-		return "facebook";
-	}
-
-	return "unknown";
-}
-
-/**
- * Validate URL for supported platforms
- */
-function isValidUrl(input: string): boolean {
-	const platform = detectPlatform(input);
-	return platform !== "unknown";
-}
-
 export function useScraper(): UseScraperReturn {
 	const [status, setStatus] = useState<ScraperStatus>("idle");
 	const [result, setResult] = useState<ScrapeResult | null>(null);
 	const [error, setError] = useState("");
 	const [platform, setPlatform] = useState<Platform>("unknown");
+	const [progress, setProgress] = useState<ScrapeProgress | null>(null);
+	const eventSourceRef = useRef<EventSource | null>(null);
 
-	const scrape = useCallback(async (url: string) => {
-		const detectedPlatform = detectPlatform(url);
-		setPlatform(detectedPlatform);
+	const stopWatching = useCallback(() => {
+		eventSourceRef.current?.close();
+		eventSourceRef.current = null;
+		localStorage.removeItem(JOB_STORAGE_KEY);
+		setProgress(null);
+	}, []);
 
-		if (!isValidUrl(url)) {
-			setError(
-				"Please enter a valid TikTok, YouTube, Instagram, or Facebook URL",
-			);
-			setStatus("error");
-			return;
-		}
+	const watchJob = useCallback(
+		(jobId: string) => {
+			eventSourceRef.current?.close();
+			setStatus("loading");
+			setError("");
 
-		setStatus("loading");
-		setError("");
-		setResult(null);
+			const source = new EventSource(`/api/jobs/${jobId}/events`);
+			eventSourceRef.current = source;
+			let jobPlatform: Platform = "unknown";
+
+			const applyJob = (job: ScrapeJob) => {
+				if (eventSourceRef.current !== source) return;
+				jobPlatform = job.platform;
+				setPlatform(job.platform);
+
+				if (job.status === "done" && job.result) {
+					setResult(job.result);
+					setStatus("success");
+					stopWatching();
+				} else if (job.status === "done") {
+					// The stored scrape was deleted after the job finished
+					setError("Result no longer available");
+					setStatus("error");
+					stopWatching();
+				} else if (job.status === "failed") {
+					setError(job.error || "Scraping failed");
+					setStatus("error");
+					stopWatching();
+				} else {
+					setProgress(job.progress);
+				}
+			};
 
-		try {
-			const response = await fetch("/api/scrape", {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify({ url }),
+			// Final result is fetched separately to keep the stream light
+			const fetchFinalJob = async () => {
+				try {
+					const response = await fetch(`/api/jobs/${jobId}`);
+					if (!response.ok) {
+						throw new Error("Failed to get scrape job");
+					}
+					applyJob((await response.json()) as ScrapeJob);
+				} catch (err) {
+					if (eventSourceRef.current !== source) return;
+					setError(err instanceof Error ? err.message : "Scraping failed");
+					setStatus("error");
+					stopWatching();
+				}
+			};
+
+			// Snapshot sent on every (re)connect
+			source.addEventListener("job", (event) => {
+				applyJob(JSON.parse(event.data) as ScrapeJob);
 			});
 
-			if (!response.ok) {
-				const errorData = (await response.json()) as { error?: string };
-				throw new Error(errorData.error || "Scraping failed");
-			}
+			source.addEventListener("progress", (event) => {
+				const data = JSON.parse(event.data) as ScrapeProgressEvent;
+
+				setProgress((prev) => {
+					const current = prev ?? { message: "" };
+					switch (data.type) {
+						case "status":
+							return { ...current, message: data.message };
+						case "page":
+							return {
+								...current,
+								page: data.page,
+								message: `Fetching page ${data.page}`,
+							};
+						case "comments":
+							return {
+								...current,
+								fetched: data.fetched,
+								total: data.total ?? current.total,
+								message: `Fetched ${data.fetched} comments`,
+							};
+						case "replies":
+							return {
+								...current,
+								message: `Fetching replies (${data.fetched}/${data.total})`,
+							};
+					}
+				});
 
-			const data = (await response.json()) as ScrapeResult;
-			setResult(data);
-			setPlatform(data.platform || detectedPlatform);
-			setStatus("success");
-		} catch (err) {
-			setError(err instanceof Error ? err.message : "Scraping failed");
-			setStatus("error");
+				// Show partial results as pages come in
+				if (data.type === "comments" && data.comments.length > 0) {
+					setResult((prev) => ({
+						caption: "",
+						video_url: "",
+						has_more: 1,
+						platform: jobPlatform,
+						...prev,
+						comments: [...(prev?.comments ?? []), ...data.comments],
+					}));
+				}
+			});
+
+			source.addEventListener("done", () => {
+				source.close();
+				fetchFinalJob();
+			});
+
+			source.addEventListener("failed", () => {
+				source.close();
+				fetchFinalJob();
+			});
+
+			source.onerror = () => {
+				// EventSource reconnects on its own unless the server refused the stream
+				if (
+					source.readyState === EventSource.CLOSED &&
+					eventSourceRef.current === source
+				) {
+					setError("Lost connection to the scrape job");
+					setStatus("error");
+					stopWatching();
+				}
+			};
+		},
+		[stopWatching],
+	);
+
+	// Resume watching a job started before the page was reloaded
+	useEffect(() => {
+		const storedJobId = localStorage.getItem(JOB_STORAGE_KEY);
+		if (storedJobId) {
+			watchJob(storedJobId);
 		}
-	}, []);
+
+		return () => {
+			eventSourceRef.current?.close();
+			eventSourceRef.current = null;
+		};
+	}, [watchJob]);
+
+	const submitJob = useCallback(
+		async (body: Record<string, unknown>) => {
+			try {
+				const response = await fetch("/api/jobs", {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify(body),
+				});
+
+				if (!response.ok) {
+					const errorData = (await response.json()) as { error?: string };
+					throw new Error(errorData.error || "Scraping failed");
+				}
+
+				const job = (await response.json()) as ScrapeJob;
+				localStorage.setItem(JOB_STORAGE_KEY, job.id);
+				watchJob(job.id);
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Scraping failed");
+				setStatus("error");
+				setProgress(null);
+			}
+		},
+		[watchJob],
+	);
+
+	const scrape = useCallback(
+		async (url: string) => {
+			const detectedPlatform = detectPlatform(url);
+			setPlatform(detectedPlatform);
+
+			if (detectedPlatform === "unknown") {
+				setError(`Please enter a valid ${formatPlatformNames(PLATFORMS)} URL`);
+				setStatus("error");
+				return;
+			}
+
+			setStatus("loading");
+			setError("");
+			setResult(null);
+			setProgress({ message: "Submitting scrape job" });
+
+			await submitJob({ url });
+		},
+		[submitJob],
+	);
+
+	// Keeps the current result on screen while new comments stream in
+	const refresh = useCallback(
+		async (scrapeId: string) => {
+			setStatus("loading");
+			setError("");
+			setProgress({ message: "Checking for new comments" });
+
+			await submitJob({ scrapeId, incremental: true });
+		},
+		[submitJob],
+	);
+
+	const load = useCallback(
+		async (scrapeId: string) => {
+			stopWatching();
+			setStatus("loading");
+			setError("");
+			setResult(null);
+
+			try {
+				const response = await fetch(`/api/scrapes/${scrapeId}`);
+
+				if (!response.ok) {
+					const errorData = (await response.json()) as { error?: string };
+					throw new Error(errorData.error || "Failed to load scrape");
+				}
+
+				const data = (await response.json()) as ScrapeResult;
+				setPlatform(data.platform);
+				setResult(data);
+				setStatus("success");
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Failed to load scrape");
+				setStatus("error");
+			}
+		},
+		[stopWatching],
+	);
 
 	const reset = useCallback(() => {
+		stopWatching();
 		setStatus("idle");
 		setResult(null);
 		setError("");
 		setPlatform("unknown");
-	}, []);
+	}, [stopWatching]);
 
 	return {
 		status,
 		result,
 		error,
 		platform,
+		progress,
 		scrape,
+		load,
+		refresh,
 		reset,
 	};
 }
@@ -1,76 +1,60 @@
 import Archiver from "archiver";
 import { serve } from "bun";
-import { eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { autoGroupBoard } from "./db/board-groups";
 import { db } from "./db/client";
+import {
+	indexStoredScrapes,
+	parseCommentQuery,
+	searchBoardComments,
+	searchScrapeComments,
+} from "./db/comment-search";
+import {
+	getCommenterProfile,
+	listCommenters,
+	parseCommenterQuery,
+} from "./db/commenters";
 import {
 	boardComments,
 	boardEdges,
 	boardGroups,
+	boardShapes,
 	boards,
+	boardTexts,
 	type NewBoardComment,
 	type NewBoardEdge,
+	scrapes,
+	watchedVideos,
+	watchRuns,
 } from "./db/schema";
+import { getScrape, saveScrape, toScrapeResult } from "./db/scrapes";
 import homepage from "./index.html";
+import { scrapeQueue } from "./jobs/scrape-queue";
+import { watchScheduler } from "./jobs/watch-scheduler";
+import { AUTH_PLATFORMS, getPlatform, isAuthPlatform } from "./platforms";
+import { renderCommentCards } from "./render/card-renderer";
+import renderPage from "./render.html";
 import {
-	FacebookComment,
-	InstagramComment,
+	proxyPool,
+	resolveScrapeTarget,
+	runScrape,
+	type ScrapePlatform,
 	sessionManager,
-	TiktokComment,
-	YoutubeComment,
-	type SessionPlatform,
 } from "./scraper";
-import type { CommentData, CommentsData } from "./types";
-import { detectPlatform } from "./utils";
+import type { CommentData, CommentsData, RenderCard } from "./types";
+import { isUuid } from "./utils";
 
 const PORT = process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 3000;
 
-// Helper to resolve short URLs
-async function resolveShortUrl(shortUrl: string): Promise<string | undefined> {
-	try {
-		const response = await fetch(shortUrl, {
-			method: "HEAD",
-			redirect: "follow",
-		});
-		const finalUrl = response.url;
-		const videoIdMatch = finalUrl.match(/\/video\/(\d+)/);
-		return videoIdMatch?.[1];
-	} catch {
-		return undefined;
-	}
-}
-
-// Helper to check if URL is a short URL
-function isShortUrl(input: string): boolean {
-	return (
-		/(?:vm|vt)\.tiktok\.com\/\w+/.test(input) ||
-		/tiktok\.com\/t\/\w+/.test(input)
-	);
-}
-
-// Helper to extract video ID from URL
-function extractVideoId(input: string): string | undefined {
-	if (/^\d+$/.test(input.trim())) {
-		return input.trim();
-	}
-
-	const patterns = [
-		/tiktok\.com\/@[^/]+\/video\/(\d+)/,
-		/tiktok\.com\/.*?\/video\/(\d+)/,
-		/vm\.tiktok\.com\/(\w+)/,
-		/vt\.tiktok\.com\/(\w+)/,
-		/tiktok\.com\/t\/(\w+)/,
-	];
-
-	for (const pattern of patterns) {
-		const match = input.match(pattern);
-		if (match?.[1]) {
-			return match[1];
-		}
-	}
-
-	return undefined;
-}
+// Shortest allowed schedule for a watched video
+const MIN_WATCH_INTERVAL_MINUTES = 5;
+
+// Shapes the board toolbar can draw
+const BOARD_SHAPE_TYPES = ["rectangle", "circle", "diamond"];
+
+// Platforms with login sessions, for the /api/session routes
+const INVALID_SESSION_PLATFORM = `Invalid platform. Use: ${AUTH_PLATFORMS.join(", ")}`;
 
 const server = serve({
 	port: PORT,
@@ -78,109 +62,658 @@ const server = serve({
 	routes: {
 		"/": homepage,
 
+		// Headless page the server screenshots comment cards from
+		"/render": renderPage,
+
 		// JSON API endpoint for scraping (multi-platform)
 		"/api/scrape": {
 			async POST(req) {
 				try {
 					const body = (await req.json()) as { url?: string; id?: string };
-					const url = body.url || "";
-					let id = body.id;
-
-					// Detect platform from URL
-					const platform = detectPlatform(url);
-
-					// Handle based on platform
-					if (platform === "tiktok") {
-						// Handle TikTok URL input
-						if (url && !id) {
-							if (isShortUrl(url)) {
-								id = await resolveShortUrl(url);
-								if (!id) {
-									return Response.json(
-										{ error: "Failed to resolve short URL" },
-										{ status: 400 },
-									);
-								}
-							} else {
-								id = extractVideoId(url);
-							}
-						}
 
-						if (!id || !/^\d+$/.test(id)) {
-							return Response.json(
-								{ error: "Invalid TikTok video ID" },
-								{ status: 400 },
-							);
-						}
+					// Detect platform and normalize the URL/ID input
+					const target = await resolveScrapeTarget(body.url, body.id);
+					if ("error" in target) {
+						return Response.json({ error: target.error }, { status: 400 });
+					}
 
-						const scraper = new TiktokComment();
-						const result = await scraper.scrape(id);
+					const result = await runScrape(target);
 
-						return Response.json({ ...result.dict, platform: "tiktok" });
+					// Nothing worth keeping when the platform asked for a login
+					if (result.needs_auth) {
+						return Response.json({ ...result.dict, platform: target.platform });
 					}
 
-					if (platform === "youtube") {
-						if (!url) {
+					const scrape = await saveScrape(
+						target.platform,
+						target.contentId,
+						result.dict,
+					);
+
+					return Response.json(toScrapeResult(scrape));
+				} catch (error) {
+					console.error("Scrape error:", error);
+					return Response.json(
+						{
+							error: error instanceof Error ? error.message : "Scraping failed",
+						},
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Background scrape jobs - submit and poll instead of holding the request open
+		"/api/jobs": {
+			async POST(req) {
+				try {
+					const body = (await req.json()) as {
+						url?: string;
+						id?: string;
+						// Re-scrape a stored scrape, only fetching what's new
+						scrapeId?: string;
+						incremental?: boolean;
+					};
+
+					if (body.incremental) {
+						const scrape = body.scrapeId
+							? await getScrape(body.scrapeId)
+							: undefined;
+						if (!scrape) {
 							return Response.json(
-								{ error: "YouTube URL required" },
+								{ error: "Scrape not found" },
+								{ status: 404 },
+							);
+						}
+						const definition = getPlatform(scrape.platform);
+						if (!definition?.supportsIncremental) {
+							return Response.json(
+								{
+									error: `Incremental scrapes are not supported for ${definition?.displayName ?? scrape.platform}`,
+								},
 								{ status: 400 },
 							);
 						}
 
-						const scraper = new YoutubeComment();
-						const result = await scraper.scrape(url);
+						const job = await scrapeQueue.enqueue(
+							{
+								platform: scrape.platform as ScrapePlatform,
+								input: scrape.contentId,
+								contentId: scrape.contentId,
+							},
+							{ previousScrapeId: scrape.id },
+						);
+
+						return Response.json(job, { status: 202 });
+					}
 
-						return Response.json({ ...result.dict, platform: "youtube" });
+					const target = await resolveScrapeTarget(body.url, body.id);
+					if ("error" in target) {
+						return Response.json({ error: target.error }, { status: 400 });
 					}
 
-					if (platform === "instagram") {
-						if (!url) {
-							return Response.json(
-								{ error: "Instagram URL required" },
-								{ status: 400 },
+					const job = await scrapeQueue.enqueue(target);
+
+					return Response.json(job, { status: 202 });
+				} catch (error) {
+					console.error("Create job error:", error);
+					return Response.json(
+						{ error: "Failed to create scrape job" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/jobs/:id": {
+			async GET(req) {
+				try {
+					const job = await scrapeQueue.getJobWithResult(req.params.id);
+
+					if (!job) {
+						return Response.json({ error: "Job not found" }, { status: 404 });
+					}
+
+					return Response.json(job);
+				} catch (error) {
+					console.error("Get job error:", error);
+					return Response.json({ error: "Failed to get job" }, { status: 500 });
+				}
+			},
+		},
+
+		// Live job progress as Server-Sent Events
+		"/api/jobs/:id/events": {
+			async GET(req) {
+				const jobId = req.params.id;
+
+				try {
+					if (!(await scrapeQueue.getJob(jobId))) {
+						return Response.json({ error: "Job not found" }, { status: 404 });
+					}
+				} catch (error) {
+					console.error("Get job error:", error);
+					return Response.json({ error: "Failed to get job" }, { status: 500 });
+				}
+
+				const encoder = new TextEncoder();
+				let unsubscribe: (() => void) | undefined;
+				let heartbeat: ReturnType<typeof setInterval> | undefined;
+				// Set once the stream ends, a terminal event can close it while the
+				// snapshot is still being read
+				let closed = false;
+
+				const stop = () => {
+					closed = true;
+					unsubscribe?.();
+					clearInterval(heartbeat);
+				};
+
+				const stream = new ReadableStream<Uint8Array>({
+					async start(controller) {
+						const send = (event: string, data: unknown) => {
+							if (closed) return;
+							controller.enqueue(
+								encoder.encode(
+									`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+								),
 							);
+						};
+
+						const close = () => {
+							if (closed) return;
+							stop();
+							controller.close();
+						};
+
+						// Subscribe before reading the snapshot so no event is missed
+						unsubscribe = scrapeQueue.subscribe(jobId, ({ event, data }) => {
+							send(event, data);
+							if (event !== "progress") {
+								close();
+							}
+						});
+
+						try {
+							const job = await scrapeQueue.getJobWithResult(jobId);
+							if (job) {
+								send("job", job);
+							}
+
+							if (!job || job.status === "done" || job.status === "failed") {
+								close();
+								return;
+							}
+							if (closed) return;
+
+							// Keep intermediaries from closing an idle connection
+							heartbeat = setInterval(() => {
+								if (!closed) {
+									controller.enqueue(encoder.encode(": heartbeat\n\n"));
+								}
+							}, 15000);
+						} catch (error) {
+							console.error("Job events error:", error);
+							if (!closed) {
+								stop();
+								controller.error(error);
+							}
 						}
+					},
+					cancel() {
+						stop();
+					},
+				});
+
+				return new Response(stream, {
+					headers: {
+						"Content-Type": "text/event-stream",
+						"Cache-Control": "no-cache",
+						Connection: "keep-alive",
+					},
+				});
+			},
+		},
+
+		// Stored scrapes - reopen past results without scraping again
+		"/api/scrapes": {
+			async GET() {
+				try {
+					const rows = await db
+						.select({
+							id: scrapes.id,
+							platform: scrapes.platform,
+							contentId: scrapes.contentId,
+							url: scrapes.url,
+							caption: scrapes.caption,
+							commentCount: scrapes.commentCount,
+							fetchedAt: scrapes.fetchedAt,
+						})
+						.from(scrapes)
+						.orderBy(desc(scrapes.fetchedAt));
+
+					return Response.json(rows);
+				} catch (error) {
+					console.error("List scrapes error:", error);
+					return Response.json(
+						{ error: "Failed to list scrapes" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/scrapes/:id": {
+			async GET(req) {
+				try {
+					const scrape = await getScrape(req.params.id);
+
+					if (!scrape) {
+						return Response.json(
+							{ error: "Scrape not found" },
+							{ status: 404 },
+						);
+					}
+
+					return Response.json(toScrapeResult(scrape));
+				} catch (error) {
+					console.error("Get scrape error:", error);
+					return Response.json(
+						{ error: "Failed to get scrape" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			async DELETE(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json(
+							{ error: "Scrape not found" },
+							{ status: 404 },
+						);
+					}
+
+					await db.delete(scrapes).where(eq(scrapes.id, req.params.id));
+
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Delete scrape error:", error);
+					return Response.json(
+						{ error: "Failed to delete scrape" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Search, filter and page through a stored scrape's comments
+		"/api/scrapes/:id/comments": {
+			async GET(req) {
+				try {
+					const scrape = await getScrape(req.params.id);
+
+					if (!scrape) {
+						return Response.json(
+							{ error: "Scrape not found" },
+							{ status: 404 },
+						);
+					}
+
+					const query = parseCommentQuery(new URL(req.url).searchParams);
+					if ("error" in query) {
+						return Response.json({ error: query.error }, { status: 400 });
+					}
+
+					const page = await searchScrapeComments(scrape, query);
+					if ("error" in page) {
+						return Response.json({ error: page.error }, { status: 400 });
+					}
+
+					return Response.json(page);
+				} catch (error) {
+					console.error("Search scrape comments error:", error);
+					return Response.json(
+						{ error: "Failed to search comments" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Commenters index - usernames across every stored scrape
+		"/api/commenters": {
+			async GET(req) {
+				try {
+					const query = parseCommenterQuery(new URL(req.url).searchParams);
+					if ("error" in query) {
+						return Response.json({ error: query.error }, { status: 400 });
+					}
+
+					return Response.json(await listCommenters(query));
+				} catch (error) {
+					console.error("List commenters error:", error);
+					return Response.json(
+						{ error: "Failed to list commenters" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/commenters/:platform/:username": {
+			async GET(req) {
+				try {
+					const profile = await getCommenterProfile(
+						req.params.platform,
+						req.params.username,
+					);
+
+					if (!profile) {
+						return Response.json(
+							{ error: "Commenter not found" },
+							{ status: 404 },
+						);
+					}
+
+					return Response.json(profile);
+				} catch (error) {
+					console.error("Get commenter error:", error);
+					return Response.json(
+						{ error: "Failed to get commenter" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Watchlist - videos re-scraped on a schedule, with a diff per run
+		"/api/watches": {
+			async GET() {
+				try {
+					const watches = await db
+						.select()
+						.from(watchedVideos)
+						.orderBy(desc(watchedVideos.createdAt));
+
+					return Response.json(watches);
+				} catch (error) {
+					console.error("List watches error:", error);
+					return Response.json(
+						{ error: "Failed to list watches" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			async POST(req) {
+				try {
+					const body = (await req.json()) as {
+						url?: string;
+						intervalMinutes?: number;
+					};
+
+					if (
+						!body.intervalMinutes ||
+						!Number.isInteger(body.intervalMinutes) ||
+						body.intervalMinutes < MIN_WATCH_INTERVAL_MINUTES
+					) {
+						return Response.json(
+							{
+								error: `intervalMinutes must be a whole number of at least ${MIN_WATCH_INTERVAL_MINUTES}`,
+							},
+							{ status: 400 },
+						);
+					}
+
+					const target = await resolveScrapeTarget(body.url);
+					if ("error" in target || !body.url) {
+						return Response.json(
+							{ error: "error" in target ? target.error : "URL required" },
+							{ status: 400 },
+						);
+					}
+
+					const [watch] = await db
+						.insert(watchedVideos)
+						.values({
+							url: body.url,
+							platform: target.platform,
+							contentId: target.contentId,
+							intervalMinutes: body.intervalMinutes,
+						})
+						.returning();
+
+					return Response.json(watch, { status: 201 });
+				} catch (error) {
+					console.error("Create watch error:", error);
+					return Response.json(
+						{ error: "Failed to create watch" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/watches/:id": {
+			async GET(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					const [watch] = await db
+						.select()
+						.from(watchedVideos)
+						.where(eq(watchedVideos.id, req.params.id))
+						.limit(1);
+
+					if (!watch) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					return Response.json(watch);
+				} catch (error) {
+					console.error("Get watch error:", error);
+					return Response.json(
+						{ error: "Failed to get watch" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			async PATCH(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					const body = (await req.json()) as {
+						intervalMinutes?: number;
+						enabled?: boolean;
+					};
+
+					if (
+						body.intervalMinutes !== undefined &&
+						(!Number.isInteger(body.intervalMinutes) ||
+							body.intervalMinutes < MIN_WATCH_INTERVAL_MINUTES)
+					) {
+						return Response.json(
+							{
+								error: `intervalMinutes must be a whole number of at least ${MIN_WATCH_INTERVAL_MINUTES}`,
+							},
+							{ status: 400 },
+						);
+					}
+
+					const [watch] = await db
+						.update(watchedVideos)
+						.set({
+							...(body.intervalMinutes !== undefined && {
+								intervalMinutes: body.intervalMinutes,
+							}),
+							...(body.enabled !== undefined && { enabled: body.enabled }),
+						})
+						.where(eq(watchedVideos.id, req.params.id))
+						.returning();
+
+					if (!watch) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					return Response.json(watch);
+				} catch (error) {
+					console.error("Update watch error:", error);
+					return Response.json(
+						{ error: "Failed to update watch" },
+						{ status: 500 },
+					);
+				}
+			},
 
-						const scraper = new InstagramComment();
-						const result = await scraper.scrape(url);
+			async DELETE(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					await db
+						.delete(watchedVideos)
+						.where(eq(watchedVideos.id, req.params.id));
 
-						return Response.json({ ...result.dict, platform: "instagram" });
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Delete watch error:", error);
+					return Response.json(
+						{ error: "Failed to delete watch" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Run a watch now instead of waiting for its next scheduled run
+		"/api/watches/:id/run": {
+			async POST(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
 					}
 
-					if (platform === "facebook") {
-						if (!url) {
+					const [watch] = await db
+						.select()
+						.from(watchedVideos)
+						.where(eq(watchedVideos.id, req.params.id))
+						.limit(1);
+
+					if (!watch) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
+					}
+
+					const outcome = await watchScheduler.runWatch(watch);
+
+					switch (outcome.status) {
+						case "queued":
+							return Response.json(outcome.job, { status: 202 });
+						case "busy":
 							return Response.json(
-								{ error: "Facebook URL required" },
-								{ status: 400 },
+								{
+									error: "A scrape for this watch is already running",
+									jobId: outcome.jobId,
+								},
+								{ status: 409 },
 							);
-						}
-
-						const scraper = new FacebookComment();
-						const result = await scraper.scrape(url);
+						case "invalid":
+							return Response.json({ error: outcome.error }, { status: 422 });
+					}
+				} catch (error) {
+					console.error("Run watch error:", error);
+					return Response.json(
+						{ error: "Failed to run watch" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
 
-						return Response.json({ ...result.dict, platform: "facebook" });
+		// Run history without the diffs, newest first
+		"/api/watches/:id/runs": {
+			async GET(req) {
+				try {
+					if (!isUuid(req.params.id)) {
+						return Response.json({ error: "Watch not found" }, { status: 404 });
 					}
 
-					// Unknown platform
+					const runs = await db
+						.select({
+							id: watchRuns.id,
+							watchId: watchRuns.watchId,
+							jobId: watchRuns.jobId,
+							scrapeId: watchRuns.scrapeId,
+							status: watchRuns.status,
+							error: watchRuns.error,
+							commentCount: watchRuns.commentCount,
+							addedCount: watchRuns.addedCount,
+							deletedCount: watchRuns.deletedCount,
+							editedCount: watchRuns.editedCount,
+							createdAt: watchRuns.createdAt,
+						})
+						.from(watchRuns)
+						.where(eq(watchRuns.watchId, req.params.id))
+						.orderBy(desc(watchRuns.createdAt));
+
+					return Response.json(runs);
+				} catch (error) {
+					console.error("List watch runs error:", error);
 					return Response.json(
-						{
-							error:
-								"Unsupported platform. Please enter a TikTok, YouTube, Instagram, or Facebook URL.",
-						},
-						{ status: 400 },
+						{ error: "Failed to list watch runs" },
+						{ status: 500 },
 					);
+				}
+			},
+		},
+
+		// Single run including the diff against the previous run
+		"/api/watches/:id/runs/:runId": {
+			async GET(req) {
+				try {
+					if (!isUuid(req.params.id) || !isUuid(req.params.runId)) {
+						return Response.json({ error: "Run not found" }, { status: 404 });
+					}
+
+					const [run] = await db
+						.select()
+						.from(watchRuns)
+						.where(
+							and(
+								eq(watchRuns.id, req.params.runId),
+								eq(watchRuns.watchId, req.params.id),
+							),
+						)
+						.limit(1);
+
+					if (!run) {
+						return Response.json({ error: "Run not found" }, { status: 404 });
+					}
+
+					return Response.json(run);
 				} catch (error) {
-					console.error("Scrape error:", error);
+					console.error("Get watch run error:", error);
 					return Response.json(
-						{
-							error: error instanceof Error ? error.message : "Scraping failed",
-						},
+						{ error: "Failed to get watch run" },
 						{ status: 500 },
 					);
 				}
 			},
 		},
 
+		// Health of the scraper proxy pool (credentials are left out)
+		"/api/proxies": {
+			GET() {
+				return Response.json({ proxies: proxyPool.getStatus() });
+			},
+		},
+
 		// Session management API endpoints
 		"/api/session/status": {
 			GET() {
@@ -196,16 +729,11 @@ const server = serve({
 		"/api/session/login": {
 			async GET(req) {
 				const url = new URL(req.url);
-				const platform = url.searchParams.get(
-					"platform",
-				) as SessionPlatform | null;
-
-				if (
-					!platform ||
-					!["instagram", "facebook", "youtube"].includes(platform)
-				) {
+				const platform = url.searchParams.get("platform");
+
+				if (!isAuthPlatform(platform)) {
 					return Response.json(
-						{ error: "Invalid platform. Use: instagram, facebook, or youtube" },
+						{ error: INVALID_SESSION_PLATFORM },
 						{ status: 400 },
 					);
 				}
@@ -218,16 +746,11 @@ const server = serve({
 		"/api/session/complete": {
 			async GET(req) {
 				const url = new URL(req.url);
-				const platform = url.searchParams.get(
-					"platform",
-				) as SessionPlatform | null;
-
-				if (
-					!platform ||
-					!["instagram", "facebook", "youtube"].includes(platform)
-				) {
+				const platform = url.searchParams.get("platform");
+
+				if (!isAuthPlatform(platform)) {
 					return Response.json(
-						{ error: "Invalid platform. Use: instagram, facebook, or youtube" },
+						{ error: INVALID_SESSION_PLATFORM },
 						{ status: 400 },
 					);
 				}
@@ -247,21 +770,16 @@ const server = serve({
 		"/api/session/clear": {
 			async GET(req) {
 				const url = new URL(req.url);
-				const platform = url.searchParams.get(
-					"platform",
-				) as SessionPlatform | null;
-
-				if (
-					platform &&
-					!["instagram", "facebook", "youtube"].includes(platform)
-				) {
-					return Response.json(
-						{ error: "Invalid platform. Use: instagram, facebook, or youtube" },
-						{ status: 400 },
-					);
-				}
+				const platform = url.searchParams.get("platform");
 
 				if (platform) {
+					if (!isAuthPlatform(platform)) {
+						return Response.json(
+							{ error: INVALID_SESSION_PLATFORM },
+							{ status: 400 },
+						);
+					}
+
 					const success = sessionManager.clearSession(platform);
 					return Response.json({
 						success,
@@ -559,11 +1077,23 @@ const server = serve({
 						.from(boardGroups)
 						.where(eq(boardGroups.boardId, board.id));
 
+					const shapes = await db
+						.select()
+						.from(boardShapes)
+						.where(eq(boardShapes.boardId, board.id));
+
+					const texts = await db
+						.select()
+						.from(boardTexts)
+						.where(eq(boardTexts.boardId, board.id));
+
 					return Response.json({
 						...board,
 						comments,
 						edges,
 						groups,
+						shapes,
+						texts,
 					});
 				} catch (error) {
 					console.error("Get board error:", error);
@@ -592,8 +1122,41 @@ const server = serve({
 			},
 		},
 
-		// Add comments to existing board
 		"/api/boards/:slug/comments": {
+			// Search, filter and page through a board's comments
+			async GET(req) {
+				try {
+					const [board] = await db
+						.select({ id: boards.id })
+						.from(boards)
+						.where(eq(boards.publicSlug, req.params.slug))
+						.limit(1);
+
+					if (!board) {
+						return Response.json({ error: "Board not found" }, { status: 404 });
+					}
+
+					const query = parseCommentQuery(new URL(req.url).searchParams);
+					if ("error" in query) {
+						return Response.json({ error: query.error }, { status: 400 });
+					}
+
+					const page = await searchBoardComments(board.id, query);
+					if ("error" in page) {
+						return Response.json({ error: page.error }, { status: 400 });
+					}
+
+					return Response.json(page);
+				} catch (error) {
+					console.error("Search board comments error:", error);
+					return Response.json(
+						{ error: "Failed to search comments" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			// Add comments to existing board
 			async POST(req) {
 				try {
 					const slug = req.params.slug;
@@ -830,6 +1393,23 @@ const server = serve({
 									...(update.color !== undefined && { color: update.color }),
 								})
 								.where(eq(boardGroups.id, update.id));
+						} else if (update.type === "shape" || update.type === "text") {
+							const table = update.type === "shape" ? boardShapes : boardTexts;
+							await db
+								.update(table)
+								.set({
+									...(update.positionX !== undefined && {
+										positionX: update.positionX,
+									}),
+									...(update.positionY !== undefined && {
+										positionY: update.positionY,
+									}),
+									...(update.width !== undefined && { width: update.width }),
+									...(update.height !== undefined && { height: update.height }),
+									...(update.color !== undefined && { color: update.color }),
+									...(update.zIndex !== undefined && { zIndex: update.zIndex }),
+								})
+								.where(eq(table.id, update.id));
 						} else {
 							await db
 								.update(boardComments)
@@ -964,6 +1544,298 @@ const server = serve({
 			},
 		},
 
+		// Cluster ungrouped comments by topic into new labeled groups
+		"/api/boards/:slug/auto-group": {
+			async POST(req) {
+				try {
+					const body = (await req.json().catch(() => ({}))) as {
+						k?: number;
+					};
+
+					if (
+						body.k !== undefined &&
+						(!Number.isInteger(body.k) || body.k < 1 || body.k > 50)
+					) {
+						return Response.json(
+							{ error: "k must be a number between 1 and 50" },
+							{ status: 400 },
+						);
+					}
+
+					const [board] = await db
+						.select({ id: boards.id })
+						.from(boards)
+						.where(eq(boards.publicSlug, req.params.slug))
+						.limit(1);
+
+					if (!board) {
+						return Response.json({ error: "Board not found" }, { status: 404 });
+					}
+
+					const result = await autoGroupBoard(board.id, { k: body.k });
+
+					return Response.json(result);
+				} catch (error) {
+					console.error("Auto-group error:", error);
+					return Response.json(
+						{ error: "Failed to group comments" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Shapes management
+		"/api/boards/:slug/shapes": {
+			async POST(req) {
+				try {
+					const slug = req.params.slug;
+					const body = (await req.json()) as {
+						shapeType: string;
+						positionX: number;
+						positionY: number;
+						width?: number;
+						height?: number;
+						color?: string;
+						borderColor?: string;
+						zIndex?: number;
+					};
+
+					if (!BOARD_SHAPE_TYPES.includes(body.shapeType)) {
+						return Response.json(
+							{ error: "Invalid shape type" },
+							{ status: 400 },
+						);
+					}
+
+					const [board] = await db
+						.select()
+						.from(boards)
+						.where(eq(boards.publicSlug, slug))
+						.limit(1);
+
+					if (!board) {
+						return Response.json({ error: "Board not found" }, { status: 404 });
+					}
+
+					const [shape] = await db
+						.insert(boardShapes)
+						.values({
+							boardId: board.id,
+							shapeType: body.shapeType,
+							positionX: body.positionX,
+							positionY: body.positionY,
+							width: body.width,
+							height: body.height,
+							color: body.color,
+							borderColor: body.borderColor,
+							zIndex: body.zIndex,
+						})
+						.returning();
+
+					return Response.json(shape);
+				} catch (error) {
+					console.error("Create shape error:", error);
+					return Response.json(
+						{ error: "Failed to create shape" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/boards/:slug/shapes/:shapeId": {
+			async PATCH(req) {
+				try {
+					const { shapeId } = req.params;
+					const body = (await req.json()) as {
+						shapeType?: string;
+						positionX?: number;
+						positionY?: number;
+						width?: number;
+						height?: number;
+						color?: string;
+						borderColor?: string;
+						zIndex?: number;
+					};
+
+					if (
+						body.shapeType !== undefined &&
+						!BOARD_SHAPE_TYPES.includes(body.shapeType)
+					) {
+						return Response.json(
+							{ error: "Invalid shape type" },
+							{ status: 400 },
+						);
+					}
+
+					await db
+						.update(boardShapes)
+						.set({
+							...(body.shapeType !== undefined && {
+								shapeType: body.shapeType,
+							}),
+							...(body.positionX !== undefined && {
+								positionX: body.positionX,
+							}),
+							...(body.positionY !== undefined && {
+								positionY: body.positionY,
+							}),
+							...(body.width !== undefined && { width: body.width }),
+							...(body.height !== undefined && { height: body.height }),
+							...(body.color !== undefined && { color: body.color }),
+							...(body.borderColor !== undefined && {
+								borderColor: body.borderColor,
+							}),
+							...(body.zIndex !== undefined && { zIndex: body.zIndex }),
+						})
+						.where(eq(boardShapes.id, shapeId));
+
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Update shape error:", error);
+					return Response.json(
+						{ error: "Failed to update shape" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			async DELETE(req) {
+				try {
+					const { shapeId } = req.params;
+
+					await db.delete(boardShapes).where(eq(boardShapes.id, shapeId));
+
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Delete shape error:", error);
+					return Response.json(
+						{ error: "Failed to delete shape" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		// Text annotations management
+		"/api/boards/:slug/texts": {
+			async POST(req) {
+				try {
+					const slug = req.params.slug;
+					const body = (await req.json()) as {
+						text?: string;
+						positionX: number;
+						positionY: number;
+						width?: number;
+						height?: number;
+						fontSize?: number;
+						fontWeight?: "normal" | "bold";
+						color?: string;
+						zIndex?: number;
+					};
+
+					const [board] = await db
+						.select()
+						.from(boards)
+						.where(eq(boards.publicSlug, slug))
+						.limit(1);
+
+					if (!board) {
+						return Response.json({ error: "Board not found" }, { status: 404 });
+					}
+
+					const [text] = await db
+						.insert(boardTexts)
+						.values({
+							boardId: board.id,
+							text: body.text,
+							positionX: body.positionX,
+							positionY: body.positionY,
+							width: body.width,
+							height: body.height,
+							fontSize: body.fontSize,
+							fontWeight: body.fontWeight,
+							color: body.color,
+							zIndex: body.zIndex,
+						})
+						.returning();
+
+					return Response.json(text);
+				} catch (error) {
+					console.error("Create text error:", error);
+					return Response.json(
+						{ error: "Failed to create text" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
+		"/api/boards/:slug/texts/:textId": {
+			async PATCH(req) {
+				try {
+					const { textId } = req.params;
+					const body = (await req.json()) as {
+						text?: string;
+						positionX?: number;
+						positionY?: number;
+						width?: number;
+						height?: number;
+						fontSize?: number;
+						fontWeight?: "normal" | "bold";
+						color?: string;
+						zIndex?: number;
+					};
+
+					await db
+						.update(boardTexts)
+						.set({
+							...(body.text !== undefined && { text: body.text }),
+							...(body.positionX !== undefined && {
+								positionX: body.positionX,
+							}),
+							...(body.positionY !== undefined && {
+								positionY: body.positionY,
+							}),
+							...(body.width !== undefined && { width: body.width }),
+							...(body.height !== undefined && { height: body.height }),
+							...(body.fontSize !== undefined && { fontSize: body.fontSize }),
+							...(body.fontWeight !== undefined && {
+								fontWeight: body.fontWeight,
+							}),
+							...(body.color !== undefined && { color: body.color }),
+							...(body.zIndex !== undefined && { zIndex: body.zIndex }),
+						})
+						.where(eq(boardTexts.id, textId));
+
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Update text error:", error);
+					return Response.json(
+						{ error: "Failed to update text" },
+						{ status: 500 },
+					);
+				}
+			},
+
+			async DELETE(req) {
+				try {
+					const { textId } = req.params;
+
+					await db.delete(boardTexts).where(eq(boardTexts.id, textId));
+
+					return Response.json({ success: true });
+				} catch (error) {
+					console.error("Delete text error:", error);
+					return Response.json(
+						{ error: "Failed to delete text" },
+						{ status: 500 },
+					);
+				}
+			},
+		},
+
 		// Edges management
 		"/api/boards/:slug/edges": {
 			async POST(req) {
@@ -1026,7 +1898,9 @@ const server = serve({
 		"/api/generate-zip": {
 			async POST(req) {
 				try {
-					const data = (await req.json()) as CommentsData;
+					const data = (await req.json()) as CommentsData & {
+						platform?: string;
+					};
 
 					if (!data.comments || !Array.isArray(data.comments)) {
 						return Response.json({ error: "Invalid data" }, { status: 400 });
@@ -1044,20 +1918,24 @@ const server = serve({
 						name: "comments.json",
 					});
 
-					// Generate SVG images for each comment
-					for (const comment of data.comments) {
-						const svg = generateCommentSvg(comment);
-						archive.append(svg, {
-							name: `comments/${comment.comment_id}.svg`,
-						});
+					// One PNG card per comment sent: parents as a thread with the
+					// replies attached to them, replies on their own
+					const cards: RenderCard[] = data.comments.map((comment) => ({
+						name: `comments/${comment.comment_id}.png`,
+						comment,
+						replies: comment.parent_comment_id ? [] : comment.replies,
+					}));
 
-						// Generate images for replies too
-						for (const reply of comment.replies) {
-							const replySvg = generateCommentSvg(reply, true);
-							archive.append(replySvg, {
-								name: `replies/${reply.comment_id}.svg`,
-							});
-						}
+					// Only known IDs, it ends up in the download's file name
+					const platform = getPlatform(data.platform)?.id ?? "tiktok";
+
+					const images = await renderCommentCards(
+						new URL("/render", server.url).toString(),
+						{ platform, cards },
+					);
+
+					for (const image of images) {
+						archive.append(image.png, { name: image.name });
 					}
 
 					await archive.finalize();
@@ -1070,8 +1948,7 @@ const server = serve({
 					return new Response(buffer, {
 						headers: {
 							"Content-Type": "application/zip",
-							"Content-Disposition":
-								'attachment; filename="tiktok-comments.zip"',
+							"Content-Disposition": `attachment; filename="${platform}-comments.zip"`,
 						},
 					});
 				} catch (error) {
@@ -1097,128 +1974,16 @@ const server = serve({
 	},
 });
 
-function generateCommentSvg(comment: CommentData, isReply = false): string {
-	const width = 800;
-	const padding = 24;
-	const avatarSize = 48;
-
-	// Calculate text wrapping
-	const maxCharsPerLine = 70;
-	const lines = wrapText(comment.comment, maxCharsPerLine);
-	const lineHeight = 24;
-	const textHeight = lines.length * lineHeight;
-	const height = Math.max(140, 80 + textHeight + padding);
-
-	// Escape special characters for SVG
-	const escapeXml = (str: string) => {
-		return str
-			.replace(/&/g, "&amp;")
-			.replace(/</g, "&lt;")
-			.replace(/>/g, "&gt;")
-			.replace(/"/g, "&quot;")
-			.replace(/'/g, "&apos;");
-	};
-
-	const gradientId = `grad-${comment.comment_id}`;
-	// Using theme-compatible colors (dark mode friendly)
-	const bgColor = isReply ? "#1a1a2e" : "#0f0f1a";
-	// Using secondary and primary theme color approximations
-	const borderColor = isReply ? "#6366f1" : "#e05d50"; // primary-ish vs secondary-ish
-
-	return `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
-  <defs>
-    <linearGradient id="${gradientId}" x1="0%" y1="0%" x2="100%" y2="0%">
-      <stop offset="0%" style="stop-color:#e05d50;stop-opacity:1" />
-      <stop offset="50%" style="stop-color:#6366f1;stop-opacity:1" />
-      <stop offset="100%" style="stop-color:#5d9de0;stop-opacity:1" />
-    </linearGradient>
-    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
-      <feDropShadow dx="0" dy="4" stdDeviation="8" flood-color="rgba(0,0,0,0.3)"/>
-    </filter>
-  </defs>
-  
-  <!-- Background -->
-  <rect width="${width}" height="${height}" fill="${bgColor}" rx="16"/>
-  
-  <!-- Gradient Border -->
-  <rect x="2" y="2" width="${width - 4}" height="${
-		height - 4
-	}" fill="none" stroke="url(#${gradientId})" stroke-width="2" rx="14"/>
-  
-  <!-- Avatar placeholder circle -->
-  <circle cx="${padding + avatarSize / 2}" cy="${
-		padding + avatarSize / 2
-	}" r="${avatarSize / 2}" fill="#374151"/>
-  <text x="${padding + avatarSize / 2}" y="${
-		padding + avatarSize / 2 + 6
-	}" text-anchor="middle" fill="#9ca3af" font-size="20" font-family="Inter, sans-serif">${escapeXml(
-		comment.nickname.charAt(0).toUpperCase(),
-	)}</text>
-  
-  <!-- Username -->
-  <text x="${padding + avatarSize + 16}" y="${
-		padding + 20
-	}" fill="#ffffff" font-size="16" font-weight="600" font-family="Inter, sans-serif">${escapeXml(
-		comment.nickname,
-	)}</text>
-  <text x="${padding + avatarSize + 16}" y="${
-		padding + 40
-	}" fill="#64748b" font-size="12" font-family="Inter, sans-serif">@${escapeXml(
-		comment.username,
-	)}</text>
-  
-  <!-- Comment text -->
-  ${lines
-		.map(
-			(line, i) =>
-				`<text x="${padding + avatarSize + 16}" y="${
-					padding + 70 + i * lineHeight
-				}" fill="#e2e8f0" font-size="14" font-family="Inter, sans-serif">${escapeXml(
-					line,
-				)}</text>`,
-		)
-		.join("\n  ")}
-  
-  <!-- Timestamp -->
-  <text x="${padding + avatarSize + 16}" y="${
-		height - padding
-	}" fill="#64748b" font-size="11" font-family="Inter, sans-serif">${escapeXml(
-		comment.create_time,
-	)}</text>
-  
-  <!-- Reply count badge -->
-  ${
-		comment.total_reply > 0
-			? `<rect x="${width - 100}" y="${
-					height - 36
-				}" width="80" height="24" fill="${borderColor}" rx="12" opacity="0.2"/>
-  <text x="${width - 60}" y="${
-		height - 20
-	}" text-anchor="middle" fill="${borderColor}" font-size="11" font-weight="500" font-family="Inter, sans-serif">${
-		comment.total_reply
-	} replies</text>`
-			: ""
-	}
-</svg>`;
-}
-
-function wrapText(text: string, maxChars: number): string[] {
-	const words = text.split(" ");
-	const lines: string[] = [];
-	let currentLine = "";
-
-	for (const word of words) {
-		if (currentLine.length + word.length + 1 <= maxChars) {
-			currentLine += (currentLine ? " " : "") + word;
-		} else {
-			if (currentLine) lines.push(currentLine);
-			currentLine = word;
-		}
-	}
-	if (currentLine) lines.push(currentLine);
-
-	return lines;
-}
+// Pick up jobs that were queued or running before a restart
+scrapeQueue.resume().catch((error) => {
+	console.error("Failed to resume scrape jobs:", error);
+});
+
+// Scrapes stored before scrape_comments existed, for the commenter pages
+indexStoredScrapes().catch((error) => {
+	console.error("Failed to index stored scrapes:", error);
+});
+
+watchScheduler.start();
 
 console.log(`🚀 TikTok Comment Scraper running at ${server.url}`);
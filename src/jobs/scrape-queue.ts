@@ -0,0 +1,339 @@
+import { eq, inArray } from "drizzle-orm";
+import { db } from "../db/client";
+import {
+	type ScrapeJob,
+	type ScrapeJobProgress,
+	scrapeJobs,
+} from "../db/schema";
+import {
+	getScrape,
+	type StoredScrapeResult,
+	saveScrape,
+	toScrapeResult,
+	updateScrape,
+} from "../db/scrapes";
+import { recordFailedWatchRun, recordWatchRun } from "../db/watches";
+import { runScrape, type ScrapePlatform, type ScrapeTarget } from "../scraper";
+import { Comments, type ScrapeProgressEvent } from "../types";
+import { isUuid, logger } from "../utils";
+
+export type ScrapeJobStatus = "queued" | "running" | "done" | "failed";
+
+// Live events delivered to subscribers of a running job
+export type ScrapeJobEvent =
+	| { event: "progress"; data: ScrapeProgressEvent }
+	| { event: "done"; data: { id: string } }
+	| { event: "failed"; data: { id: string; error: string } };
+
+export type ScrapeJobListener = (event: ScrapeJobEvent) => void;
+
+// Job row as returned by the API, with the stored scrape attached once done
+export type ScrapeJobWithResult = ScrapeJob & {
+	result: StoredScrapeResult | null;
+};
+
+export interface EnqueueOptions {
+	// Stored scrape to update incrementally
+	previousScrapeId?: string;
+	// Watched video the job was scheduled for
+	watchId?: string;
+}
+
+// Number of scrapes allowed to run at the same time (each one owns a browser)
+const CONCURRENCY = process.env.SCRAPE_CONCURRENCY
+	? Number.parseInt(process.env.SCRAPE_CONCURRENCY, 10)
+	: 1;
+
+// Minimum time between progress snapshot writes to the database
+const PROGRESS_PERSIST_INTERVAL_MS = 2000;
+
+/**
+ * Fold a scraper progress event into the job's stored progress snapshot
+ */
+function applyProgressEvent(
+	progress: ScrapeJobProgress,
+	event: ScrapeProgressEvent,
+): ScrapeJobProgress {
+	switch (event.type) {
+		case "status":
+			return { ...progress, message: event.message };
+		case "page":
+			return {
+				...progress,
+				page: event.page,
+				message: `Fetching page ${event.page}`,
+			};
+		case "comments":
+			return {
+				...progress,
+				fetched: event.fetched,
+				total: event.total ?? progress.total,
+				message: event.total
+					? `Fetched ${event.fetched} of ${event.total} comments`
+					: `Fetched ${event.fetched} comments`,
+			};
+		case "replies":
+			return {
+				...progress,
+				message: `Fetching replies (${event.fetched}/${event.total})`,
+			};
+	}
+}
+
+export class ScrapeQueue {
+	private pending: string[] = [];
+	private activeCount = 0;
+	private listeners = new Map<string, Set<ScrapeJobListener>>();
+
+	/**
+	 * Persist a new job and schedule it to run in the background. Passing a
+	 * stored scrape makes the job only fetch what's new and update that scrape.
+	 */
+	async enqueue(
+		target: ScrapeTarget,
+		options: EnqueueOptions = {},
+	): Promise<ScrapeJob> {
+		const [job] = await db
+			.insert(scrapeJobs)
+			.values({
+				platform: target.platform,
+				input: target.input,
+				contentId: target.contentId,
+				incremental: options.previousScrapeId !== undefined,
+				scrapeId: options.previousScrapeId,
+				watchId: options.watchId,
+				status: "queued",
+				progress: { message: "Waiting in queue" },
+			})
+			.returning();
+
+		if (!job) {
+			throw new Error("Failed to create scrape job");
+		}
+
+		logger.info(`Queued ${target.platform} scrape job ${job.id}`);
+		this.pending.push(job.id);
+		this.drain();
+
+		return job;
+	}
+
+	async getJob(id: string): Promise<ScrapeJob | undefined> {
+		if (!isUuid(id)) return undefined;
+
+		const [job] = await db
+			.select()
+			.from(scrapeJobs)
+			.where(eq(scrapeJobs.id, id))
+			.limit(1);
+
+		return job;
+	}
+
+	async getJobWithResult(id: string): Promise<ScrapeJobWithResult | undefined> {
+		const job = await this.getJob(id);
+		if (!job) return undefined;
+
+		const scrape = job.scrapeId ? await getScrape(job.scrapeId) : undefined;
+
+		return { ...job, result: scrape ? toScrapeResult(scrape) : null };
+	}
+
+	/**
+	 * Listen to live events of a job. Returns a function that unsubscribes.
+	 */
+	subscribe(jobId: string, listener: ScrapeJobListener): () => void {
+		let jobListeners = this.listeners.get(jobId);
+		if (!jobListeners) {
+			jobListeners = new Set();
+			this.listeners.set(jobId, jobListeners);
+		}
+		jobListeners.add(listener);
+
+		return () => {
+			jobListeners.delete(listener);
+			if (jobListeners.size === 0) {
+				this.listeners.delete(jobId);
+			}
+		};
+	}
+
+	private emit(jobId: string, event: ScrapeJobEvent): void {
+		for (const listener of this.listeners.get(jobId) ?? []) {
+			try {
+				listener(event);
+			} catch (error) {
+				logger.warn(`Job listener failed: ${error}`);
+			}
+		}
+	}
+
+	/**
+	 * Re-queue jobs left unfinished by a previous server process
+	 */
+	async resume(): Promise<void> {
+		// Jobs that were running when the server stopped lost their browser
+		const unfinished = await db
+			.update(scrapeJobs)
+			.set({ status: "queued", progress: { message: "Waiting in queue" } })
+			.where(inArray(scrapeJobs.status, ["queued", "running"]))
+			.returning({ id: scrapeJobs.id, createdAt: scrapeJobs.createdAt });
+
+		unfinished.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+		for (const job of unfinished) {
+			this.pending.push(job.id);
+		}
+
+		if (unfinished.length > 0) {
+			logger.info(`Resuming ${unfinished.length} unfinished scrape jobs`);
+			this.drain();
+		}
+	}
+
+	private drain(): void {
+		while (this.activeCount < CONCURRENCY && this.pending.length > 0) {
+			const jobId = this.pending.shift();
+			if (!jobId) break;
+
+			this.activeCount++;
+			this.run(jobId).finally(() => {
+				this.activeCount--;
+				this.drain();
+			});
+		}
+	}
+
+	private async updateProgress(
+		jobId: string,
+		progress: ScrapeJobProgress,
+	): Promise<void> {
+		await db
+			.update(scrapeJobs)
+			.set({ progress })
+			.where(eq(scrapeJobs.id, jobId));
+	}
+
+	private async run(jobId: string): Promise<void> {
+		let watchId: string | null = null;
+
+		try {
+			const job = await this.getJob(jobId);
+			if (!job || job.status !== "queued") return;
+			watchId = job.watchId;
+
+			await db
+				.update(scrapeJobs)
+				.set({
+					status: "running",
+					startedAt: new Date(),
+					progress: { message: "Scraping comments" },
+				})
+				.where(eq(scrapeJobs.id, jobId));
+
+			logger.info(`Running scrape job ${jobId}`);
+
+			// Stream every event live, but only persist a snapshot now and then
+			let progress: ScrapeJobProgress = { message: "Scraping comments" };
+			let lastPersistedAt = 0;
+
+			const handleProgress = (event: ScrapeProgressEvent) => {
+				this.emit(jobId, { event: "progress", data: event });
+				progress = applyProgressEvent(progress, event);
+
+				const now = Date.now();
+				if (now - lastPersistedAt >= PROGRESS_PERSIST_INTERVAL_MS) {
+					lastPersistedAt = now;
+					this.updateProgress(jobId, progress).catch((error) =>
+						logger.warn(`Failed to save job progress: ${error}`),
+					);
+				}
+			};
+
+			let previous: Comments | undefined;
+			if (job.incremental) {
+				const previousScrape = job.scrapeId
+					? await getScrape(job.scrapeId)
+					: undefined;
+				if (!previousScrape) {
+					throw new Error("Previous scrape not found");
+				}
+				previous = Comments.fromDict(toScrapeResult(previousScrape));
+			}
+
+			const result = await runScrape(
+				{
+					platform: job.platform as ScrapePlatform,
+					input: job.input,
+					contentId: job.contentId,
+				},
+				handleProgress,
+				previous,
+			);
+
+			if (result.needs_auth) {
+				throw new Error(result.auth_message || "Login required to scrape");
+			}
+
+			await this.updateProgress(jobId, { message: "Saving results" });
+
+			const scrape =
+				job.incremental && job.scrapeId
+					? await updateScrape(job.scrapeId, result.dict)
+					: await saveScrape(job.platform, job.contentId, result.dict);
+
+			if (watchId) {
+				const run = await recordWatchRun(watchId, jobId, scrape);
+				logger.info(
+					`Watch ${watchId}: ${run.addedCount} new, ${run.deletedCount} deleted, ${run.editedCount} edited comments`,
+				);
+			}
+
+			await db
+				.update(scrapeJobs)
+				.set({
+					status: "done",
+					scrapeId: scrape.id,
+					progress: {
+						message: `Scraped ${result.comments.length} comments`,
+						fetched: result.comments.length,
+					},
+					finishedAt: new Date(),
+				})
+				.where(eq(scrapeJobs.id, jobId));
+
+			logger.info(`Scrape job ${jobId} finished`);
+			this.emit(jobId, { event: "done", data: { id: jobId } });
+		} catch (error) {
+			logger.error(`Scrape job ${jobId} failed: ${error}`);
+			const message =
+				error instanceof Error ? error.message : "Scraping failed";
+
+			await db
+				.update(scrapeJobs)
+				.set({
+					status: "failed",
+					error: message,
+					finishedAt: new Date(),
+				})
+				.where(eq(scrapeJobs.id, jobId))
+				.catch((dbError) =>
+					logger.error(`Failed to record job failure: ${dbError}`),
+				);
+
+			if (watchId) {
+				await recordFailedWatchRun(watchId, jobId, message).catch((dbError) =>
+					logger.error(`Failed to record watch run failure: ${dbError}`),
+				);
+			}
+
+			this.emit(jobId, {
+				event: "failed",
+				data: { id: jobId, error: message },
+			});
+		}
+	}
+}
+
+// Singleton instance
+export const scrapeQueue = new ScrapeQueue();
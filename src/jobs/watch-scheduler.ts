@@ -0,0 +1,109 @@
+import { and, eq, inArray, lte } from "drizzle-orm";
+import { db } from "../db/client";
+import {
+	type ScrapeJob,
+	scrapeJobs,
+	type WatchedVideo,
+	watchedVideos,
+} from "../db/schema";
+import { resolveScrapeTarget } from "../scraper";
+import { logger } from "../utils";
+import { scrapeQueue } from "./scrape-queue";
+
+// How often the scheduler looks for watches that are due
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// What running a watch did: queued a job, or skipped it and why
+export type WatchRunOutcome =
+	| { status: "queued"; job: ScrapeJob }
+	| { status: "busy"; jobId: string } // A job for the watch is still active
+	| { status: "invalid"; error: string }; // The watched URL can't be scraped
+
+export class WatchScheduler {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private ticking = false;
+
+	start(): void {
+		if (this.timer) return;
+
+		this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+		this.tick();
+		logger.info("Watch scheduler started");
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Queue a scrape for a watched video and push back its next run
+	 */
+	async runWatch(watch: WatchedVideo): Promise<WatchRunOutcome> {
+		const now = new Date();
+		await db
+			.update(watchedVideos)
+			.set({
+				lastRunAt: now,
+				nextRunAt: new Date(now.getTime() + watch.intervalMinutes * 60 * 1000),
+			})
+			.where(eq(watchedVideos.id, watch.id));
+
+		// Don't pile up jobs when a scrape takes longer than the interval
+		const [activeJob] = await db
+			.select({ id: scrapeJobs.id })
+			.from(scrapeJobs)
+			.where(
+				and(
+					eq(scrapeJobs.watchId, watch.id),
+					inArray(scrapeJobs.status, ["queued", "running"]),
+				),
+			)
+			.limit(1);
+
+		if (activeJob) {
+			logger.info(`Watch ${watch.id} still has job ${activeJob.id} running`);
+			return { status: "busy", jobId: activeJob.id };
+		}
+
+		const target = await resolveScrapeTarget(watch.url);
+		if ("error" in target) {
+			logger.warn(`Skipping watch ${watch.id}: ${target.error}`);
+			return { status: "invalid", error: target.error };
+		}
+
+		const job = await scrapeQueue.enqueue(target, { watchId: watch.id });
+		return { status: "queued", job };
+	}
+
+	private async tick(): Promise<void> {
+		// A slow database shouldn't lead to overlapping ticks
+		if (this.ticking) return;
+		this.ticking = true;
+
+		try {
+			const due = await db
+				.select()
+				.from(watchedVideos)
+				.where(
+					and(
+						eq(watchedVideos.enabled, true),
+						lte(watchedVideos.nextRunAt, new Date()),
+					),
+				);
+
+			for (const watch of due) {
+				await this.runWatch(watch);
+			}
+		} catch (error) {
+			logger.error(`Watch scheduler tick failed: ${error}`);
+		} finally {
+			this.ticking = false;
+		}
+	}
+}
+
+// Singleton instance
+export const watchScheduler = new WatchScheduler();
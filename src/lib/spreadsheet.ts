@@ -0,0 +1,225 @@
+import { analysisOf } from "../analysis";
+import type { Comment } from "../hooks/use-scraper";
+
+// One spreadsheet row per comment or reply
+export interface CommentRow {
+	platform: string;
+	comment_id: string;
+	parent_comment_id: string;
+	is_reply: boolean;
+	username: string;
+	nickname: string;
+	comment: string;
+	create_time: string;
+	is_time_approximate: boolean | "";
+	is_time_unknown: boolean | "";
+	like_count: number | "";
+	total_reply: number;
+	is_pinned: boolean | "";
+	is_creator_liked: boolean | "";
+	sentiment: string;
+	toxicity: number;
+	spam: number;
+	video_url: string;
+}
+
+const COLUMNS: (keyof CommentRow)[] = [
+	"platform",
+	"comment_id",
+	"parent_comment_id",
+	"is_reply",
+	"username",
+	"nickname",
+	"comment",
+	"create_time",
+	"is_time_approximate",
+	"is_time_unknown",
+	"like_count",
+	"total_reply",
+	"is_pinned",
+	"is_creator_liked",
+	"sentiment",
+	"toxicity",
+	"spam",
+	"video_url",
+];
+
+/**
+ * Flatten scraped comments into rows, each reply following its parent
+ */
+export function commentsToRows(
+	comments: Comment[],
+	platform: string,
+	videoUrl: string,
+): CommentRow[] {
+	const rows: CommentRow[] = [];
+	const seen = new Set<string>();
+
+	const addComment = (comment: Comment, parentId?: string) => {
+		if (seen.has(comment.comment_id)) return;
+		seen.add(comment.comment_id);
+
+		const parentCommentId =
+			parentId ||
+			(comment.parent_comment_id && comment.parent_comment_id !== "0"
+				? comment.parent_comment_id
+				: "");
+		const analysis = analysisOf(comment);
+
+		rows.push({
+			platform,
+			comment_id: comment.comment_id,
+			parent_comment_id: parentCommentId,
+			is_reply: Boolean(parentCommentId),
+			username: comment.username,
+			nickname: comment.nickname,
+			comment: comment.comment,
+			create_time: comment.create_time,
+			is_time_approximate: comment.is_time_approximate ?? "",
+			is_time_unknown: comment.is_time_unknown ?? "",
+			like_count: comment.like_count ?? "",
+			total_reply: comment.total_reply,
+			is_pinned: comment.is_pinned ?? "",
+			is_creator_liked: comment.is_creator_liked ?? "",
+			sentiment: analysis.sentiment,
+			toxicity: analysis.toxicity,
+			spam: analysis.spam,
+			video_url: videoUrl,
+		});
+
+		for (const reply of comment.replies ?? []) {
+			addComment(reply, comment.comment_id);
+		}
+	};
+
+	for (const comment of comments) {
+		addComment(comment);
+	}
+
+	return rows;
+}
+
+function escapeCsvValue(value: string | number | boolean): string {
+	let text = String(value);
+
+	// Keep spreadsheet apps from evaluating comments as formulas
+	if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+		text = `'${text}`;
+	}
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function rowsToCsv(rows: CommentRow[]): Blob {
+	const lines = [
+		COLUMNS.join(","),
+		...rows.map((row) =>
+			COLUMNS.map((column) => escapeCsvValue(row[column])).join(","),
+		),
+	];
+
+	// BOM so Excel opens the file as UTF-8 (emoji, non-Latin usernames)
+	return new Blob([`\uFEFF${lines.join("\r\n")}`], {
+		type: "text/csv;charset=utf-8",
+	});
+}
+
+function escapeXml(text: string): string {
+	return (
+		text
+			.replace(/&/g, "&amp;")
+			.replace(/</g, "&lt;")
+			.replace(/>/g, "&gt;")
+			.replace(/"/g, "&quot;")
+			// Control characters are not allowed in XML 1.0
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+			.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+	);
+}
+
+// Spreadsheet column letters: A..Z, AA..
+function columnName(index: number): string {
+	let name = "";
+	let n = index + 1;
+	while (n > 0) {
+		const remainder = (n - 1) % 26;
+		name = String.fromCharCode(65 + remainder) + name;
+		n = Math.floor((n - 1) / 26);
+	}
+	return name;
+}
+
+function xlsxCell(value: string | number | boolean, ref: string): string {
+	if (value === "") {
+		return "";
+	}
+	if (typeof value === "number") {
+		return `<c r="${ref}"><v>${value}</v></c>`;
+	}
+	if (typeof value === "boolean") {
+		return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+	}
+	return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Build a single-sheet XLSX workbook. Only the minimal OOXML parts are
+ * written, with inline strings so no shared string table is needed.
+ */
+export async function rowsToXlsx(rows: CommentRow[]): Promise<Blob> {
+	const JSZip = (await import("jszip")).default;
+	const zip = new JSZip();
+
+	const sheetRows = [
+		COLUMNS,
+		...rows.map((row) => COLUMNS.map((column) => row[column])),
+	].map(
+		(values, rowIndex) =>
+			`<row r="${rowIndex + 1}">${values
+				.map((value, columnIndex) =>
+					xlsxCell(value, `${columnName(columnIndex)}${rowIndex + 1}`),
+				)
+				.join("")}</row>`,
+	);
+
+	zip.file(
+		"[Content_Types].xml",
+		`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+	);
+	zip.file(
+		"_rels/.rels",
+		`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+	);
+	zip.file(
+		"xl/workbook.xml",
+		`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Comments" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+	);
+	zip.file(
+		"xl/_rels/workbook.xml.rels",
+		`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+	);
+	zip.file(
+		"xl/worksheets/sheet1.xml",
+		`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${sheetRows.join("")}</sheetData></worksheet>`,
+	);
+
+	return zip.generateAsync({
+		type: "blob",
+		mimeType:
+			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	});
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
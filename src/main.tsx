@@ -11,6 +11,7 @@ import { App } from "./App.tsx";
 import "./globals.css";
 import { useRouter } from "./hooks/use-router.ts";
 import { BoardPage } from "./pages/BoardPage.tsx";
+import { UserPage } from "./pages/UserPage.tsx";
 
 const queryClient = new QueryClient({
 	defaultOptions: {
@@ -22,12 +23,23 @@ const queryClient = new QueryClient({
 });
 
 function Router() {
-	const { page, slug, navigateToHome, navigateToBoard } = useRouter();
+	const { page, slug, platform, username, navigateToHome, navigateToBoard } =
+		useRouter();
 
 	if (page === "board" && slug) {
 		return <BoardPage slug={slug} onBack={navigateToHome} />;
 	}
 
+	if (page === "user" && platform && username) {
+		return (
+			<UserPage
+				platform={platform}
+				username={username}
+				onBack={navigateToHome}
+			/>
+		);
+	}
+
 	return <App navigateToBoard={navigateToBoard} />;
 }
 
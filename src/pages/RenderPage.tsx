@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from "react";
+import { ExportThreadView } from "../components/export-thread-view";
+import { getPlatformInfo, isSupportedPlatform } from "../platforms";
+import type { RenderRequest } from "../types";
+
+declare global {
+	interface Window {
+		// Called by the server's headless browser; resolves once cards are painted
+		renderCards?: (request: RenderRequest) => Promise<void>;
+	}
+}
+
+/**
+ * Wait until every image has loaded (or failed and fallen back to initials)
+ */
+async function waitForImages(container: HTMLElement): Promise<void> {
+	const images = Array.from(container.querySelectorAll("img"));
+	await Promise.all(
+		images.map((img) =>
+			img.complete
+				? Promise.resolve()
+				: new Promise<void>((resolve) => {
+						img.addEventListener("load", () => resolve(), { once: true });
+						img.addEventListener("error", () => resolve(), { once: true });
+					}),
+		),
+	);
+}
+
+export function RenderPage() {
+	const [request, setRequest] = useState<RenderRequest | null>(null);
+	const containerRef = useRef<HTMLDivElement>(null);
+	const resolveRef = useRef<(() => void) | null>(null);
+
+	useEffect(() => {
+		window.renderCards = (nextRequest) =>
+			new Promise((resolve) => {
+				resolveRef.current = resolve;
+				setRequest(nextRequest);
+			});
+
+		return () => {
+			window.renderCards = undefined;
+		};
+	}, []);
+
+	// Runs after the cards are committed to the DOM
+	useEffect(() => {
+		if (!request || !containerRef.current) return;
+
+		const container = containerRef.current;
+		(async () => {
+			await waitForImages(container);
+			// Failed avatars re-render as initials, give React a frame for that
+			await new Promise((resolve) => requestAnimationFrame(resolve));
+			await document.fonts.ready;
+			resolveRef.current?.();
+			resolveRef.current = null;
+		})();
+	}, [request]);
+
+	const platform = request?.platform ?? "unknown";
+	const { themeStyle } = getPlatformInfo(
+		isSupportedPlatform(platform) ? platform : "unknown",
+	);
+
+	return (
+		<div
+			ref={containerRef}
+			className="flex flex-col items-start gap-4 p-4 bg-background"
+			style={themeStyle}
+		>
+			{request?.cards.map((card) => (
+				<div key={card.name} data-render-card={card.name}>
+					<ExportThreadView comment={card.comment} replies={card.replies} />
+				</div>
+			))}
+		</div>
+	);
+}
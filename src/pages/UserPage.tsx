@@ -0,0 +1,268 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+	AlertCircle,
+	ArrowLeft,
+	ExternalLink,
+	History,
+	Loader2,
+	MessageSquare,
+} from "lucide-react";
+import { TikTokComment } from "../components/tiktok-comment";
+import { Alert, AlertDescription } from "../components/ui/alert";
+import { Badge } from "../components/ui/badge";
+import { Button } from "../components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+} from "../components/ui/card";
+import type { Comment } from "../hooks/use-scraper";
+import { getPlatformInfo, isSupportedPlatform } from "../platforms";
+
+// Response of GET /api/commenters/:platform/:username
+interface HistoryEntry {
+	value: string;
+	firstSeen: string;
+	lastSeen: string;
+}
+
+interface CommenterProfile {
+	platform: string;
+	username: string;
+	nickname: string;
+	avatar: string;
+	firstSeen: string;
+	lastSeen: string;
+	comments: number;
+	replies: number;
+	videos: number;
+	activeDays: number;
+	commentsPerWeek: number;
+	nicknames: HistoryEntry[];
+	avatars: HistoryEntry[];
+	history: {
+		scrapeId: string;
+		contentId: string;
+		url: string | null;
+		caption: string | null;
+		fetchedAt: string;
+		comments: Comment[];
+	}[];
+}
+
+interface UserPageProps {
+	platform: string;
+	username: string;
+	onBack: () => void;
+}
+
+async function fetchProfile(
+	platform: string,
+	username: string,
+): Promise<CommenterProfile> {
+	const response = await fetch(
+		`/api/commenters/${platform}/${encodeURIComponent(username)}`,
+	);
+	if (!response.ok) {
+		const data = await response.json().catch(() => ({}));
+		throw new Error(data.error || "Failed to load commenter");
+	}
+	return response.json();
+}
+
+function formatDate(iso: string): string {
+	return new Date(iso).toLocaleDateString();
+}
+
+function StatTile({ label, value }: { label: string; value: string | number }) {
+	return (
+		<div className="rounded-lg border border-border p-3">
+			<div className="text-xl font-bold">{value}</div>
+			<div className="text-xs text-muted-foreground">{label}</div>
+		</div>
+	);
+}
+
+/**
+ * A commenter's profile: every comment they left across the stored scrapes,
+ * how often they comment, and the nicknames and avatars they went by
+ */
+export function UserPage({ platform, username, onBack }: UserPageProps) {
+	const info = getPlatformInfo(
+		isSupportedPlatform(platform) ? platform : "unknown",
+	);
+	const {
+		data: profile,
+		error,
+		isLoading,
+	} = useQuery({
+		queryKey: ["commenter", platform, username],
+		queryFn: () => fetchProfile(platform, username),
+	});
+
+	return (
+		<div className="min-h-screen bg-background" style={info.themeStyle}>
+			<main className="container mx-auto px-4 md:px-6 py-8">
+				<div className="max-w-4xl mx-auto space-y-6">
+					<Button variant="outline" size="sm" onClick={onBack}>
+						<ArrowLeft className="w-4 h-4 mr-2" />
+						Back to Scraper
+					</Button>
+
+					{isLoading && (
+						<div className="flex justify-center py-16 text-muted-foreground">
+							<Loader2 className="h-6 w-6 animate-spin" />
+						</div>
+					)}
+
+					{error && (
+						<Alert variant="destructive">
+							<AlertCircle className="h-4 w-4" />
+							<AlertDescription>{error.message}</AlertDescription>
+						</Alert>
+					)}
+
+					{profile && (
+						<>
+							{/* Header */}
+							<Card>
+								<CardContent className="p-6 space-y-6">
+									<div className="flex items-center gap-4">
+										{profile.avatar ? (
+											<img
+												src={profile.avatar}
+												alt={profile.username}
+												className="h-16 w-16 rounded-full object-cover ring-2 ring-border"
+												referrerPolicy="no-referrer"
+											/>
+										) : (
+											<div className="h-16 w-16 rounded-full bg-muted flex items-center justify-center text-xl font-semibold">
+												{profile.nickname.charAt(0).toUpperCase()}
+											</div>
+										)}
+										<div className="min-w-0">
+											<h1 className="text-2xl font-bold truncate">
+												{profile.nickname}
+											</h1>
+											<div className="flex items-center gap-2 text-sm text-muted-foreground">
+												<span>@{profile.username}</span>
+												<Badge variant="outline">{info.displayName}</Badge>
+											</div>
+										</div>
+									</div>
+
+									<div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+										<StatTile label="Comments" value={profile.comments} />
+										<StatTile label="Videos" value={profile.videos} />
+										<StatTile
+											label="Comments per week"
+											value={profile.commentsPerWeek.toFixed(1)}
+										/>
+										<StatTile label="Active days" value={profile.activeDays} />
+										<StatTile
+											label="First seen"
+											value={formatDate(profile.firstSeen)}
+										/>
+										<StatTile
+											label="Last seen"
+											value={formatDate(profile.lastSeen)}
+										/>
+										<StatTile label="Replies" value={profile.replies} />
+										<StatTile
+											label="Top-level"
+											value={profile.comments - profile.replies}
+										/>
+									</div>
+								</CardContent>
+							</Card>
+
+							{/* Nickname and avatar history */}
+							<Card>
+								<CardHeader className="pb-3">
+									<CardTitle className="text-lg flex items-center gap-2">
+										<History className="h-5 w-5 text-primary" />
+										Name History
+									</CardTitle>
+								</CardHeader>
+								<CardContent className="space-y-4">
+									<div className="space-y-1">
+										{profile.nicknames.map((entry) => (
+											<div
+												key={entry.value}
+												className="flex items-center justify-between gap-4 text-sm"
+											>
+												<span className="font-medium truncate">
+													{entry.value}
+												</span>
+												<span className="text-xs text-muted-foreground shrink-0">
+													{formatDate(entry.firstSeen)} –{" "}
+													{formatDate(entry.lastSeen)}
+												</span>
+											</div>
+										))}
+									</div>
+
+									{profile.avatars.length > 0 && (
+										<div className="flex flex-wrap gap-3">
+											{profile.avatars.map((entry) => (
+												<img
+													key={entry.value}
+													src={entry.value}
+													alt={profile.username}
+													title={`${formatDate(entry.firstSeen)} – ${formatDate(entry.lastSeen)}`}
+													className="h-10 w-10 rounded-full object-cover ring-2 ring-border"
+													referrerPolicy="no-referrer"
+												/>
+											))}
+										</div>
+									)}
+								</CardContent>
+							</Card>
+
+							{/* Comments per video */}
+							{profile.history.map((video) => (
+								<Card key={video.contentId}>
+									<CardHeader className="pb-3">
+										<div className="flex items-center justify-between gap-4">
+											<CardTitle className="text-base flex items-center gap-2 min-w-0">
+												<MessageSquare className="h-4 w-4 text-primary shrink-0" />
+												<span className="truncate">
+													{video.caption || video.url || video.contentId}
+												</span>
+											</CardTitle>
+											{video.url && (
+												<a
+													href={video.url}
+													target="_blank"
+													rel="noopener noreferrer"
+													className="text-muted-foreground hover:text-foreground shrink-0"
+													title="Open video"
+												>
+													<ExternalLink className="h-4 w-4" />
+												</a>
+											)}
+										</div>
+										<p className="text-xs text-muted-foreground">
+											{video.comments.length} comment
+											{video.comments.length === 1 ? "" : "s"}, scraped{" "}
+											{new Date(video.fetchedAt).toLocaleString()}
+										</p>
+									</CardHeader>
+									<CardContent className="space-y-2">
+										{video.comments.map((comment) => (
+											<TikTokComment
+												key={comment.comment_id}
+												comment={comment}
+											/>
+										))}
+									</CardContent>
+								</Card>
+							))}
+						</>
+					)}
+				</div>
+			</main>
+		</div>
+	);
+}
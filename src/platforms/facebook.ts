@@ -0,0 +1,27 @@
+import { definePlatform } from "./types";
+
+export const facebook = definePlatform({
+	id: "facebook",
+	displayName: "Facebook",
+	primaryColor: "#1877F2",
+	secondaryColor: "#4267B2",
+	urlPatterns: [
+		/(?:www\.)?facebook\.com\/(?:watch\/?\?v=|[^/]+\/videos\/)\d+/,
+		/(?:www\.)?facebook\.com\/reel\/\d+/,
+		/fb\.watch\/\w+/,
+		/(?:www\.)?facebook\.com/,
+	],
+	extractContentId: (url) => {
+		const match =
+			url.match(/\/videos\/(\d+)/) ||
+			url.match(/[?&]v=(\d+)/) ||
+			url.match(/\/reel\/(\d+)/) ||
+			url.match(/fb\.watch\/(\w+)/);
+		return match?.[1] || null;
+	},
+	auth: {
+		loginUrl: "https://www.facebook.com/login",
+		checkSelector: '[aria-label="Facebook"], [data-pagelet="BlueBars"]',
+		domain: ".facebook.com",
+	},
+});
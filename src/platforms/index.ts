@@ -0,0 +1,167 @@
+import type { CSSProperties } from "react";
+import { facebook } from "./facebook";
+import { instagram } from "./instagram";
+import { reddit } from "./reddit";
+import { threads } from "./threads";
+import { tiktok } from "./tiktok";
+import type { PlatformAuth, PlatformDefinition } from "./types";
+import { x } from "./x";
+import { youtube } from "./youtube";
+
+export type { PlatformAuth, PlatformDefinition } from "./types";
+export { facebook, instagram, reddit, threads, tiktok, x, youtube };
+
+// Every supported platform. Adding one here (plus its scraper to the list in
+// src/scraper/registry.ts) is all it takes for URL detection, theming,
+// validation and login sessions to pick it up.
+export const PLATFORMS = [
+	tiktok,
+	youtube,
+	instagram,
+	facebook,
+	reddit,
+	x,
+	threads,
+] as const;
+
+type KnownPlatform = (typeof PLATFORMS)[number];
+
+export type SupportedPlatform = KnownPlatform["id"];
+export type Platform = SupportedPlatform | "unknown";
+
+// Platforms that need a saved login session to scrape
+export type AuthPlatform = Extract<KnownPlatform, { auth: PlatformAuth }>["id"];
+
+export interface PlatformInfo {
+	platform: Platform;
+	displayName: string;
+	primaryColor: string;
+	secondaryColor: string;
+	// CSS variables overriding the default theme, set on the page's root
+	themeStyle: CSSProperties;
+}
+
+const UNKNOWN_PLATFORM: Omit<PlatformInfo, "platform"> = {
+	displayName: "Social Media",
+	primaryColor: "#6366f1",
+	secondaryColor: "#8b5cf6",
+	themeStyle: {},
+};
+
+/**
+ * Text color readable on a "#rrggbb" background
+ */
+function foregroundFor(hex: string): string {
+	const [r = 0, g = 0, b = 0] = [1, 3, 5].map(
+		(start) => Number.parseInt(hex.slice(start, start + 2), 16) / 255,
+	);
+	// Relative luminance, close enough without gamma correction
+	const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+	return luminance > 0.6 ? "#0a0a0f" : "#ffffff";
+}
+
+/**
+ * Theme variables generated from a platform's colors
+ */
+function themeStyle(primary: string, secondary: string): CSSProperties {
+	return {
+		"--primary": primary,
+		"--primary-foreground": foregroundFor(primary),
+		"--secondary": secondary,
+		"--secondary-foreground": foregroundFor(secondary),
+		"--ring": primary,
+		"--chart-1": primary,
+		"--chart-2": secondary,
+		"--chart-3": `color-mix(in oklch, ${primary} 70%, white)`,
+	} as CSSProperties;
+}
+
+export const AUTH_PLATFORMS = PLATFORMS.filter(
+	(definition): definition is Extract<KnownPlatform, { auth: PlatformAuth }> =>
+		"auth" in definition,
+).map((definition) => definition.id);
+
+/**
+ * Look up a platform by ID
+ */
+export function getPlatform(
+	platform: string | null | undefined,
+): PlatformDefinition | undefined {
+	return PLATFORMS.find((definition) => definition.id === platform);
+}
+
+export function isSupportedPlatform(
+	value: string | null | undefined,
+): value is SupportedPlatform {
+	return getPlatform(value) !== undefined;
+}
+
+export function isAuthPlatform(
+	value: string | null | undefined,
+): value is AuthPlatform {
+	return AUTH_PLATFORMS.some((platform) => platform === value);
+}
+
+/**
+ * Detect the platform from a URL
+ */
+export function detectPlatform(url: string): Platform {
+	const normalizedUrl = url.toLowerCase().trim();
+
+	const match = PLATFORMS.find((definition) =>
+		definition.urlPatterns.some((pattern) => pattern.test(normalizedUrl)),
+	);
+
+	return match?.id ?? "unknown";
+}
+
+/**
+ * Get full platform info including theme colors
+ */
+export function getPlatformInfo(platform: Platform): PlatformInfo {
+	const definition = getPlatform(platform);
+
+	return {
+		platform,
+		...(definition
+			? {
+					displayName: definition.displayName,
+					primaryColor: definition.primaryColor,
+					secondaryColor: definition.secondaryColor,
+					themeStyle: themeStyle(
+						definition.primaryColor,
+						definition.secondaryColor,
+					),
+				}
+			: UNKNOWN_PLATFORM),
+	};
+}
+
+/**
+ * Detect platform from URL and return full info
+ */
+export function detectPlatformInfo(url: string): PlatformInfo {
+	return getPlatformInfo(detectPlatform(url));
+}
+
+/**
+ * Extract video/post ID from URL based on platform
+ */
+export function extractContentId(
+	url: string,
+	platform: Platform,
+): string | null {
+	return getPlatform(platform)?.extractContentId(url) ?? null;
+}
+
+/**
+ * Join display names into "A, B, or C" for messages
+ */
+export function formatPlatformNames(
+	platforms: readonly { displayName: string }[],
+	conjunction = "or",
+): string {
+	const names = platforms.map((platform) => platform.displayName);
+	if (names.length <= 2) return names.join(` ${conjunction} `);
+	return `${names.slice(0, -1).join(", ")}, ${conjunction} ${names.at(-1)}`;
+}
@@ -0,0 +1,22 @@
+import { definePlatform } from "./types";
+
+export const instagram = definePlatform({
+	id: "instagram",
+	displayName: "Instagram",
+	primaryColor: "#E1306C",
+	secondaryColor: "#833AB4",
+	urlPatterns: [
+		/(?:www\.)?instagram\.com\/(?:p|reel)\/[\w-]+/,
+		/(?:www\.)?instagram\.com\/[\w.]+\/(?:p|reel)\/[\w-]+/,
+		/(?:www\.)?instagram\.com/,
+	],
+	extractContentId: (url) => {
+		const match = url.match(/\/(?:p|reel)\/([\w-]+)/);
+		return match?.[1] || null;
+	},
+	auth: {
+		loginUrl: "https://www.instagram.com/accounts/login/",
+		checkSelector: 'svg[aria-label="Home"], a[href="/"]',
+		domain: ".instagram.com",
+	},
+});
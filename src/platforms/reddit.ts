@@ -0,0 +1,21 @@
+import { definePlatform } from "./types";
+
+export const reddit = definePlatform({
+	id: "reddit",
+	displayName: "Reddit",
+	primaryColor: "#FF4500",
+	secondaryColor: "#FF5700",
+	urlPatterns: [
+		/(?:www\.|old\.|new\.)?reddit\.com\/r\/\w+\/comments\/\w+/,
+		/(?:www\.)?reddit\.com\/comments\/\w+/,
+		/redd\.it\/\w+/,
+		/(?:www\.|old\.|new\.)?reddit\.com/,
+	],
+	// Base36 post ID. Share links ("/r/<sub>/s/<code>") only redirect to
+	// the post, so they have none.
+	extractContentId: (url) => {
+		const match =
+			url.match(/\/comments\/(\w+)/) || url.match(/redd\.it\/(\w+)/);
+		return match?.[1] || null;
+	},
+});
@@ -0,0 +1,20 @@
+import { definePlatform } from "./types";
+
+export const threads = definePlatform({
+	id: "threads",
+	displayName: "Threads",
+	// Threads is black and white, black wouldn't show on the dark UI
+	primaryColor: "#E5E5E5",
+	secondaryColor: "#999999",
+	urlPatterns: [
+		/(?:www\.)?threads\.(?:net|com)\/@[\w.]+\/post\/[\w-]+/,
+		/(?:www\.)?threads\.(?:net|com)/,
+	],
+	// Shortcode of the post, like Instagram's
+	extractContentId: (url) => url.match(/\/post\/([\w-]+)/)?.[1] || null,
+	auth: {
+		loginUrl: "https://www.threads.net/login",
+		checkSelector: 'svg[aria-label="Home"], svg[aria-label="Create"]',
+		domain: ".threads.net",
+	},
+});
@@ -0,0 +1,20 @@
+import { definePlatform } from "./types";
+
+export const tiktok = definePlatform({
+	id: "tiktok",
+	displayName: "TikTok",
+	primaryColor: "#ff0050",
+	secondaryColor: "#00f2ea",
+	urlPatterns: [
+		/(?:www\.)?tiktok\.com\/@[^/]+\/video\/\d+/,
+		/(?:vm|vt)\.tiktok\.com\/\w+/,
+		/tiktok\.com\/t\/\w+/,
+		/(?:www\.)?tiktok\.com/,
+	],
+	extractContentId: (url) => {
+		const match =
+			url.match(/\/video\/(\d+)/) || url.match(/tiktok\.com\/(?:t\/)?(\w+)/);
+		return match?.[1] || null;
+	},
+	supportsIncremental: true,
+});
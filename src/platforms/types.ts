@@ -0,0 +1,35 @@
+export interface PlatformAuth {
+	loginUrl: string;
+	checkSelector: string; // Selector to verify logged in state
+	domain: string;
+}
+
+/**
+ * Everything the app needs to know about a platform outside of the scraper
+ * itself. Safe to import from the frontend.
+ */
+export interface PlatformDefinition {
+	id: string;
+	displayName: string;
+	// Theme of the UI while the platform is selected, on a dark background
+	primaryColor: string;
+	secondaryColor: string;
+	// URLs the platform's scraper accepts
+	urlPatterns: RegExp[];
+	// Video/post ID, used for file names and lookups
+	extractContentId: (url: string) => string | null;
+	// Set when comments are only visible with a saved login session
+	auth?: PlatformAuth;
+	// Stored scrapes can be refreshed by only fetching new comments
+	supportsIncremental?: boolean;
+}
+
+/**
+ * Declare a platform, keeping its literal ID and whether it has `auth` in
+ * the type
+ */
+export function definePlatform<const T extends PlatformDefinition>(
+	definition: T,
+): T {
+	return definition;
+}
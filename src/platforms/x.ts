@@ -0,0 +1,21 @@
+import { definePlatform } from "./types";
+
+export const x = definePlatform({
+	id: "x",
+	displayName: "X",
+	primaryColor: "#1D9BF0",
+	secondaryColor: "#D4D4D4",
+	urlPatterns: [
+		/(?:^|\/\/)(?:www\.|mobile\.)?(?:x|twitter)\.com\/\w+\/status\/\d+/,
+		/(?:^|\/\/)(?:www\.|mobile\.)?(?:x|twitter)\.com\/i\/web\/status\/\d+/,
+		// Anchored so domains ending in "x.com" don't match
+		/(?:^|\/\/)(?:www\.|mobile\.)?(?:x|twitter)\.com/,
+	],
+	extractContentId: (url) => url.match(/\/status\/(\d+)/)?.[1] || null,
+	auth: {
+		loginUrl: "https://x.com/i/flow/login",
+		checkSelector:
+			'[data-testid="SideNav_AccountSwitcher_Button"], [data-testid="AppTabBar_Home_Link"]',
+		domain: ".x.com",
+	},
+});
@@ -0,0 +1,26 @@
+import { definePlatform } from "./types";
+
+export const youtube = definePlatform({
+	id: "youtube",
+	displayName: "YouTube",
+	primaryColor: "#FF0000",
+	secondaryColor: "#CC0000",
+	urlPatterns: [
+		/(?:www\.)?youtube\.com\/watch\?v=[\w-]+/,
+		/(?:www\.)?youtube\.com\/shorts\/[\w-]+/,
+		/youtu\.be\/[\w-]+/,
+		/(?:www\.)?youtube\.com/,
+	],
+	extractContentId: (url) => {
+		const match =
+			url.match(/[?&]v=([\w-]+)/) ||
+			url.match(/youtu\.be\/([\w-]+)/) ||
+			url.match(/\/shorts\/([\w-]+)/);
+		return match?.[1] || null;
+	},
+	auth: {
+		loginUrl: "https://accounts.google.com/ServiceLogin?service=youtube",
+		checkSelector: 'button[aria-label*="Account"], #avatar-btn',
+		domain: ".youtube.com",
+	},
+});
@@ -0,0 +1,13 @@
+import "@fontsource/inter/400.css";
+import "@fontsource/inter/500.css";
+import "@fontsource/inter/600.css";
+import "@fontsource/inter/700.css";
+import { createRoot } from "react-dom/client";
+import "./globals.css";
+import { RenderPage } from "./pages/RenderPage.tsx";
+
+// Entry point of the headless page the server screenshots comment cards from
+const root = document.getElementById("root");
+if (root) {
+	createRoot(root).render(<RenderPage />);
+}
@@ -0,0 +1,65 @@
+import { chromium } from "playwright";
+import type { RenderCard, RenderRequest } from "../types";
+import { logger } from "../utils";
+
+export interface CardImage {
+	name: string;
+	png: Buffer;
+}
+
+// Cards mounted on the render page at a time, to keep the DOM small
+const BATCH_SIZE = 50;
+
+// Matches the pixel ratio of the browser-side PNG export
+const DEVICE_SCALE_FACTOR = 1.5;
+
+/**
+ * Screenshot comment cards with headless Chromium, using the same React
+ * markup as the web UI (served by the /render page)
+ */
+export async function renderCommentCards(
+	renderPageUrl: string,
+	request: RenderRequest,
+): Promise<CardImage[]> {
+	const browser = await chromium.launch({
+		executablePath: "/usr/bin/chromium",
+		headless: true,
+	});
+
+	try {
+		const page = await browser.newPage({
+			viewport: { width: 700, height: 800 },
+			deviceScaleFactor: DEVICE_SCALE_FACTOR,
+		});
+
+		await page.goto(renderPageUrl, { waitUntil: "networkidle" });
+		await page.waitForFunction(() => typeof window.renderCards === "function");
+
+		const images: CardImage[] = [];
+
+		for (let i = 0; i < request.cards.length; i += BATCH_SIZE) {
+			const cards: RenderCard[] = request.cards.slice(i, i + BATCH_SIZE);
+			logger.info(
+				`Rendering cards ${i + 1}-${i + cards.length} of ${request.cards.length}`,
+			);
+
+			await page.evaluate((batch) => window.renderCards?.(batch), {
+				platform: request.platform,
+				cards,
+			} satisfies RenderRequest);
+
+			for (const card of cards) {
+				const selectorName = card.name.replace(/["\\]/g, "\\$&");
+				const element = page.locator(`[data-render-card="${selectorName}"]`);
+				images.push({
+					name: card.name,
+					png: await element.screenshot({ type: "png" }),
+				});
+			}
+		}
+
+		return images;
+	} finally {
+		await browser.close();
+	}
+}
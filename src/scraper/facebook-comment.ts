@@ -1,13 +1,39 @@
 import type { Browser, BrowserContext, Page } from "playwright";
-import { Comment, Comments } from "../types";
-import { logger } from "../utils";
+import { facebook } from "../platforms";
+import { Comment, Comments, type ScrapeProgressListener } from "../types";
+import {
+	extractFacebookCommentId,
+	extractFacebookParentId,
+	hashCommentId,
+	logger,
+	parseCompactCount,
+} from "../utils";
+import {
+	interceptedToComments,
+	parseFacebookResponses,
+} from "./intercepted-comments";
+import type { CommentScraper } from "./registry";
+import { buildCommentTree, expandReplyButtons } from "./reply-threads";
+import { ResponseCollector } from "./response-collector";
 import { sessionManager } from "./session-manager";
 
+// GraphQL requests made while scrolling and opening replies
+const FACEBOOK_COMMENT_API = /\/api\/graphql/;
+
+// "View all 5 replies", "View more replies", "Jane replied · 2 replies"
+const FACEBOOK_REPLY_BUTTON =
+	/^((view|see) (all |more |previous )?(\d+ )?(more )?repl(y|ies)|.+ replied · \d+ repl(y|ies))/i;
+
 export class FacebookComment {
 	private browser: Browser | null = null;
 	private context: BrowserContext | null = null;
 	private page: Page | null = null;
 	private hasSession = false;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
 
 	private async initBrowser(): Promise<void> {
 		if (this.browser) return;
@@ -44,6 +70,10 @@ export class FacebookComment {
 		if (!this.page) return;
 
 		logger.info("Scrolling to load comments...");
+		this.onProgress?.({
+			type: "status",
+			message: "Scrolling to load comments",
+		});
 
 		// Try to click "View more comments" buttons
 		for (let i = 0; i < maxScrolls; i++) {
@@ -133,8 +163,75 @@ export class FacebookComment {
 					nickname: string;
 					text: string;
 					avatar: string;
+					permalink: string;
+					isReply: boolean;
+					parentIndex?: number; // Position of the parent comment in results
+					likeText: string;
+					isPinned: boolean;
 				}> = [];
 
+				// Replies follow their parent comment in the page
+				const resultIndexes = new Map<Element, number>();
+				let lastTopLevelIndex: number | undefined;
+
+				const getThreading = (el: Element) => {
+					const parentEl = el.parentElement?.closest('[role="article"]');
+					const isReply =
+						Boolean(parentEl) ||
+						/^reply/i.test(el.getAttribute("aria-label") || "");
+					return {
+						isReply,
+						parentIndex: parentEl
+							? resultIndexes.get(parentEl)
+							: isReply
+								? lastTopLevelIndex
+								: undefined,
+					};
+				};
+
+				const addResult = (el: Element, result: (typeof results)[number]) => {
+					resultIndexes.set(el, results.length);
+					if (!result.isReply) {
+						lastTopLevelIndex = results.length;
+					}
+					results.push(result);
+				};
+
+				// The comment's timestamp links to it with ?comment_id=...
+				const getPermalink = (el: Element) =>
+					el.querySelector('a[href*="comment_id="]')?.getAttribute("href") ||
+					"";
+
+				// Pinned comments carry a separate "Pinned" label. The comment's own
+				// text, or a nested reply's, saying "Pinned" doesn't count.
+				const isPinned = (el: Element, textEl: Element) =>
+					Array.from(el.querySelectorAll("[aria-label], span")).some(
+						(badge) => {
+							if (textEl.contains(badge)) return false;
+							if (
+								badge.closest('[role="article"]') !==
+								el.closest('[role="article"]')
+							) {
+								return false;
+							}
+							const label = badge.getAttribute("aria-label");
+							if (label) return /^pinned\b/i.test(label);
+							return (
+								badge.childElementCount === 0 &&
+								/^pinned( by .+)?$/i.test(badge.textContent?.trim() || "")
+							);
+						},
+					);
+
+				// Reactions are only exposed through the label of their button
+				const getEngagement = (el: Element, textEl: Element) => ({
+					likeText:
+						el
+							.querySelector('[aria-label*="reaction"]')
+							?.getAttribute("aria-label") || "",
+					isPinned: isPinned(el, textEl),
+				});
+
 				// Try to find comment elements using various strategies
 				const commentContainers = document.querySelectorAll(
 					'[role="article"], ' +
@@ -190,7 +287,15 @@ export class FacebookComment {
 							);
 
 							if (!exists) {
-								results.push({ username, nickname, text, avatar });
+								addResult(container, {
+									username,
+									nickname,
+									text,
+									avatar,
+									permalink: getPermalink(container),
+									...getThreading(container),
+									...getEngagement(container, textEl),
+								});
 							}
 						}
 					}
@@ -222,7 +327,15 @@ export class FacebookComment {
 								);
 
 								if (!exists) {
-									results.push({ username, nickname, text, avatar });
+									addResult(el, {
+										username,
+										nickname,
+										text,
+										avatar,
+										permalink: getPermalink(el),
+										...getThreading(el),
+										...getEngagement(el, textEl),
+									});
 								}
 							}
 						}
@@ -232,23 +345,58 @@ export class FacebookComment {
 				return results;
 			});
 
-			let index = 0;
-			for (const data of commentData) {
+			const items = commentData.map((data) => ({
+				...data,
+				// Facebook only shows "2h" style times, which can't go in the hash
+				id:
+					extractFacebookCommentId(data.permalink) ??
+					hashCommentId("fb", data.username, data.text),
+			}));
+			const threadItems = items.map((item) => ({
+				...item,
+				parentId:
+					extractFacebookParentId(item.permalink) ??
+					(item.parentIndex !== undefined
+						? items[item.parentIndex]?.id
+						: undefined),
+			}));
+
+			const toComment = (
+				data: (typeof threadItems)[number],
+				replies: Comment[] = [],
+				parentId?: string,
+				isOrphan = false,
+			) =>
+				new Comment(
+					data.id,
+					data.username,
+					data.nickname,
+					data.text,
+					Math.floor(Date.now() / 1000),
+					data.avatar,
+					replies.length,
+					replies,
+					parentId,
+					isOrphan,
+					parseCompactCount(data.likeText),
+					data.isPinned,
+					false, // Facebook doesn't show when the author liked a comment
+				);
+
+			for (const thread of buildCommentTree(threadItems)) {
+				const replies = thread.replies.map((reply) =>
+					toComment(reply, [], thread.item.id),
+				);
+				// A reply whose parent wasn't loaded stays at the top level
+				const isOrphan = thread.isOrphan || thread.item.isReply;
 				comments.push(
-					new Comment(
-						`fb_${Date.now()}_${index}`,
-						data.username,
-						data.nickname,
-						data.text,
-						Math.floor(Date.now() / 1000),
-						data.avatar,
-						0,
-						[],
-						undefined,
-						false,
+					toComment(
+						thread.item,
+						replies,
+						isOrphan ? thread.item.parentId : undefined,
+						isOrphan,
 					),
 				);
-				index++;
 			}
 		} catch (err) {
 			logger.error(`Failed to parse Facebook comments: ${err}`);
@@ -265,6 +413,12 @@ export class FacebookComment {
 				throw new Error("Browser not initialized");
 			}
 
+			// Record the comment data the page loads, parsed before the DOM
+			const collector = new ResponseCollector(this.page, (responseUrl) =>
+				FACEBOOK_COMMENT_API.test(responseUrl),
+			);
+			collector.start();
+
 			logger.info(`Navigating to Facebook: ${url}`);
 			await this.page.goto(url, {
 				waitUntil: "domcontentloaded",
@@ -326,8 +480,23 @@ export class FacebookComment {
 			// Scroll to load more comments
 			await this.scrollToLoadComments();
 
+			// Open reply threads
+			this.onProgress?.({ type: "status", message: "Expanding replies" });
+			await expandReplyButtons(this.page, FACEBOOK_REPLY_BUTTON);
+
 			// Parse comments
-			const comments = await this.parseComments();
+			this.onProgress?.({ type: "status", message: "Parsing comments" });
+			const intercepted = parseFacebookResponses(await collector.stop());
+			let comments: Comment[];
+			if (intercepted.length > 0) {
+				logger.info(
+					`Parsed ${intercepted.length} comments from intercepted responses`,
+				);
+				comments = interceptedToComments(intercepted);
+			} else {
+				logger.info("No comments intercepted, reading them from the page");
+				comments = await this.parseComments();
+			}
 
 			// Try to get post/video title
 			let title = "";
@@ -360,3 +529,8 @@ export class FacebookComment {
 		}
 	}
 }
+
+export const facebookScraper: CommentScraper = {
+	platform: facebook,
+	scrape: (url, { onProgress }) => new FacebookComment(onProgress).scrape(url),
+};
@@ -1,8 +1,22 @@
-export { FacebookComment } from "./facebook-comment";
-export { InstagramComment } from "./instagram-comment";
 export {
-	sessionManager,
+	type ProxySettings,
+	type ProxyStatus,
+	parseProxyUrl,
+	proxyPool,
+} from "./proxy-pool";
+export {
+	type CommentScraper,
+	getScraper,
+	type ScrapeOptions,
+} from "./registry";
+export {
+	resolveScrapeTarget,
+	runScrape,
+	type ScrapePlatform,
+	type ScrapeTarget,
+} from "./scrape-target";
+export {
 	type Platform as SessionPlatform,
+	sessionManager,
 } from "./session-manager";
 export { TiktokComment } from "./tiktok-comment";
-export { YoutubeComment } from "./youtube-comment";
@@ -1,13 +1,38 @@
 import type { Browser, BrowserContext, Page } from "playwright";
-import { Comment, Comments } from "../types";
-import { logger } from "../utils";
+import { instagram } from "../platforms";
+import { Comment, Comments, type ScrapeProgressListener } from "../types";
+import {
+	extractInstagramCommentId,
+	extractInstagramParentId,
+	hashCommentId,
+	logger,
+	parseCompactCount,
+} from "../utils";
+import {
+	interceptedToComments,
+	parseInstagramResponses,
+} from "./intercepted-comments";
+import type { CommentScraper } from "./registry";
+import { buildCommentTree, expandReplyButtons } from "./reply-threads";
+import { ResponseCollector } from "./response-collector";
 import { sessionManager } from "./session-manager";
 
+// Comment API and GraphQL requests made while scrolling and opening replies
+const INSTAGRAM_COMMENT_API = /\/api\/v1\/media\/\d+\/comments|\/graphql/;
+
+// "View replies (3)", "View all 12 replies", "View more replies"
+const INSTAGRAM_REPLY_BUTTON = /^[-—\s]*view (all |more )?(\d+ )?repl(y|ies)/i;
+
 export class InstagramComment {
 	private browser: Browser | null = null;
 	private context: BrowserContext | null = null;
 	private page: Page | null = null;
 	private hasSession = false;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
 
 	private async initBrowser(): Promise<void> {
 		if (this.browser) return;
@@ -44,6 +69,10 @@ export class InstagramComment {
 		if (!this.page) return;
 
 		logger.info("Scrolling to load comments...");
+		this.onProgress?.({
+			type: "status",
+			message: "Scrolling to load comments",
+		});
 
 		// Try to click "View all comments" button if present
 		try {
@@ -130,8 +159,13 @@ export class InstagramComment {
 				const results: Array<{
 					username: string;
 					text: string;
+					permalink: string;
+					parentIndex?: number; // Position of the parent comment in results
 					avatar: string;
 					timestamp: string;
+					likeText: string;
+					isPinned: boolean;
+					isCreatorLiked: boolean;
 				}> = [];
 
 				// Try multiple selector strategies
@@ -150,6 +184,9 @@ export class InstagramComment {
 					const elements = document.querySelectorAll(selector);
 					if (elements.length === 0) continue;
 
+					// Replies are rendered inside their parent comment's element
+					const resultIndexes = new Map<Element, number>();
+
 					elements.forEach((el) => {
 						// Find username - usually a link to profile
 						const usernameEl =
@@ -170,6 +207,37 @@ export class InstagramComment {
 						// Find timestamp
 						const timeEl = el.querySelector("time");
 
+						// The timestamp links to the comment: /p/<post>/c/<comment id>/
+						const permalinkEl =
+							timeEl?.closest("a") || el.querySelector('a[href*="/c/"]');
+
+						// Like count is shown as "12 likes" under the comment
+						const likeEl = Array.from(
+							el.querySelectorAll('button, span[role="button"]'),
+						).find((candidate) =>
+							/^[\d.,]+[KkMm]?\s+likes?$/.test(
+								candidate.textContent?.trim() || "",
+							),
+						);
+						// Badges are their own elements, labeled or with nothing but the
+						// badge text. The comment's text or a nested reply's mentioning
+						// them doesn't count.
+						const hasBadge = (ariaLabel: RegExp, text: RegExp) =>
+							Array.from(el.querySelectorAll("[aria-label], span")).some(
+								(badge) => {
+									if (textEl?.contains(badge)) return false;
+									if (badge.parentElement?.closest(selector) !== el) {
+										return false;
+									}
+									const label = badge.getAttribute("aria-label");
+									if (label) return ariaLabel.test(label);
+									return (
+										badge.childElementCount === 0 &&
+										text.test(badge.textContent?.trim() || "")
+									);
+								},
+							);
+
 						if (usernameEl && textEl) {
 							const username = usernameEl.textContent?.trim() || "";
 							const text = textEl.textContent?.trim() || "";
@@ -191,7 +259,24 @@ export class InstagramComment {
 									(r) => r.username === username && r.text === text,
 								);
 								if (!exists) {
-									results.push({ username, text, avatar, timestamp });
+									const parentEl = el.parentElement?.closest(selector);
+									resultIndexes.set(el, results.length);
+									results.push({
+										username,
+										text,
+										permalink: permalinkEl?.getAttribute("href") || "",
+										parentIndex: parentEl
+											? resultIndexes.get(parentEl)
+											: undefined,
+										avatar,
+										timestamp,
+										likeText: likeEl?.textContent?.trim() || "",
+										isPinned: hasBadge(/^pinned\b/i, /^pinned$/i),
+										isCreatorLiked: hasBadge(
+											/by author/i,
+											/^liked by (the )?author$/i,
+										),
+									});
 								}
 							}
 						}
@@ -203,27 +288,57 @@ export class InstagramComment {
 				return results;
 			});
 
-			let index = 0;
-			for (const data of commentData) {
-				const createTime = data.timestamp
-					? Math.floor(new Date(data.timestamp).getTime() / 1000)
-					: Math.floor(Date.now() / 1000);
+			const items = commentData.map((data) => ({
+				...data,
+				id:
+					extractInstagramCommentId(data.permalink) ??
+					hashCommentId("ig", data.username, data.text, data.timestamp),
+			}));
+			const threadItems = items.map((item) => ({
+				...item,
+				parentId:
+					extractInstagramParentId(item.permalink) ??
+					(item.parentIndex !== undefined
+						? items[item.parentIndex]?.id
+						: undefined),
+			}));
+
+			const toComment = (
+				data: (typeof threadItems)[number],
+				replies: Comment[] = [],
+				parentId?: string,
+				isOrphan = false,
+			) =>
+				new Comment(
+					data.id,
+					data.username.replace(/\s+/g, "_").toLowerCase(),
+					data.username,
+					data.text,
+					data.timestamp
+						? Math.floor(new Date(data.timestamp).getTime() / 1000)
+						: Math.floor(Date.now() / 1000),
+					data.avatar,
+					replies.length,
+					replies,
+					parentId,
+					isOrphan,
+					parseCompactCount(data.likeText),
+					data.isPinned,
+					data.isCreatorLiked,
+				);
 
+			for (const thread of buildCommentTree(threadItems)) {
+				const replies = thread.replies.map((reply) =>
+					toComment(reply, [], thread.item.id),
+				);
 				comments.push(
-					new Comment(
-						`ig_${Date.now()}_${index}`,
-						data.username.replace(/\s+/g, "_").toLowerCase(),
-						data.username,
-						data.text,
-						createTime,
-						data.avatar,
-						0,
-						[],
-						undefined,
-						false,
+					toComment(
+						thread.item,
+						replies,
+						thread.isOrphan ? thread.item.parentId : undefined,
+						thread.isOrphan,
 					),
 				);
-				index++;
 			}
 		} catch (err) {
 			logger.error(`Failed to parse Instagram comments: ${err}`);
@@ -240,6 +355,12 @@ export class InstagramComment {
 				throw new Error("Browser not initialized");
 			}
 
+			// Record the comment data the page loads, parsed before the DOM
+			const collector = new ResponseCollector(this.page, (responseUrl) =>
+				INSTAGRAM_COMMENT_API.test(responseUrl),
+			);
+			collector.start();
+
 			logger.info(`Navigating to Instagram: ${url}`);
 			await this.page.goto(url, {
 				waitUntil: "domcontentloaded",
@@ -284,8 +405,23 @@ export class InstagramComment {
 			// Scroll to load more comments
 			await this.scrollToLoadComments();
 
+			// Open reply threads ("View replies (3)", "View all 12 replies")
+			this.onProgress?.({ type: "status", message: "Expanding replies" });
+			await expandReplyButtons(this.page, INSTAGRAM_REPLY_BUTTON);
+
 			// Parse comments
-			const comments = await this.parseComments();
+			this.onProgress?.({ type: "status", message: "Parsing comments" });
+			const intercepted = parseInstagramResponses(await collector.stop());
+			let comments: Comment[];
+			if (intercepted.length > 0) {
+				logger.info(
+					`Parsed ${intercepted.length} comments from intercepted responses`,
+				);
+				comments = interceptedToComments(intercepted);
+			} else {
+				logger.info("No comments intercepted, reading them from the page");
+				comments = await this.parseComments();
+			}
 
 			// Try to get post caption
 			let caption = "";
@@ -318,3 +454,8 @@ export class InstagramComment {
 		}
 	}
 }
+
+export const instagramScraper: CommentScraper = {
+	platform: instagram,
+	scrape: (url, { onProgress }) => new InstagramComment(onProgress).scrape(url),
+};
@@ -0,0 +1,285 @@
+import { describe, expect, test } from "bun:test";
+import facebookComments from "./fixtures/facebook/comments.json";
+import facebookReplies from "./fixtures/facebook/replies.json";
+import instagramChildComments from "./fixtures/instagram/child-comments.json";
+import instagramComments from "./fixtures/instagram/comments.json";
+import instagramGraphql from "./fixtures/instagram/graphql-comments.json";
+import threadsMoreReplies from "./fixtures/threads/more-replies.json";
+import threadsReplies from "./fixtures/threads/replies.json";
+import tweetDetail from "./fixtures/x/tweet-detail.json";
+import {
+	type InterceptedComment,
+	parseFacebookResponses,
+	parseInstagramResponses,
+	parseThreadsResponses,
+	parseXResponses,
+} from "./intercepted-comments";
+
+// The parsers walk responses depth first, so compare by ID
+function byId(comments: InterceptedComment[]): InterceptedComment[] {
+	return [...comments].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function find(comments: InterceptedComment[], id: string) {
+	return comments.find((comment) => comment.id === id);
+}
+
+describe("parseInstagramResponses", () => {
+	const comments = byId(
+		parseInstagramResponses([
+			instagramComments,
+			instagramChildComments,
+			instagramGraphql,
+		]),
+	);
+
+	test("reads comments and replies once across responses", () => {
+		expect(comments.map((comment) => [comment.id, comment.parentId])).toEqual([
+			["18031234567000001", undefined],
+			["18031234567000002", undefined],
+			["18031234567000003", undefined],
+			["18031234567000005", undefined],
+			["18031234567000011", "18031234567000002"],
+			["18031234567000012", "18031234567000002"],
+		]);
+	});
+
+	test("skips the post caption", () => {
+		expect(find(comments, "18031234560000000")).toBeUndefined();
+		expect(
+			comments.some((comment) => comment.text === "Golden hour at the bay"),
+		).toBe(false);
+	});
+
+	test("skips comments without text", () => {
+		expect(find(comments, "18031234567000004")).toBeUndefined();
+	});
+
+	test("reads counts and flags", () => {
+		expect(find(comments, "18031234567000002")).toEqual({
+			id: "18031234567000002",
+			parentId: undefined,
+			username: "mira.k",
+			nickname: "Mira K",
+			text: "The colours here are unreal",
+			createTime: 1718004200,
+			avatar:
+				"https://scontent.cdninstagram.com/v/t51.2885-19/4420001111_n.jpg?stp=dst-jpg_s150x150&_nc_ht=scontent.cdninstagram.com",
+			likeCount: 12,
+			replyCount: 2,
+			isPinned: false,
+			isCreatorLiked: true,
+		});
+		expect(find(comments, "18031234567000001")?.isPinned).toBe(true);
+	});
+
+	test("falls back to the username without a full name", () => {
+		expect(find(comments, "18031234567000003")?.nickname).toBe("tomwalks");
+	});
+
+	test("reads created_at when there's no created_at_utc", () => {
+		expect(find(comments, "18031234567000005")?.createTime).toBe(1718007300);
+	});
+
+	test("prefers created_at_utc", () => {
+		const [comment] = parseInstagramResponses([
+			{
+				comments: [
+					{
+						pk: "1",
+						text: "hi",
+						created_at: 1718000000,
+						created_at_utc: 1718003600,
+						user: { username: "mira.k" },
+					},
+				],
+			},
+		]);
+		expect(comment?.createTime).toBe(1718003600);
+	});
+
+	test("ignores a parent ID of 0", () => {
+		const [comment] = parseInstagramResponses([
+			{
+				comments: [
+					{
+						pk: "1",
+						text: "hi",
+						created_at: 1718000000,
+						parent_comment_id: "0",
+						user: { username: "mira.k" },
+					},
+				],
+			},
+		]);
+		expect(comment?.parentId).toBeUndefined();
+	});
+});
+
+describe("parseFacebookResponses", () => {
+	const comments = byId(
+		parseFacebookResponses([facebookComments, facebookReplies]),
+	);
+
+	test("decodes comment and parent IDs", () => {
+		expect(comments.map((comment) => [comment.id, comment.parentId])).toEqual([
+			["731234567890123_9001", undefined],
+			["731234567890123_9002", undefined],
+			["731234567890123_9011", "731234567890123_9001"],
+			["731234567890123_9012", "731234567890123_9001"],
+		]);
+	});
+
+	test("skips comments without text", () => {
+		expect(find(comments, "731234567890123_9003")).toBeUndefined();
+	});
+
+	test("reads counts, flags and avatars", () => {
+		expect(find(comments, "731234567890123_9001")).toEqual({
+			id: "731234567890123_9001",
+			parentId: undefined,
+			username: "maria_lopez",
+			nickname: "Maria Lopez",
+			text: "Is this the trail past the lighthouse?",
+			createTime: 1718010000,
+			avatar:
+				"https://scontent.xx.fbcdn.net/v/t39.30808-1/9001_p.jpg?stp=cp0_dst-jpg_s32x32",
+			likeCount: 1200,
+			replyCount: 2,
+			isPinned: true,
+			isCreatorLiked: false,
+		});
+		// Replies only have the smaller picture
+		expect(find(comments, "731234567890123_9011")?.avatar).toBe(
+			"https://scontent.xx.fbcdn.net/v/t39.30808-1/9011_p.jpg?stp=cp0_dst-jpg_s24x24",
+		);
+	});
+
+	test("builds usernames from display names", () => {
+		expect(find(comments, "731234567890123_9011")?.username).toBe(
+			"coastal_trails",
+		);
+	});
+});
+
+describe("parseXResponses", () => {
+	const replies = byId(parseXResponses([tweetDetail], "1801200000000000200"));
+
+	test("keeps replies and threads replies to replies", () => {
+		expect(replies.map((reply) => [reply.id, reply.parentId])).toEqual([
+			["1801200000000000301", undefined],
+			["1801200000000000302", "1801200000000000301"],
+			["1801200000000000303", undefined],
+			["1801200000000000305", undefined],
+		]);
+	});
+
+	test("leaves out the post, the tweet it answers and quoted tweets", () => {
+		for (const id of [
+			"1801200000000000200",
+			"1801200000000000100",
+			"1799000000000000900",
+		]) {
+			expect(find(replies, id)).toBeUndefined();
+		}
+	});
+
+	test("skips tweets without a date", () => {
+		expect(find(replies, "1801200000000000304")).toBeUndefined();
+	});
+
+	test("reads users from legacy responses", () => {
+		expect(find(replies, "1801200000000000301")).toEqual({
+			id: "1801200000000000301",
+			parentId: undefined,
+			username: "samcodes",
+			nickname: "Sam R",
+			text: "How does it compare to BullMQ?",
+			createTime: 1718616000,
+			avatar: "https://pbs.twimg.com/profile_images/2202/a_normal.jpg",
+			likeCount: 14,
+			replyCount: 1,
+			isPinned: false,
+			isCreatorLiked: false,
+		});
+	});
+
+	test("reads users from newer responses", () => {
+		const reply = find(replies, "1801200000000000303");
+		expect(reply?.username).toBe("ada_dev");
+		expect(reply?.nickname).toBe("Ada");
+		expect(reply?.avatar).toBe(
+			"https://pbs.twimg.com/profile_images/2203/b_normal.jpg",
+		);
+		// No display name
+		expect(find(replies, "1801200000000000305")?.nickname).toBe("noorwrites");
+	});
+
+	test("reads the full text of long posts", () => {
+		const text = find(replies, "1801200000000000303")?.text;
+		expect(text).toStartWith("@lin_builds Congrats on shipping!");
+		expect(text).toEndWith("saved us a pager rotation.");
+		expect(text?.length).toBeGreaterThan(280);
+	});
+});
+
+describe("parseThreadsResponses", () => {
+	const replies = byId(
+		parseThreadsResponses([threadsReplies, threadsMoreReplies], "C8xYz12AbCd"),
+	);
+
+	test("threads each reply under the one before it in its chain", () => {
+		expect(replies.map((reply) => [reply.id, reply.parentId])).toEqual([
+			["3391000000000000011", undefined],
+			["3391000000000000012", "3391000000000000011"],
+			["3391000000000000013", "3391000000000000012"],
+			["3391000000000000021", undefined],
+			["3391000000000000032", "3391000000000000031"],
+			["3391000000000000051", undefined],
+		]);
+	});
+
+	test("keeps the parent of a chain repeated without its start", () => {
+		const reversed = parseThreadsResponses(
+			[threadsMoreReplies, threadsReplies],
+			"C8xYz12AbCd",
+		);
+		expect(find(reversed, "3391000000000000013")?.parentId).toBe(
+			"3391000000000000012",
+		);
+	});
+
+	test("leaves out the post", () => {
+		expect(find(replies, "3391000000000000000")).toBeUndefined();
+	});
+
+	test("skips replies without text, still chaining from them", () => {
+		expect(find(replies, "3391000000000000031")).toBeUndefined();
+		// An orphan rather than a reply to the comment above the photo
+		expect(find(replies, "3391000000000000032")?.parentId).toBe(
+			"3391000000000000031",
+		);
+	});
+
+	test("skips replies without a username", () => {
+		expect(find(replies, "3391000000000000041")).toBeUndefined();
+	});
+
+	test("reads counts and falls back to the username", () => {
+		expect(find(replies, "3391000000000000011")).toEqual({
+			id: "3391000000000000011",
+			parentId: undefined,
+			username: "bea.reads",
+			nickname: "Bea",
+			text: "The lighthouse one, no contest",
+			createTime: 1718100600,
+			avatar:
+				"https://scontent.cdninstagram.com/v/t51.2885-19/63100002_n.jpg?stp=dst-jpg_s150x150",
+			likeCount: 15,
+			replyCount: 1,
+			isPinned: false,
+			isCreatorLiked: false,
+		});
+		expect(find(replies, "3391000000000000021")?.nickname).toBe("ola");
+	});
+});
@@ -0,0 +1,339 @@
+import { Comment } from "../types";
+import { normalizeFacebookCommentId, parseCompactCount } from "../utils";
+import { buildCommentTree } from "./reply-threads";
+
+// Comment read from an API response, before threading
+export interface InterceptedComment {
+	id: string;
+	parentId?: string;
+	username: string;
+	nickname: string;
+	text: string;
+	createTime: number; // Unix seconds
+	avatar: string;
+	likeCount: number;
+	replyCount: number;
+	isPinned: boolean;
+	isCreatorLiked: boolean;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+	return typeof value === "string" || typeof value === "number"
+		? String(value)
+		: "";
+}
+
+function asNumber(value: unknown): number {
+	return typeof value === "number" ? value : parseCompactCount(asString(value));
+}
+
+/**
+ * Visit every object nested in the documents, with the key it was found under
+ */
+function walkObjects(
+	documents: unknown[],
+	visit: (value: JsonObject, key: string) => void,
+): void {
+	const stack: [unknown, string][] = documents.map((doc) => [doc, ""]);
+
+	while (stack.length > 0) {
+		const entry = stack.pop();
+		if (!entry) break;
+		const [value, key] = entry;
+
+		if (Array.isArray(value)) {
+			for (const item of value) stack.push([item, key]);
+		} else if (isObject(value)) {
+			visit(value, key);
+			for (const [childKey, child] of Object.entries(value)) {
+				stack.push([child, childKey]);
+			}
+		}
+	}
+}
+
+/**
+ * Pull comments out of Instagram's comment API and GraphQL responses. Both
+ * use the same comment objects: `pk`, `text`, `created_at` and `user`.
+ */
+export function parseInstagramResponses(
+	documents: unknown[],
+): InterceptedComment[] {
+	const comments = new Map<string, InterceptedComment>();
+
+	walkObjects(documents, (node, key) => {
+		// The post caption has the same shape as a comment
+		if (key === "caption") return;
+
+		const user = node.user;
+		const id = asString(node.pk ?? node.id);
+		const text = asString(node.text);
+		if (!id || !text || !isObject(user) || node.created_at === undefined) {
+			return;
+		}
+
+		const username = asString(user.username);
+		if (!username) return;
+
+		const parentId = asString(node.parent_comment_id);
+
+		comments.set(id, {
+			id,
+			parentId: parentId && parentId !== "0" ? parentId : undefined,
+			username,
+			nickname: asString(user.full_name) || username,
+			text,
+			createTime: asNumber(node.created_at_utc ?? node.created_at),
+			avatar: asString(user.profile_pic_url),
+			likeCount: asNumber(node.comment_like_count),
+			replyCount: asNumber(node.child_comment_count),
+			isPinned: Boolean(node.is_pinned),
+			isCreatorLiked: Boolean(node.is_liked_by_media_owner),
+		});
+	});
+
+	return [...comments.values()];
+}
+
+/**
+ * Pull comments out of Facebook's GraphQL responses (`Comment` nodes)
+ */
+export function parseFacebookResponses(
+	documents: unknown[],
+): InterceptedComment[] {
+	const comments = new Map<string, InterceptedComment>();
+
+	walkObjects(documents, (node) => {
+		if (node.__typename !== "Comment") return;
+
+		const body = node.body;
+		const author = node.author;
+		const rawId = asString(node.id);
+		if (!rawId || !isObject(body) || !isObject(author)) return;
+
+		const text = asString(body.text);
+		const nickname = asString(author.name);
+		if (!text || !nickname) return;
+
+		const id = normalizeFacebookCommentId(rawId);
+		const parent = node.comment_parent;
+		const parentId = isObject(parent) ? asString(parent.id) : "";
+
+		const feedback = isObject(node.feedback) ? node.feedback : {};
+		const reactors = isObject(feedback.reactors) ? feedback.reactors : {};
+		const repliesFields = isObject(feedback.replies_fields)
+			? feedback.replies_fields
+			: {};
+		const picture =
+			author.profile_picture_depth_0 ?? author.profile_picture_depth_1;
+
+		comments.set(id, {
+			id,
+			parentId: parentId ? normalizeFacebookCommentId(parentId) : undefined,
+			// Facebook has no handles, match the DOM scraper's usernames
+			username: nickname.replace(/\s+/g, "_").toLowerCase(),
+			nickname,
+			text,
+			createTime: asNumber(node.created_time),
+			avatar: isObject(picture) ? asString(picture.uri) : "",
+			likeCount: asNumber(reactors.count ?? reactors.count_reduced),
+			replyCount: asNumber(repliesFields.total_count),
+			isPinned: Boolean(node.is_pinned),
+			isCreatorLiked: false,
+		});
+	});
+
+	return [...comments.values()];
+}
+
+/**
+ * Nest intercepted comments into threads, flagging replies whose parent
+ * wasn't captured as orphans
+ */
+export function interceptedToComments(items: InterceptedComment[]): Comment[] {
+	// Responses arrive in no particular order
+	const sorted = [...items].sort((a, b) => a.createTime - b.createTime);
+
+	const toComment = (
+		item: InterceptedComment,
+		replies: Comment[],
+		parentId?: string,
+		isOrphan = false,
+	) =>
+		new Comment(
+			item.id,
+			item.username,
+			item.nickname,
+			item.text,
+			item.createTime || Math.floor(Date.now() / 1000),
+			item.avatar,
+			Math.max(item.replyCount, replies.length),
+			replies,
+			parentId,
+			isOrphan,
+			item.likeCount,
+			item.isPinned,
+			item.isCreatorLiked,
+		);
+
+	return buildCommentTree(sorted).map((thread) =>
+		toComment(
+			thread.item,
+			thread.replies.map((reply) => toComment(reply, [], thread.item.id)),
+			thread.isOrphan ? thread.item.parentId : undefined,
+			thread.isOrphan,
+		),
+	);
+}
+
+/**
+ * Pull the replies to a post out of X's GraphQL `TweetDetail` responses.
+ * Tweets quoted in replies and the tweets the post itself answers are left
+ * out, replies to the post become top-level comments.
+ */
+export function parseXResponses(
+	documents: unknown[],
+	postId: string,
+): InterceptedComment[] {
+	const tweets = new Map<
+		string,
+		InterceptedComment & { conversationId: string; inReplyTo: string }
+	>();
+
+	walkObjects(documents, (node) => {
+		if (node.__typename !== "Tweet") return;
+
+		const legacy = node.legacy;
+		const id = asString(node.rest_id);
+		if (!id || !isObject(legacy)) return;
+
+		const core = isObject(node.core) ? node.core : {};
+		const userResults = isObject(core.user_results) ? core.user_results : {};
+		const user = isObject(userResults.result) ? userResults.result : {};
+		const userLegacy = isObject(user.legacy) ? user.legacy : {};
+		// Newer responses moved the names and avatar out of `legacy`
+		const userCore = isObject(user.core) ? user.core : {};
+		const avatar = isObject(user.avatar) ? user.avatar : {};
+
+		const username = asString(userCore.screen_name ?? userLegacy.screen_name);
+		const noteTweet = isObject(node.note_tweet) ? node.note_tweet : {};
+		const noteResults = isObject(noteTweet.note_tweet_results)
+			? noteTweet.note_tweet_results
+			: {};
+		const note = isObject(noteResults.result) ? noteResults.result : {};
+		// Long posts keep their full text in `note_tweet`
+		const text = asString(note.text) || asString(legacy.full_text);
+		// Tweets without a date would sort as posted in 1970
+		const createdAt = Date.parse(asString(legacy.created_at));
+		if (!username || !text || Number.isNaN(createdAt)) return;
+
+		tweets.set(id, {
+			id,
+			username,
+			nickname: asString(userCore.name ?? userLegacy.name) || username,
+			text,
+			createTime: Math.floor(createdAt / 1000),
+			avatar: asString(avatar.image_url ?? userLegacy.profile_image_url_https),
+			likeCount: asNumber(legacy.favorite_count),
+			replyCount: asNumber(legacy.reply_count),
+			isPinned: false,
+			isCreatorLiked: false,
+			conversationId: asString(legacy.conversation_id_str),
+			inReplyTo: asString(legacy.in_reply_to_status_id_str),
+		});
+	});
+
+	// The post and the tweets above it in the conversation
+	const focal = tweets.get(postId);
+	const ancestors = new Set<string>([postId]);
+	for (
+		let current = focal?.inReplyTo;
+		current && !ancestors.has(current);
+		current = tweets.get(current)?.inReplyTo
+	) {
+		ancestors.add(current);
+	}
+
+	const replies: InterceptedComment[] = [];
+	for (const { conversationId, inReplyTo, ...tweet } of tweets.values()) {
+		if (ancestors.has(tweet.id) || !inReplyTo) continue;
+		if (focal && conversationId !== focal.conversationId) continue;
+
+		replies.push({
+			...tweet,
+			parentId: inReplyTo === postId ? undefined : inReplyTo,
+		});
+	}
+
+	return replies;
+}
+
+/**
+ * Pull the replies to a post out of Threads' GraphQL responses. Replies come
+ * in `thread_items` chains where each item answers the one before it.
+ */
+export function parseThreadsResponses(
+	documents: unknown[],
+	postCode: string,
+): InterceptedComment[] {
+	const comments = new Map<string, InterceptedComment>();
+
+	walkObjects(documents, (node) => {
+		if (!Array.isArray(node.thread_items)) return;
+
+		let parentId: string | undefined;
+		for (const item of node.thread_items) {
+			const post = isObject(item) ? item.post : undefined;
+			if (!isObject(post)) continue;
+
+			const id = asString(post.pk ?? post.id);
+			const user = post.user;
+			if (!id || !isObject(user)) continue;
+
+			// The post itself heads its own chain
+			if (post.code === postCode) {
+				parentId = undefined;
+				continue;
+			}
+
+			const caption = isObject(post.caption) ? post.caption : {};
+			const username = asString(user.username);
+			const text = asString(caption.text);
+			// Media-only replies have no caption. Still chain from them so the
+			// reply below isn't put under the wrong comment.
+			if (!username || !text) {
+				parentId = id;
+				continue;
+			}
+
+			const appInfo = isObject(post.text_post_app_info)
+				? post.text_post_app_info
+				: {};
+
+			comments.set(id, {
+				id,
+				// Chains can start mid-thread in later responses
+				parentId: parentId ?? comments.get(id)?.parentId,
+				username,
+				nickname: asString(user.full_name) || username,
+				text,
+				createTime: asNumber(post.taken_at),
+				avatar: asString(user.profile_pic_url),
+				likeCount: asNumber(post.like_count),
+				replyCount: asNumber(appInfo.direct_reply_count),
+				isPinned: false,
+				isCreatorLiked: false,
+			});
+
+			parentId = id;
+		}
+	});
+
+	return [...comments.values()];
+}
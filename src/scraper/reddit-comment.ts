@@ -0,0 +1,204 @@
+import { reddit } from "../platforms";
+import { Comments, type ScrapeProgressListener } from "../types";
+import { logger } from "../utils";
+import {
+	parseMoreChildren,
+	parseRedditThread,
+	type RawRedditComment,
+	type RedditMoreStub,
+	redditToComments,
+} from "./reddit-listing";
+import type { CommentScraper } from "./registry";
+
+// Retry configuration, Reddit answers 429 when requests come too fast
+const RETRY_CONFIG = {
+	maxRetries: 3,
+	baseDelay: 2000, // 2 seconds
+	maxDelay: 10000, // 10 seconds
+};
+
+// Pause between requests, unauthenticated clients get ~100 requests a minute
+const REQUEST_DELAY_MS = 700;
+
+// Most comment IDs /api/morechildren accepts per request
+const MORE_CHILDREN_BATCH = 100;
+
+// Safety limit for very large threads
+const MAX_REQUESTS = 300;
+
+export class RedditComment {
+	private static readonly BASE_URL = "https://www.reddit.com";
+	// Reddit blocks generic user agents
+	private static readonly USER_AGENT =
+		"web:tiktok-comment-scrapper:1.0 (comment export tool)";
+
+	private onProgress?: ScrapeProgressListener;
+	private requestCount = 0;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
+
+	private async fetchJson(url: string, retryCount = 0): Promise<unknown> {
+		if (this.requestCount > 0) {
+			await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+		}
+		this.requestCount++;
+
+		try {
+			const response = await fetch(url, {
+				headers: {
+					Accept: "application/json",
+					"User-Agent": RedditComment.USER_AGENT,
+				},
+			});
+
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}`);
+			}
+
+			return await response.json();
+		} catch (error) {
+			if (retryCount < RETRY_CONFIG.maxRetries) {
+				const delay = Math.min(
+					RETRY_CONFIG.baseDelay * 2 ** retryCount,
+					RETRY_CONFIG.maxDelay,
+				);
+				logger.warn(
+					`Fetch failed (${error}), retrying in ${delay}ms (attempt ${
+						retryCount + 1
+					}/${RETRY_CONFIG.maxRetries})...`,
+				);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+				return this.fetchJson(url, retryCount + 1);
+			}
+			throw new Error(
+				`Fetch failed after ${RETRY_CONFIG.maxRetries} retries: ${error}`,
+			);
+		}
+	}
+
+	/**
+	 * Load the comments hidden behind "load more comments" and "continue this
+	 * thread" stubs, including the stubs those turn up
+	 */
+	private async expandMore(
+		postId: string,
+		stubs: RedditMoreStub[],
+		comments: Map<string, RawRedditComment>,
+		total: number,
+	): Promise<void> {
+		const queue = [...stubs];
+
+		while (queue.length > 0) {
+			if (this.requestCount >= MAX_REQUESTS) {
+				logger.warn(
+					`Stopped after ${MAX_REQUESTS} requests, ${queue.length} "more" stubs left`,
+				);
+				break;
+			}
+
+			const stub = queue.shift();
+			if (!stub) break;
+
+			let loaded: { comments: RawRedditComment[]; more: RedditMoreStub[] };
+
+			if (stub.children.length > 0) {
+				const ids = stub.children.slice(0, MORE_CHILDREN_BATCH);
+				const rest = stub.children.slice(MORE_CHILDREN_BATCH);
+				if (rest.length > 0) {
+					queue.unshift({ ...stub, children: rest });
+				}
+
+				const url = new URL(`${RedditComment.BASE_URL}/api/morechildren.json`);
+				url.searchParams.set("api_type", "json");
+				url.searchParams.set("link_id", `t3_${postId}`);
+				url.searchParams.set("children", ids.join(","));
+				url.searchParams.set("raw_json", "1");
+
+				loaded = parseMoreChildren(await this.fetchJson(url.toString()));
+			} else if (stub.parentId) {
+				// "continue this thread", load the parent's own thread page
+				const url = `${RedditComment.BASE_URL}/comments/${postId}/_/${stub.parentId}.json?limit=500&raw_json=1`;
+				loaded = parseRedditThread(await this.fetchJson(url));
+			} else {
+				continue;
+			}
+
+			for (const comment of loaded.comments) {
+				comments.set(comment.id, comment);
+			}
+			queue.push(...loaded.more);
+
+			logger.info(`Loaded ${comments.size} of ~${total} comments`);
+			this.onProgress?.({
+				type: "status",
+				message: `Loaded ${comments.size} of ${total} comments`,
+			});
+		}
+	}
+
+	/**
+	 * Scrape the full comment tree of a post, by its base36 ID
+	 */
+	async scrape(postId: string): Promise<Comments> {
+		logger.info(`Fetching Reddit post ${postId}...`);
+		this.onProgress?.({ type: "status", message: "Fetching post" });
+
+		const thread = parseRedditThread(
+			await this.fetchJson(
+				`${RedditComment.BASE_URL}/comments/${postId}.json?limit=500&raw_json=1`,
+			),
+		);
+
+		const comments = new Map(
+			thread.comments.map((comment) => [comment.id, comment]),
+		);
+
+		if (thread.more.length > 0) {
+			this.onProgress?.({ type: "status", message: "Loading more comments" });
+			await this.expandMore(postId, thread.more, comments, thread.numComments);
+		}
+
+		this.onProgress?.({ type: "status", message: "Building comment threads" });
+		const threads = redditToComments([...comments.values()]);
+
+		logger.info(
+			`Scraped ${comments.size} comments in ${threads.length} threads`,
+		);
+
+		return new Comments(
+			thread.title,
+			thread.permalink
+				? `${RedditComment.BASE_URL}${thread.permalink}`
+				: `${RedditComment.BASE_URL}/comments/${postId}`,
+			threads,
+			0,
+		);
+	}
+}
+
+export const redditScraper: CommentScraper = {
+	platform: reddit,
+	resolveInput: async (url) => {
+		let postId = reddit.extractContentId(url);
+
+		// Share links redirect to the post
+		if (!postId) {
+			try {
+				const response = await fetch(url, { method: "HEAD" });
+				postId = reddit.extractContentId(response.url);
+			} catch (error) {
+				logger.warn(`Failed to resolve Reddit link ${url}: ${error}`);
+			}
+		}
+
+		if (!postId) {
+			return { error: "Not a Reddit post URL" };
+		}
+
+		return { input: postId, contentId: postId };
+	},
+	scrape: (postId, { onProgress }) =>
+		new RedditComment(onProgress).scrape(postId),
+};
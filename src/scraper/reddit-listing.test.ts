@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import moreChildrenResponse from "./fixtures/reddit/morechildren.json";
+import threadResponse from "./fixtures/reddit/thread.json";
+import {
+	parseMoreChildren,
+	parseRedditThread,
+	redditToComments,
+} from "./reddit-listing";
+
+describe("parseRedditThread", () => {
+	const thread = parseRedditThread(threadResponse);
+
+	test("reads the post", () => {
+		expect(thread.title).toBe(
+			"Rewriting our build tool in Rust cut CI time by 60%",
+		);
+		expect(thread.permalink).toBe(
+			"/r/programming/comments/1dc4k2x/rewriting_our_build_tool_in_rust/",
+		);
+		expect(thread.numComments).toBe(11);
+	});
+
+	test("flattens the comment tree in page order", () => {
+		expect(thread.comments.map((comment) => comment.id)).toEqual([
+			"l7q0aa1",
+			"l7q1b2c",
+			"l7q2d3e",
+			"l7q3f4g",
+			"l7q8n9p",
+		]);
+		expect(thread.comments.map((comment) => comment.parentId)).toEqual([
+			undefined,
+			undefined,
+			"l7q1b2c",
+			"l7q2d3e",
+			undefined,
+		]);
+	});
+
+	test("collects load more stubs with their children", () => {
+		expect(thread.more).toContainEqual({
+			parentId: "l7q1b2c",
+			children: ["l7q5h6j", "l7q6k7m"],
+			count: 2,
+		});
+		// Under the post itself
+		expect(thread.more).toContainEqual({
+			parentId: undefined,
+			children: ["l7q9r0s", "l7qat1u"],
+			count: 4,
+		});
+	});
+
+	test("collects continue this thread stubs without children", () => {
+		expect(thread.more).toContainEqual({
+			parentId: "l7q3f4g",
+			children: [],
+			count: 0,
+		});
+	});
+
+	test("keeps deleted authors", () => {
+		const deleted = thread.comments.find((comment) => comment.id === "l7q3f4g");
+		expect(deleted?.author).toBe("[deleted]");
+		expect(deleted?.body).toBe("[deleted]");
+	});
+
+	test("tolerates unexpected responses", () => {
+		expect(parseRedditThread(null)).toEqual({
+			title: "",
+			permalink: "",
+			numComments: 0,
+			comments: [],
+			more: [],
+		});
+	});
+});
+
+describe("parseMoreChildren", () => {
+	const { comments, more } = parseMoreChildren(moreChildrenResponse);
+
+	test("reads the flat list of things", () => {
+		expect(comments.map((comment) => [comment.id, comment.parentId])).toEqual([
+			["l7q5h6j", "l7q1b2c"],
+			["l7q6k7m", "l7q5h6j"],
+			["l7q9r0s", undefined],
+			["l7qat1u", "l7q9r0s"],
+		]);
+	});
+
+	test("collects further stubs", () => {
+		expect(more).toEqual([
+			{ parentId: "l7qat1u", children: ["l7qbv2w"], count: 1 },
+		]);
+	});
+});
+
+describe("redditToComments", () => {
+	const thread = parseRedditThread(threadResponse);
+	const loaded = parseMoreChildren(moreChildrenResponse);
+	const comments = redditToComments([...thread.comments, ...loaded.comments]);
+
+	const byId = (id: string) =>
+		comments.find((comment) => comment.comment_id === id);
+
+	test("attaches nested replies to their top-level comment", () => {
+		expect(comments.map((comment) => comment.comment_id)).toEqual([
+			"l7q0aa1",
+			"l7q1b2c",
+			"l7q8n9p",
+			"l7q9r0s",
+		]);
+
+		const root = byId("l7q1b2c");
+		// Depth first, each reply right after the comment it answers
+		expect(root?.replies.map((reply) => reply.comment_id)).toEqual([
+			"l7q2d3e",
+			"l7q3f4g",
+			"l7q5h6j",
+			"l7q6k7m",
+		]);
+		expect(root?.total_reply).toBe(4);
+	});
+
+	test("keeps each reply's direct parent", () => {
+		const replies = byId("l7q1b2c")?.replies ?? [];
+		expect(replies.map((reply) => reply.parent_comment_id)).toEqual([
+			"l7q1b2c",
+			"l7q2d3e",
+			"l7q1b2c",
+			"l7q5h6j",
+		]);
+		expect(byId("l7q1b2c")?.parent_comment_id).toBeUndefined();
+	});
+
+	test("turns replies whose parent wasn't loaded into orphans", () => {
+		const orphans = redditToComments(loaded.comments);
+		expect(
+			orphans.map((comment) => [comment.comment_id, comment.is_orphan_reply]),
+		).toEqual([
+			["l7q5h6j", true],
+			["l7q9r0s", false],
+		]);
+		expect(orphans[0]?.parent_comment_id).toBe("l7q1b2c");
+		expect(orphans[0]?.replies.map((reply) => reply.comment_id)).toEqual([
+			"l7q6k7m",
+		]);
+	});
+
+	test("maps score to like_count", () => {
+		expect(byId("l7q1b2c")?.like_count).toBe(412);
+		expect(byId("l7q8n9p")?.like_count).toBe(-7);
+	});
+
+	test("marks stickied comments as pinned", () => {
+		expect(byId("l7q0aa1")?.is_pinned).toBe(true);
+		expect(byId("l7q1b2c")?.is_pinned).toBe(false);
+	});
+
+	test("keeps deleted authors", () => {
+		const deleted = byId("l7q1b2c")?.replies.find(
+			(reply) => reply.comment_id === "l7q3f4g",
+		);
+		expect(deleted?.username).toBe("[deleted]");
+		expect(deleted?.nickname).toBe("[deleted]");
+	});
+});
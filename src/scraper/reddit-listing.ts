@@ -0,0 +1,202 @@
+import { Comment } from "../types";
+
+// Comment read from Reddit's JSON, before threading
+export interface RawRedditComment {
+	id: string; // Base36 ID, without the "t1_" prefix
+	parentId?: string; // Unset for top-level comments
+	author: string;
+	body: string;
+	createdUtc: number;
+	score: number;
+	isStickied: boolean;
+}
+
+// "load more comments" / "continue this thread" placeholder
+export interface RedditMoreStub {
+	parentId?: string;
+	// Comment IDs to load with /api/morechildren. Empty for "continue this
+	// thread" links, which need the parent's own permalink instead.
+	children: string[];
+	count: number;
+}
+
+export interface RedditThread {
+	title: string;
+	permalink: string;
+	numComments: number;
+	comments: RawRedditComment[];
+	more: RedditMoreStub[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+	return typeof value === "string" ? value : "";
+}
+
+function asNumber(value: unknown): number {
+	return typeof value === "number" ? value : 0;
+}
+
+/**
+ * Children of a Reddit Listing (`{ kind: "Listing", data: { children } }`)
+ */
+function listingChildren(listing: unknown): unknown[] {
+	if (!isObject(listing) || !isObject(listing.data)) return [];
+	return Array.isArray(listing.data.children) ? listing.data.children : [];
+}
+
+/**
+ * Comment ID of a "t1_" fullname, undefined for the post ("t3_")
+ */
+function commentParentId(fullname: unknown): string | undefined {
+	const name = asString(fullname);
+	return name.startsWith("t1_") ? name.slice(3) : undefined;
+}
+
+/**
+ * Collect comments and "more" stubs from a list of things, depth first so
+ * they come out in page order
+ */
+function collectThings(
+	things: unknown[],
+	comments: RawRedditComment[],
+	more: RedditMoreStub[],
+): void {
+	for (const thing of things) {
+		if (!isObject(thing) || !isObject(thing.data)) continue;
+		const data = thing.data;
+
+		if (thing.kind === "more") {
+			more.push({
+				parentId: commentParentId(data.parent_id),
+				children: Array.isArray(data.children)
+					? data.children.filter((id): id is string => typeof id === "string")
+					: [],
+				count: asNumber(data.count),
+			});
+			continue;
+		}
+
+		if (thing.kind !== "t1") continue;
+
+		const id = asString(data.id);
+		if (!id) continue;
+
+		comments.push({
+			id,
+			parentId: commentParentId(data.parent_id),
+			author: asString(data.author) || "[deleted]",
+			body: asString(data.body),
+			createdUtc: asNumber(data.created_utc),
+			score: asNumber(data.score),
+			isStickied: Boolean(data.stickied),
+		});
+
+		// Replies is "" when there are none
+		collectThings(listingChildren(data.replies), comments, more);
+	}
+}
+
+/**
+ * Parse the response of a post's `.json` endpoint: a listing with the post,
+ * followed by a listing with its comment tree
+ */
+export function parseRedditThread(response: unknown): RedditThread {
+	const [postListing, commentListing] = Array.isArray(response) ? response : [];
+
+	const post = listingChildren(postListing)[0];
+	const postData = isObject(post) && isObject(post.data) ? post.data : {};
+
+	const comments: RawRedditComment[] = [];
+	const more: RedditMoreStub[] = [];
+	collectThings(listingChildren(commentListing), comments, more);
+
+	return {
+		title: asString(postData.title),
+		permalink: asString(postData.permalink),
+		numComments: asNumber(postData.num_comments),
+		comments,
+		more,
+	};
+}
+
+/**
+ * Parse the response of `/api/morechildren.json?api_type=json`. The things
+ * come back as a flat list, linked through their parent IDs.
+ */
+export function parseMoreChildren(response: unknown): {
+	comments: RawRedditComment[];
+	more: RedditMoreStub[];
+} {
+	const json = isObject(response) ? response.json : undefined;
+	const data = isObject(json) ? json.data : undefined;
+	const things =
+		isObject(data) && Array.isArray(data.things) ? data.things : [];
+
+	const comments: RawRedditComment[] = [];
+	const more: RedditMoreStub[] = [];
+	collectThings(things, comments, more);
+
+	return { comments, more };
+}
+
+/**
+ * Turn Reddit comments into threads. Reddit nests replies to any depth, here
+ * every reply is attached to its top-level comment (depth first, so a reply
+ * follows the comment it answers) and keeps its direct parent in
+ * `parent_comment_id`. Replies whose parent wasn't loaded become orphans.
+ */
+export function redditToComments(items: RawRedditComment[]): Comment[] {
+	const byId = new Map(items.map((item) => [item.id, item]));
+
+	const children = new Map<string, RawRedditComment[]>();
+	const roots: RawRedditComment[] = [];
+	for (const item of byId.values()) {
+		if (item.parentId && byId.has(item.parentId)) {
+			const siblings = children.get(item.parentId) ?? [];
+			siblings.push(item);
+			children.set(item.parentId, siblings);
+		} else {
+			roots.push(item);
+		}
+	}
+
+	const descendants = (item: RawRedditComment): RawRedditComment[] =>
+		(children.get(item.id) ?? []).flatMap((child) => [
+			child,
+			...descendants(child),
+		]);
+
+	const toComment = (
+		item: RawRedditComment,
+		replies: Comment[],
+		isOrphan = false,
+	) =>
+		new Comment(
+			item.id,
+			item.author,
+			item.author,
+			item.body,
+			item.createdUtc || Math.floor(Date.now() / 1000),
+			"",
+			replies.length || (children.get(item.id)?.length ?? 0),
+			replies,
+			item.parentId,
+			isOrphan,
+			item.score,
+			item.isStickied,
+		);
+
+	return roots.map((root) =>
+		toComment(
+			root,
+			descendants(root).map((reply) => toComment(reply, [])),
+			Boolean(root.parentId),
+		),
+	);
+}
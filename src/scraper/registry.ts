@@ -0,0 +1,62 @@
+import type { PlatformDefinition } from "../platforms";
+import type { Comments, ScrapeProgressListener } from "../types";
+import { facebookScraper } from "./facebook-comment";
+import { instagramScraper } from "./instagram-comment";
+import { redditScraper } from "./reddit-comment";
+import { threadsScraper } from "./threads-comment";
+import { tiktokScraper } from "./tiktok-comment";
+import { xScraper } from "./x-comment";
+import { youtubeScraper } from "./youtube-comment";
+
+export interface ScrapeOptions {
+	onProgress?: ScrapeProgressListener;
+	// Stored result to scrape incrementally from, for scrapers that
+	// support it
+	previous?: Comments;
+}
+
+export interface ResolvedInput {
+	// What `scrape` is called with
+	input: string;
+	contentId: string;
+}
+
+/**
+ * A platform's scraper. Its URL matching, content IDs and auth needs come
+ * from the platform definition in src/platforms.
+ */
+export interface CommentScraper {
+	platform: PlatformDefinition;
+	/**
+	 * Turn the user's URL and/or ID into the scraper's input. Without it the
+	 * URL is scraped as is. Returns an error message when it can't be scraped.
+	 */
+	resolveInput?: (
+		url: string,
+		id?: string,
+	) => Promise<ResolvedInput | { error: string }>;
+	scrape: (input: string, options: ScrapeOptions) => Promise<Comments>;
+}
+
+// Every scraper, one per platform in PLATFORMS. Each carries its platform,
+// so registering one is a single entry here.
+const SCRAPERS = new Map(
+	[
+		tiktokScraper,
+		youtubeScraper,
+		instagramScraper,
+		facebookScraper,
+		redditScraper,
+		xScraper,
+		threadsScraper,
+	].map((scraper) => [scraper.platform.id, scraper]),
+);
+
+/**
+ * Scraper for a platform ID, undefined when there's none
+ */
+export function getScraper(
+	platform: string | null | undefined,
+): CommentScraper | undefined {
+	return SCRAPERS.get(platform ?? "");
+}
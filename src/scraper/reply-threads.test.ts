@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildCommentTree,
+	type CommentThread,
+	type ThreadItem,
+} from "./reply-threads";
+
+function item(id: string, parentId?: string): ThreadItem {
+	return { id, parentId };
+}
+
+function ids(threads: CommentThread<ThreadItem>[]) {
+	return threads.map((thread) => ({
+		id: thread.item.id,
+		replies: thread.replies.map((reply) => reply.id),
+		isOrphan: thread.isOrphan,
+	}));
+}
+
+describe("buildCommentTree", () => {
+	test("attaches replies to replies to the top-level comment", () => {
+		const threads = buildCommentTree([
+			item("c1"),
+			item("r1", "c1"),
+			item("r2", "r1"),
+			item("r3", "r2"),
+			item("c2"),
+			item("r4", "c2"),
+		]);
+		expect(ids(threads)).toEqual([
+			{ id: "c1", replies: ["r1", "r2", "r3"], isOrphan: false },
+			{ id: "c2", replies: ["r4"], isOrphan: false },
+		]);
+	});
+
+	test("keeps the items themselves", () => {
+		const parent = { id: "c1", text: "first" };
+		const reply = { id: "r1", parentId: "c1", text: "second" };
+		const [thread] = buildCommentTree([parent, reply]);
+		expect(thread?.item).toBe(parent);
+		expect(thread?.replies[0]).toBe(reply);
+	});
+
+	test("keeps replies whose parent wasn't scraped as orphans", () => {
+		const threads = buildCommentTree([
+			item("c1"),
+			item("r1", "missing"),
+			item("r2", "r1"),
+		]);
+		// r2 has a parent, but the chain up to a top-level comment is broken
+		expect(ids(threads)).toEqual([
+			{ id: "c1", replies: [], isOrphan: false },
+			{ id: "r1", replies: [], isOrphan: true },
+			{ id: "r2", replies: [], isOrphan: true },
+		]);
+	});
+
+	test("threads replies that come before their parent", () => {
+		const threads = buildCommentTree([
+			item("r2", "r1"),
+			item("r1", "c1"),
+			item("c2"),
+			item("c1"),
+		]);
+		// The thread sits where its first reply was
+		expect(ids(threads)).toEqual([
+			{ id: "c1", replies: ["r2", "r1"], isOrphan: false },
+			{ id: "c2", replies: [], isOrphan: false },
+		]);
+	});
+
+	test("treats a reply cycle as orphans", () => {
+		const threads = buildCommentTree([item("a", "b"), item("b", "a")]);
+		expect(ids(threads)).toEqual([
+			{ id: "a", replies: [], isOrphan: true },
+			{ id: "b", replies: [], isOrphan: true },
+		]);
+	});
+
+	test("returns no threads for no comments", () => {
+		expect(buildCommentTree([])).toEqual([]);
+	});
+});
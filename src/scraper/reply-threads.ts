@@ -0,0 +1,110 @@
+import type { Page } from "playwright";
+import { logger } from "../utils";
+
+export interface ThreadItem {
+	id: string;
+	parentId?: string;
+}
+
+export interface CommentThread<T extends ThreadItem> {
+	item: T;
+	replies: T[];
+	// Reply whose parent wasn't scraped, kept at the top level
+	isOrphan: boolean;
+}
+
+/**
+ * Nest a flat list of comments and replies into threads. Replies to replies
+ * are attached to the top-level comment, the way TikTok threads work.
+ */
+export function buildCommentTree<T extends ThreadItem>(
+	items: T[],
+): CommentThread<T>[] {
+	const byId = new Map(items.map((item) => [item.id, item]));
+
+	const findRoot = (item: T): T | undefined => {
+		let current = item;
+		const visited = new Set<string>();
+		while (current.parentId) {
+			if (visited.has(current.id)) return undefined;
+			visited.add(current.id);
+
+			const parent = byId.get(current.parentId);
+			if (!parent) return undefined;
+			current = parent;
+		}
+		return current;
+	};
+
+	// Keyed by the top-level comment, in page order
+	const threads = new Map<string, CommentThread<T>>();
+	const getThread = (root: T) => {
+		let thread = threads.get(root.id);
+		if (!thread) {
+			thread = { item: root, replies: [], isOrphan: false };
+			threads.set(root.id, thread);
+		}
+		return thread;
+	};
+
+	for (const item of items) {
+		if (!item.parentId) {
+			getThread(item);
+			continue;
+		}
+
+		const root = findRoot(item);
+		if (root) {
+			getThread(root).replies.push(item);
+		} else {
+			threads.set(item.id, { item, replies: [], isOrphan: true });
+		}
+	}
+
+	return [...threads.values()];
+}
+
+/**
+ * Keep clicking buttons whose text matches `pattern` ("View replies",
+ * "View more replies", ...) until none are left
+ */
+export async function expandReplyButtons(
+	page: Page,
+	pattern: RegExp,
+	maxRounds = 30,
+): Promise<number> {
+	let totalClicked = 0;
+
+	for (let round = 1; round <= maxRounds; round++) {
+		const clicked = await page.evaluate(
+			({ source, flags }) => {
+				const matcher = new RegExp(source, flags);
+				const buttons = document.querySelectorAll<HTMLElement>(
+					'button, [role="button"]',
+				);
+
+				let count = 0;
+				buttons.forEach((button) => {
+					if (button.offsetParent === null) return;
+					if (!matcher.test(button.textContent?.trim() || "")) return;
+					// Nested buttons would be clicked twice
+					if (button.parentElement?.closest('button, [role="button"]')) return;
+					button.click();
+					count++;
+				});
+				return count;
+			},
+			{ source: pattern.source, flags: pattern.flags },
+		);
+
+		if (clicked === 0) break;
+
+		totalClicked += clicked;
+		logger.info(`Replies round ${round}: opened ${clicked} threads`);
+
+		// Wait for the replies to load
+		await page.waitForTimeout(1500);
+	}
+
+	return totalClicked;
+}
@@ -0,0 +1,86 @@
+import type { Page, Response } from "playwright";
+import { logger } from "../utils";
+
+/**
+ * Parse a response body that may hold several JSON documents, one per line
+ * (Facebook streams deferred GraphQL results this way) and may start with
+ * an anti-JSON-hijacking prefix like "for (;;);"
+ */
+export function parseJsonDocuments(body: string): unknown[] {
+	const documents: unknown[] = [];
+	const text = body.replace(/^for\s*\(;;\);/, "").trim();
+
+	try {
+		documents.push(JSON.parse(text));
+		return documents;
+	} catch {
+		// Not a single document, try line by line
+	}
+
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		try {
+			documents.push(JSON.parse(trimmed));
+		} catch {
+			// Not JSON
+		}
+	}
+
+	return documents;
+}
+
+/**
+ * Record the JSON bodies of the API responses a page loads, e.g. the
+ * GraphQL requests made while scrolling through comments
+ */
+export class ResponseCollector {
+	private page: Page;
+	private matches: (url: string) => boolean;
+	private documents: unknown[] = [];
+	private pending = new Set<Promise<void>>();
+
+	constructor(page: Page, matches: (url: string) => boolean) {
+		this.page = page;
+		this.matches = matches;
+	}
+
+	private handleResponse = (response: Response): void => {
+		if (!this.matches(response.url())) return;
+
+		const read = response
+			.text()
+			.then((body) => {
+				this.documents.push(...parseJsonDocuments(body));
+			})
+			.catch((error) => {
+				// Bodies of redirects and aborted requests can't be read
+				logger.debug(`Could not read ${response.url()}: ${error}`);
+			})
+			.finally(() => {
+				this.pending.delete(read);
+			});
+
+		this.pending.add(read);
+	};
+
+	start(): void {
+		this.page.on("response", this.handleResponse);
+	}
+
+	/**
+	 * Everything read so far, while still listening
+	 */
+	snapshot(): unknown[] {
+		return [...this.documents];
+	}
+
+	/**
+	 * Stop listening and return everything captured so far
+	 */
+	async stop(): Promise<unknown[]> {
+		this.page.off("response", this.handleResponse);
+		await Promise.all(this.pending);
+		return this.documents;
+	}
+}
@@ -0,0 +1,72 @@
+import {
+	detectPlatform,
+	formatPlatformNames,
+	PLATFORMS,
+	type SupportedPlatform,
+} from "../platforms";
+import type { Comments, ScrapeProgressListener } from "../types";
+import { getScraper } from "./registry";
+
+export type ScrapePlatform = SupportedPlatform;
+
+export interface ScrapeTarget {
+	platform: ScrapePlatform;
+	// TikTok video ID, or the post URL for the browser-scraped platforms
+	input: string;
+	// Platform-native content ID, used for file names and lookups
+	contentId: string;
+}
+
+/**
+ * Resolve a URL and/or TikTok video ID into something a scraper can run on.
+ * Returns an error message instead when the input can't be scraped.
+ */
+export async function resolveScrapeTarget(
+	url = "",
+	id?: string,
+): Promise<ScrapeTarget | { error: string }> {
+	// A bare ID without a URL is always a TikTok video ID
+	const platform = url ? detectPlatform(url) : id ? "tiktok" : "unknown";
+	const scraper = getScraper(platform);
+
+	if (platform === "unknown" || !scraper) {
+		return {
+			error: `Unsupported platform. Please enter a ${formatPlatformNames(PLATFORMS)} URL.`,
+		};
+	}
+
+	if (scraper.resolveInput) {
+		const resolved = await scraper.resolveInput(url, id);
+		return "error" in resolved ? resolved : { platform, ...resolved };
+	}
+
+	return {
+		platform,
+		input: url,
+		contentId:
+			scraper.platform.extractContentId(url) ?? url.replace(/[^\w-]+/g, "_"),
+	};
+}
+
+/**
+ * Run the scraper matching the target's platform. A previous result turns the
+ * scrape incremental, for platforms that support it.
+ */
+export async function runScrape(
+	target: ScrapeTarget,
+	onProgress?: ScrapeProgressListener,
+	previous?: Comments,
+): Promise<Comments> {
+	const scraper = getScraper(target.platform);
+	if (!scraper) {
+		throw new Error(`No scraper for platform "${target.platform}"`);
+	}
+
+	if (previous && !scraper.platform.supportsIncremental) {
+		throw new Error(
+			`Incremental scrapes are not supported for ${scraper.platform.displayName}`,
+		);
+	}
+
+	return scraper.scrape(target.input, { onProgress, previous });
+}
@@ -6,9 +6,11 @@ import {
 	chromium,
 	type Page,
 } from "playwright";
+import { AUTH_PLATFORMS, type AuthPlatform, getPlatform } from "../platforms";
 import { logger } from "../utils";
+import { type ProxySettings, proxyPool } from "./proxy-pool";
 
-export type Platform = "instagram" | "facebook" | "youtube";
+export type Platform = AuthPlatform;
 
 interface SessionData {
 	cookies: Array<{
@@ -25,34 +27,6 @@ interface SessionData {
 	timestamp: number;
 }
 
-interface PlatformConfig {
-	name: Platform;
-	loginUrl: string;
-	checkSelector: string; // Selector to verify logged in state
-	domain: string;
-}
-
-const PLATFORM_CONFIGS: Record<Platform, PlatformConfig> = {
-	instagram: {
-		name: "instagram",
-		loginUrl: "https://www.instagram.com/accounts/login/",
-		checkSelector: 'svg[aria-label="Home"], a[href="/"]',
-		domain: ".instagram.com",
-	},
-	facebook: {
-		name: "facebook",
-		loginUrl: "https://www.facebook.com/login",
-		checkSelector: '[aria-label="Facebook"], [data-pagelet="BlueBars"]',
-		domain: ".facebook.com",
-	},
-	youtube: {
-		name: "youtube",
-		loginUrl: "https://accounts.google.com/ServiceLogin?service=youtube",
-		checkSelector: 'button[aria-label*="Account"], #avatar-btn',
-		domain: ".youtube.com",
-	},
-};
-
 // Session expiry time (7 days)
 const SESSION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
 
@@ -111,11 +85,10 @@ export class SessionManager {
 	 * Get session status for all platforms
 	 */
 	getSessionStatus(): Record<Platform, { valid: boolean; expiresAt?: number }> {
-		const platforms: Platform[] = ["instagram", "facebook", "youtube"];
 		const status: Record<Platform, { valid: boolean; expiresAt?: number }> =
 			{} as Record<Platform, { valid: boolean; expiresAt?: number }>;
 
-		for (const platform of platforms) {
+		for (const platform of AUTH_PLATFORMS) {
 			const sessionPath = this.getSessionPath(platform);
 
 			if (!existsSync(sessionPath)) {
@@ -241,8 +214,7 @@ export class SessionManager {
 	 * Clear all sessions
 	 */
 	clearAllSessions(): void {
-		const platforms: Platform[] = ["instagram", "facebook", "youtube"];
-		for (const platform of platforms) {
+		for (const platform of AUTH_PLATFORMS) {
 			this.clearSession(platform);
 		}
 	}
@@ -269,7 +241,7 @@ export class SessionManager {
 			};
 		}
 
-		const config = PLATFORM_CONFIGS[platform];
+		const config = getPlatform(platform)?.auth;
 
 		if (!config) {
 			return {
@@ -335,7 +307,14 @@ export class SessionManager {
 			};
 		}
 
-		const config = PLATFORM_CONFIGS[platform];
+		const config = getPlatform(platform)?.auth;
+
+		if (!config) {
+			return {
+				success: false,
+				message: `Unknown platform: ${platform}`,
+			};
+		}
 
 		try {
 			// Check if user appears to be logged in
@@ -411,16 +390,24 @@ export class SessionManager {
 	}
 
 	/**
-	 * Create a browser context with session loaded
+	 * Create a browser context with session loaded, routed through the next
+	 * proxy in the pool when proxies are configured
 	 */
 	async createAuthenticatedContext(platform: Platform): Promise<{
 		browser: Browser;
 		context: BrowserContext;
 		hasSession: boolean;
+		proxy?: ProxySettings;
 	}> {
+		const proxy = proxyPool.acquire();
+		if (proxy) {
+			logger.info(`Using proxy ${proxy.server} for ${platform}`);
+		}
+
 		const browser = await chromium.launch({
 			executablePath: "/usr/bin/chromium",
 			headless: true,
+			proxy,
 		});
 
 		const context = await browser.newContext({
@@ -430,9 +417,11 @@ export class SessionManager {
 			locale: "en-US",
 		});
 
+		proxyPool.track(context, proxy);
+
 		const hasSession = await this.loadSession(platform, context);
 
-		return { browser, context, hasSession };
+		return { browser, context, hasSession, proxy };
 	}
 }
 
@@ -0,0 +1,190 @@
+import type { Browser, BrowserContext, Page } from "playwright";
+import { threads } from "../platforms";
+import { Comments, type ScrapeProgressListener } from "../types";
+import { logger } from "../utils";
+import {
+	interceptedToComments,
+	parseThreadsResponses,
+} from "./intercepted-comments";
+import type { CommentScraper } from "./registry";
+import { ResponseCollector } from "./response-collector";
+import { sessionManager } from "./session-manager";
+
+// GraphQL requests made while scrolling through replies
+const THREADS_REPLY_API = /\/(?:api\/)?graphql/;
+
+export class ThreadsComment {
+	private browser: Browser | null = null;
+	private context: BrowserContext | null = null;
+	private page: Page | null = null;
+	private hasSession = false;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
+
+	private async initBrowser(): Promise<void> {
+		if (this.browser) return;
+
+		logger.info("Launching browser for Threads...");
+
+		// Try to use authenticated session
+		const result = await sessionManager.createAuthenticatedContext("threads");
+		this.browser = result.browser;
+		this.context = result.context;
+		this.hasSession = result.hasSession;
+
+		if (this.hasSession) {
+			logger.info("Using saved Threads session");
+		} else {
+			logger.info(
+				"No Threads session found, scraping as guest (may have limited access)",
+			);
+		}
+
+		this.page = await this.context.newPage();
+	}
+
+	private async closeBrowser(): Promise<void> {
+		if (this.browser) {
+			await this.browser.close();
+			this.browser = null;
+			this.context = null;
+			this.page = null;
+		}
+	}
+
+	private async scrollToLoadReplies(maxScrolls: number = 30): Promise<void> {
+		if (!this.page) return;
+
+		logger.info("Scrolling to load replies...");
+		this.onProgress?.({ type: "status", message: "Scrolling to load replies" });
+
+		for (let i = 0; i < maxScrolls; i++) {
+			const previousHeight = await this.page.evaluate(() => {
+				const height = document.body.scrollHeight;
+				window.scrollTo(0, height);
+				return height;
+			});
+
+			await this.page.waitForTimeout(2000);
+
+			const newHeight = await this.page.evaluate(
+				() => document.body.scrollHeight,
+			);
+
+			this.onProgress?.({
+				type: "status",
+				message: `Scrolling to load replies (${i + 1})`,
+			});
+
+			if (newHeight === previousHeight) {
+				logger.info(`No new content loaded after scroll ${i + 1}, stopping`);
+				break;
+			}
+		}
+	}
+
+	/**
+	 * The first replies are server rendered into JSON script tags rather
+	 * than fetched, read them from there
+	 */
+	private async readEmbeddedData(): Promise<unknown[]> {
+		if (!this.page) return [];
+
+		const scripts = await this.page.evaluate(() => {
+			const texts: string[] = [];
+			document
+				.querySelectorAll('script[type="application/json"]')
+				.forEach((script) => {
+					if (script.textContent?.includes("thread_items")) {
+						texts.push(script.textContent);
+					}
+				});
+			return texts;
+		});
+
+		const documents: unknown[] = [];
+		for (const text of scripts) {
+			try {
+				documents.push(JSON.parse(text));
+			} catch {
+				// Not JSON
+			}
+		}
+		return documents;
+	}
+
+	async scrape(url: string): Promise<Comments> {
+		const postCode = threads.extractContentId(url);
+		if (!postCode) {
+			throw new Error(`No post code in Threads URL: ${url}`);
+		}
+
+		try {
+			await this.initBrowser();
+
+			if (!this.page) {
+				throw new Error("Browser not initialized");
+			}
+
+			const collector = new ResponseCollector(this.page, (responseUrl) =>
+				THREADS_REPLY_API.test(responseUrl),
+			);
+			collector.start();
+
+			logger.info(`Navigating to Threads: ${url}`);
+			await this.page.goto(url, {
+				waitUntil: "domcontentloaded",
+				timeout: 60000,
+			});
+
+			// Wait for content to load
+			await this.page.waitForTimeout(3000);
+
+			const embedded = await this.readEmbeddedData();
+			await this.scrollToLoadReplies();
+
+			this.onProgress?.({ type: "status", message: "Parsing replies" });
+			const intercepted = parseThreadsResponses(
+				[...embedded, ...(await collector.stop())],
+				postCode,
+			);
+			const comments = interceptedToComments(intercepted);
+
+			// Text of the post itself
+			let caption = "";
+			try {
+				caption = await this.page.$eval(
+					'meta[property="og:description"]',
+					(el) => el.getAttribute("content") || "",
+				);
+			} catch {
+				// Caption extraction failed
+			}
+
+			logger.info(`Scraped ${intercepted.length} replies from Threads`);
+
+			if (comments.length === 0 && !this.hasSession) {
+				return new Comments(
+					caption || "Threads Post",
+					url,
+					[],
+					0,
+					true,
+					"No replies found. Threads may require authentication. Try logging in via /api/session/login?platform=threads",
+				);
+			}
+
+			return new Comments(caption || "Threads Post", url, comments, 0);
+		} finally {
+			await this.closeBrowser();
+		}
+	}
+}
+
+export const threadsScraper: CommentScraper = {
+	platform: threads,
+	scrape: (url, { onProgress }) => new ThreadsComment(onProgress).scrape(url),
+};
@@ -1,11 +1,29 @@
 import {
-	chromium,
 	type Browser,
 	type BrowserContext,
+	chromium,
 	type Page,
 } from "playwright";
-import { Comment, Comments } from "../types";
-import { logger } from "../utils";
+import { tiktok } from "../platforms";
+import {
+	type CollectionData,
+	Comment,
+	Comments,
+	type ScrapeProgressListener,
+	type VideoCommentsData,
+	type VideoInfo,
+} from "../types";
+import {
+	extractVideoId,
+	isShortUrl,
+	logger,
+	parseCollectionSource,
+	resolveShortUrl,
+	type TiktokCollectionSource,
+} from "../utils";
+import { type ProxySettings, proxyPool } from "./proxy-pool";
+import type { CommentScraper } from "./registry";
+import { ResponseCollector } from "./response-collector";
 
 interface RawCommentData {
 	cid: string;
@@ -20,6 +38,10 @@ interface RawCommentData {
 	create_time: number;
 	reply_comment_total: number;
 	reply_id?: string; // Parent comment ID if this is a reply
+	digg_count?: number; // Like count
+	is_author_digged?: boolean; // Liked by the video's creator
+	author_pin?: boolean; // Pinned by the video's creator
+	stick_position?: number; // Non-zero when pinned to the top
 }
 
 interface CommentListResponse {
@@ -31,6 +53,7 @@ interface CommentListResponse {
 	})[];
 	has_more: number;
 	cursor: number; // Cursor for next page from API
+	total?: number; // Total top-level comments on the video
 	status_code?: number;
 }
 
@@ -41,6 +64,79 @@ interface ReplyListResponse {
 	status_code?: number;
 }
 
+const TIKTOK_BASE_URL = "https://www.tiktok.com";
+
+// Video in the profile and hashtag item list responses
+interface RawVideoItem {
+	id: string;
+	desc?: string;
+	createTime: number | string;
+	author?: { uniqueId?: string };
+	stats?: {
+		playCount?: number;
+		diggCount?: number;
+		commentCount?: number;
+		shareCount?: number;
+	};
+	video?: { duration?: number; cover?: string };
+}
+
+export interface CollectionOptions {
+	limit?: number; // Newest N videos
+	since?: Date;
+	until?: Date;
+}
+
+// Video lists the profile and hashtag pages load while scrolling
+const VIDEO_LIST_API = /\/api\/(?:post|challenge)\/item_list\//;
+
+// Videos scraped when neither a limit nor a date range is given
+const DEFAULT_COLLECTION_LIMIT = 10;
+
+// Safety limit when scrolling profile and hashtag pages
+const MAX_COLLECTION_SCROLLS = 50;
+
+/**
+ * Read the videos out of item list responses, newest first
+ */
+function parseVideoItems(documents: unknown[]): VideoInfo[] {
+	const videos = new Map<string, VideoInfo>();
+
+	for (const document of documents) {
+		const items = (document as { itemList?: RawVideoItem[] } | null)?.itemList;
+		if (!Array.isArray(items)) continue;
+
+		for (const item of items) {
+			if (!item?.id) continue;
+			const author = item.author?.uniqueId ?? "";
+
+			videos.set(item.id, {
+				id: item.id,
+				url: `${TIKTOK_BASE_URL}/@${author}/video/${item.id}`,
+				description: item.desc ?? "",
+				create_time: new Date(Number(item.createTime) * 1000)
+					.toISOString()
+					.slice(0, 19),
+				author,
+				play_count: item.stats?.playCount ?? 0,
+				like_count: item.stats?.diggCount ?? 0,
+				comment_count: item.stats?.commentCount ?? 0,
+				share_count: item.stats?.shareCount ?? 0,
+				duration: item.video?.duration ?? 0,
+				cover: item.video?.cover ?? "",
+			});
+		}
+	}
+
+	return [...videos.values()].sort((a, b) =>
+		b.create_time.localeCompare(a.create_time),
+	);
+}
+
+// Replies re-read before the known ones on incremental scrapes, in case
+// some were deleted since the previous run and the offsets shifted
+const REPLY_CURSOR_OVERLAP = 10;
+
 // Retry configuration
 const RETRY_CONFIG = {
 	maxRetries: 3,
@@ -49,13 +145,19 @@ const RETRY_CONFIG = {
 };
 
 export class TiktokComment {
-	private static readonly BASE_URL = "https://www.tiktok.com";
+	private static readonly BASE_URL = TIKTOK_BASE_URL;
 	private static readonly API_URL = `${TiktokComment.BASE_URL}/api`;
 
 	private id = "";
 	private browser: Browser | null = null;
 	private context: BrowserContext | null = null;
 	private page: Page | null = null;
+	private proxy: ProxySettings | undefined;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
 
 	private parseComment(
 		data: RawCommentData,
@@ -73,6 +175,9 @@ export class TiktokComment {
 			parent_comment_id:
 				parentCommentId ||
 				(data.reply_id && data.reply_id !== "0" ? data.reply_id : undefined),
+			like_count: data.digg_count ?? 0,
+			is_pinned: Boolean(data.author_pin || data.stick_position),
+			is_creator_liked: data.is_author_digged ?? false,
 		};
 
 		const comment = new Comment(
@@ -85,6 +190,10 @@ export class TiktokComment {
 			parsedData.total_reply,
 			replies,
 			parsedData.parent_comment_id,
+			false,
+			parsedData.like_count,
+			parsedData.is_pinned,
+			parsedData.is_creator_liked,
 		);
 
 		logger.info(
@@ -97,10 +206,17 @@ export class TiktokComment {
 	private async initBrowser(): Promise<void> {
 		if (this.browser) return;
 
-		logger.info("Launching browser...");
+		// A new scraper is created per job, so each job gets the next proxy
+		this.proxy = proxyPool.acquire();
+		logger.info(
+			this.proxy
+				? `Launching browser via proxy ${this.proxy.server}...`
+				: "Launching browser...",
+		);
 		this.browser = await chromium.launch({
 			executablePath: "/usr/bin/chromium",
 			headless: true,
+			proxy: this.proxy,
 		});
 
 		this.context = await this.browser.newContext({
@@ -109,6 +225,7 @@ export class TiktokComment {
 			viewport: { width: 1920, height: 1080 },
 			locale: "en-US",
 		});
+		proxyPool.track(this.context, this.proxy);
 
 		this.page = await this.context.newPage();
 
@@ -156,15 +273,18 @@ export class TiktokComment {
 				return res.json();
 			}, url);
 
+			proxyPool.reportSuccess(this.proxy);
 			return response as T;
 		} catch (error) {
+			proxyPool.reportFailure(this.proxy);
 			if (retryCount < RETRY_CONFIG.maxRetries) {
 				const delay = Math.min(
 					RETRY_CONFIG.baseDelay * 2 ** retryCount,
 					RETRY_CONFIG.maxDelay,
 				);
 				logger.warn(
-					`Fetch failed, retrying in ${delay}ms (attempt ${retryCount + 1}/${RETRY_CONFIG.maxRetries
+					`Fetch failed, retrying in ${delay}ms (attempt ${retryCount + 1}/${
+						RETRY_CONFIG.maxRetries
 					})...`,
 				);
 				await new Promise((resolve) => setTimeout(resolve, delay));
@@ -183,9 +303,11 @@ export class TiktokComment {
 	private async getAllReplies(
 		commentId: string,
 		parentCommentId: string,
+		totalReplies: number,
+		startCursor = 0,
 	): Promise<Comment[]> {
 		const replies: Comment[] = [];
-		let cursor = 0;
+		let cursor = startCursor;
 		let hasMore = true;
 		const size = 50;
 
@@ -217,6 +339,13 @@ export class TiktokComment {
 				replies.push(this.parseComment(replyData, [], parentCommentId));
 			}
 
+			this.onProgress?.({
+				type: "replies",
+				commentId,
+				fetched: replies.length,
+				total: totalReplies,
+			});
+
 			// Use the cursor returned by API for next page
 			hasMore = json.has_more === 1;
 			cursor = json.cursor;
@@ -232,9 +361,43 @@ export class TiktokComment {
 	}
 
 	/**
-	 * Get all comments using cursor-based pagination
+	 * Fetch only the replies added to a thread since it was last scraped and
+	 * merge them with the known ones
+	 */
+	private async getNewReplies(
+		commentId: string,
+		knownReplies: Comment[],
+		totalReplies: number,
+	): Promise<Comment[]> {
+		// Replies are listed oldest first, so new ones sit past the known ones
+		const startCursor = Math.max(0, knownReplies.length - REPLY_CURSOR_OVERLAP);
+		const fetched = await this.getAllReplies(
+			commentId,
+			commentId,
+			totalReplies,
+			startCursor,
+		);
+
+		const knownIds = new Set(knownReplies.map((reply) => reply.comment_id));
+		const newReplies = fetched.filter(
+			(reply) => !knownIds.has(reply.comment_id),
+		);
+
+		logger.info(
+			`Found ${newReplies.length} new replies for comment ${commentId}`,
+		);
+
+		return [...knownReplies, ...newReplies];
+	}
+
+	/**
+	 * Get all comments using cursor-based pagination.
+	 *
+	 * When a previous result is given, only comments newer than it are fetched:
+	 * pagination stops at the first page made up entirely of known comments,
+	 * and known threads are only refetched when their reply count grew.
 	 */
-	async getAllComments(id: string): Promise<Comments> {
+	async getAllComments(id: string, previous?: Comments): Promise<Comments> {
 		this.id = id;
 		const allComments: Comment[] = [];
 		let cursor = 0;
@@ -247,9 +410,16 @@ export class TiktokComment {
 		// Track seen comment IDs to avoid duplicates
 		const seenCommentIds = new Set<string>();
 
+		// Comments from the previous run, and the ones that got new replies since
+		const knownComments = new Map(
+			previous?.comments.map((comment) => [comment.comment_id, comment]),
+		);
+		const updatedComments = new Map<string, Comment>();
+
 		while (hasMore) {
 			pageCount++;
 			logger.info(`Fetching page ${pageCount} (cursor: ${cursor})...`);
+			this.onProgress?.({ type: "page", page: pageCount, cursor });
 
 			const url = new URL(`${TiktokComment.API_URL}/comment/list/`);
 			url.searchParams.set("aid", "1988");
@@ -282,6 +452,8 @@ export class TiktokComment {
 				videoUrl = json.comments[0].share_info.url ?? "";
 			}
 
+			const pageComments: Comment[] = [];
+
 			for (const commentData of json.comments) {
 				// Skip if we've already seen this comment (duplicate)
 				if (seenCommentIds.has(commentData.cid)) {
@@ -290,16 +462,53 @@ export class TiktokComment {
 				}
 				seenCommentIds.add(commentData.cid);
 
+				const known = knownComments.get(commentData.cid);
+				if (known) {
+					if (commentData.reply_comment_total > known.total_reply) {
+						logger.info(
+							`Comment ${commentData.cid} has new replies (${known.total_reply} -> ${commentData.reply_comment_total})`,
+						);
+						const replies = await this.getNewReplies(
+							commentData.cid,
+							known.replies,
+							commentData.reply_comment_total,
+						);
+						updatedComments.set(
+							commentData.cid,
+							this.parseComment(commentData, replies),
+						);
+					}
+					continue;
+				}
+
 				// Fetch replies if any
 				let replies: Comment[] = [];
 				if (commentData.reply_comment_total > 0) {
 					logger.info(
 						`Fetching ${commentData.reply_comment_total} replies for comment ${commentData.cid}...`,
 					);
-					replies = await this.getAllReplies(commentData.cid, commentData.cid);
+					replies = await this.getAllReplies(
+						commentData.cid,
+						commentData.cid,
+						commentData.reply_comment_total,
+					);
 				}
 
-				allComments.push(this.parseComment(commentData, replies));
+				pageComments.push(this.parseComment(commentData, replies));
+			}
+
+			allComments.push(...pageComments);
+			this.onProgress?.({
+				type: "comments",
+				fetched: allComments.length,
+				total: json.total,
+				comments: pageComments.map((comment) => comment.dict),
+			});
+
+			// Everything past a page of known comments was already scraped
+			if (knownComments.size > 0 && pageComments.length === 0) {
+				logger.info("Reached previously scraped comments, stopping");
+				break;
 			}
 
 			// Use the cursor returned by API for next page
@@ -323,16 +532,198 @@ export class TiktokComment {
 			`Finished scraping: ${allComments.length} comments across ${pageCount} pages`,
 		);
 
-		return new Comments(caption, videoUrl, allComments, 0);
+		if (!previous) {
+			return new Comments(caption, videoUrl, allComments, 0);
+		}
+
+		logger.info(
+			`Merging ${allComments.length} new comments and ${updatedComments.size} updated threads into previous result`,
+		);
+
+		// New comments first, followed by the previous ones in their original order
+		const merged = [
+			...allComments,
+			...previous.comments.map(
+				(comment) => updatedComments.get(comment.comment_id) ?? comment,
+			),
+		];
+
+		return new Comments(
+			caption || previous.caption,
+			videoUrl || previous.video_url,
+			merged,
+			0,
+		);
+	}
+
+	/**
+	 * List a profile's or hashtag's videos by scrolling its page, newest first,
+	 * filtered to the options' date range and limit. Profiles list their
+	 * videos newest first, so scrolling stops once it's past the range.
+	 * Hashtag pages are ranked instead, so they're scrolled until the feed
+	 * stops growing (or the scroll cap) before picking the newest.
+	 */
+	async listVideos(
+		source: TiktokCollectionSource,
+		options: CollectionOptions = {},
+	): Promise<VideoInfo[]> {
+		if (!this.page) {
+			throw new Error("Browser not initialized");
+		}
+
+		const { since, until } = options;
+		const limit =
+			options.limit ?? (since || until ? undefined : DEFAULT_COLLECTION_LIMIT);
+		const inRange = (video: VideoInfo) => {
+			const created = new Date(`${video.create_time}Z`);
+			return (!since || created >= since) && (!until || created <= until);
+		};
+
+		const collector = new ResponseCollector(this.page, (url) =>
+			VIDEO_LIST_API.test(url),
+		);
+		collector.start();
+
+		const pageUrl =
+			source.type === "profile"
+				? `${TiktokComment.BASE_URL}/@${source.name}`
+				: `${TiktokComment.BASE_URL}/tag/${encodeURIComponent(source.name)}`;
+		logger.info(`Listing videos from ${pageUrl}...`);
+		this.onProgress?.({ type: "status", message: "Listing videos" });
+
+		await this.page.goto(pageUrl, {
+			waitUntil: "domcontentloaded",
+			timeout: 60000,
+		});
+		await this.page.waitForTimeout(3000);
+
+		let previousCount = 0;
+		for (let i = 0; i < MAX_COLLECTION_SCROLLS; i++) {
+			const videos = parseVideoItems(collector.snapshot());
+			const matching = videos.filter(inRange);
+
+			logger.info(
+				`Scroll ${i + 1}: ${videos.length} videos listed, ${matching.length} in range`,
+			);
+			this.onProgress?.({
+				type: "status",
+				message: `Listed ${matching.length} videos`,
+			});
+
+			if (
+				source.type === "profile" &&
+				limit !== undefined &&
+				matching.length >= limit
+			) {
+				break;
+			}
+
+			// Everything further down a profile is older
+			const oldest = videos.at(-1);
+			if (
+				source.type === "profile" &&
+				since &&
+				oldest &&
+				new Date(`${oldest.create_time}Z`) < since
+			) {
+				break;
+			}
+
+			if (i > 0 && videos.length === previousCount) {
+				logger.info("No more videos loaded, stopping");
+				break;
+			}
+			previousCount = videos.length;
+
+			await this.page.evaluate(() => {
+				window.scrollTo(0, document.body.scrollHeight);
+			});
+			await this.page.waitForTimeout(2000);
+		}
+
+		const videos = parseVideoItems(await collector.stop()).filter(inRange);
+		return limit === undefined ? videos : videos.slice(0, limit);
+	}
+
+	/**
+	 * Scrape the comments of a profile's or hashtag's newest videos (or the
+	 * ones in a date range) into one result, grouped by video
+	 */
+	async scrapeCollection(
+		source: TiktokCollectionSource,
+		options: CollectionOptions = {},
+	): Promise<CollectionData> {
+		try {
+			await this.initBrowser();
+
+			const videos = await this.listVideos(source, options);
+			logger.info(`Scraping comments of ${videos.length} videos...`);
+
+			const results: VideoCommentsData[] = [];
+			for (const [index, video] of videos.entries()) {
+				logger.info(`Video ${index + 1}/${videos.length}: ${video.id}`);
+				this.onProgress?.({
+					type: "status",
+					message: `Scraping video ${index + 1} of ${videos.length}`,
+				});
+
+				const comments = await this.getAllComments(video.id);
+				results.push({ ...comments.dict, video });
+			}
+
+			return {
+				source,
+				scraped_at: new Date().toISOString(),
+				videos: results,
+			};
+		} finally {
+			await this.closeBrowser();
+		}
 	}
 
-	async scrape(id: string): Promise<Comments> {
+	/**
+	 * Scrape a video's comments. Pass a previous result to only fetch what's new.
+	 */
+	async scrape(id: string, previous?: Comments): Promise<Comments> {
 		try {
 			await this.initBrowser();
-			const result = await this.getAllComments(id);
+			const result = await this.getAllComments(id, previous);
 			return result;
 		} finally {
 			await this.closeBrowser();
 		}
 	}
 }
+
+export const tiktokScraper: CommentScraper = {
+	platform: tiktok,
+	resolveInput: async (url, id) => {
+		if (url && !id && parseCollectionSource(url)) {
+			return {
+				error:
+					"Profile and hashtag URLs are scraped from the CLI (--profile or --hashtag)",
+			};
+		}
+
+		let videoId = id;
+
+		if (url && !videoId) {
+			if (isShortUrl(url)) {
+				videoId = await resolveShortUrl(url);
+				if (!videoId) {
+					return { error: "Failed to resolve short URL" };
+				}
+			} else {
+				videoId = extractVideoId(url);
+			}
+		}
+
+		if (!videoId || !/^\d+$/.test(videoId)) {
+			return { error: "Invalid TikTok video ID" };
+		}
+
+		return { input: videoId, contentId: videoId };
+	},
+	scrape: (id, { onProgress, previous }) =>
+		new TiktokComment(onProgress).scrape(id, previous),
+};
@@ -0,0 +1,177 @@
+import type { Browser, BrowserContext, Page } from "playwright";
+import { x } from "../platforms";
+import { Comments, type ScrapeProgressListener } from "../types";
+import { logger } from "../utils";
+import { interceptedToComments, parseXResponses } from "./intercepted-comments";
+import type { CommentScraper } from "./registry";
+import { expandReplyButtons } from "./reply-threads";
+import { ResponseCollector } from "./response-collector";
+import { sessionManager } from "./session-manager";
+
+// GraphQL request that loads a post's conversation, and its pages
+const X_CONVERSATION_API = /\/graphql\/[\w-]+\/TweetDetail/;
+
+// "Show more replies", "Show probable spam", "Show additional replies"
+const X_REPLY_BUTTON =
+	/^show (more replies|probable spam|additional replies|replies)/i;
+
+export class XComment {
+	private browser: Browser | null = null;
+	private context: BrowserContext | null = null;
+	private page: Page | null = null;
+	private hasSession = false;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
+
+	private async initBrowser(): Promise<void> {
+		if (this.browser) return;
+
+		logger.info("Launching browser for X...");
+
+		// Replies are only shown to logged in users
+		const result = await sessionManager.createAuthenticatedContext("x");
+		this.browser = result.browser;
+		this.context = result.context;
+		this.hasSession = result.hasSession;
+
+		if (this.hasSession) {
+			logger.info("Using saved X session");
+		} else {
+			logger.info("No X session found, scraping as guest (replies are hidden)");
+		}
+
+		this.page = await this.context.newPage();
+	}
+
+	private async closeBrowser(): Promise<void> {
+		if (this.browser) {
+			await this.browser.close();
+			this.browser = null;
+			this.context = null;
+			this.page = null;
+		}
+	}
+
+	/**
+	 * Scroll the conversation until no new replies load, opening the
+	 * collapsed reply sections along the way
+	 */
+	private async scrollToLoadReplies(maxScrolls: number = 40): Promise<void> {
+		if (!this.page) return;
+
+		logger.info("Scrolling to load replies...");
+		this.onProgress?.({ type: "status", message: "Scrolling to load replies" });
+
+		let unchanged = 0;
+
+		for (let i = 0; i < maxScrolls; i++) {
+			const count = await this.page.evaluate(() => {
+				window.scrollBy(0, window.innerHeight * 2);
+				return document.querySelectorAll('article[data-testid="tweet"]').length;
+			});
+
+			await this.page.waitForTimeout(1500);
+			await expandReplyButtons(this.page, X_REPLY_BUTTON, 3);
+
+			const newCount = await this.page.evaluate(
+				() => document.querySelectorAll('article[data-testid="tweet"]').length,
+			);
+
+			logger.info(`Scroll ${i + 1}: ${newCount} posts on the page`);
+			this.onProgress?.({
+				type: "status",
+				message: `Loaded ${newCount} posts`,
+			});
+
+			// The timeline virtualizes, so also compare the scroll position
+			const atBottom = await this.page.evaluate(
+				() =>
+					window.innerHeight + window.scrollY >=
+					document.body.scrollHeight - 10,
+			);
+			unchanged = newCount === count && atBottom ? unchanged + 1 : 0;
+			if (unchanged >= 2) {
+				logger.info(`No new replies after scroll ${i + 1}, stopping`);
+				break;
+			}
+		}
+	}
+
+	async scrape(url: string): Promise<Comments> {
+		const postId = x.extractContentId(url);
+		if (!postId) {
+			throw new Error(`No post ID in X URL: ${url}`);
+		}
+
+		try {
+			await this.initBrowser();
+
+			if (!this.page) {
+				throw new Error("Browser not initialized");
+			}
+
+			// Replies only come through the API, the timeline drops
+			// posts that scroll out of view
+			const collector = new ResponseCollector(this.page, (responseUrl) =>
+				X_CONVERSATION_API.test(responseUrl),
+			);
+			collector.start();
+
+			logger.info(`Navigating to X: ${url}`);
+			await this.page.goto(url, {
+				waitUntil: "domcontentloaded",
+				timeout: 60000,
+			});
+
+			try {
+				await this.page.waitForSelector('article[data-testid="tweet"]', {
+					timeout: 15000,
+				});
+			} catch {
+				logger.warn("Post did not load");
+			}
+
+			await this.scrollToLoadReplies();
+
+			this.onProgress?.({ type: "status", message: "Parsing replies" });
+			const intercepted = parseXResponses(await collector.stop(), postId);
+			const comments = interceptedToComments(intercepted);
+
+			// Text of the post itself
+			let caption = "";
+			try {
+				caption = await this.page.$eval(
+					'article[data-testid="tweet"] [data-testid="tweetText"]',
+					(el) => el.textContent || "",
+				);
+			} catch {
+				// Caption extraction failed
+			}
+
+			logger.info(`Scraped ${intercepted.length} replies from X`);
+
+			if (comments.length === 0 && !this.hasSession) {
+				return new Comments(
+					caption || "X Post",
+					url,
+					[],
+					0,
+					true,
+					"X only shows replies to logged in users. Please log in using /api/session/login?platform=x",
+				);
+			}
+
+			return new Comments(caption || "X Post", url, comments, 0);
+		} finally {
+			await this.closeBrowser();
+		}
+	}
+}
+
+export const xScraper: CommentScraper = {
+	platform: x,
+	scrape: (url, { onProgress }) => new XComment(onProgress).scrape(url),
+};
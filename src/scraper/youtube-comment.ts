@@ -1,6 +1,8 @@
 import type { Browser, BrowserContext, Page } from "playwright";
-import { Comment, Comments } from "../types";
-import { logger } from "../utils";
+import { youtube } from "../platforms";
+import { Comment, Comments, type ScrapeProgressListener } from "../types";
+import { logger, parseCompactCount, parseRelativeTime } from "../utils";
+import type { CommentScraper } from "./registry";
 import { sessionManager } from "./session-manager";
 
 export class YoutubeComment {
@@ -8,6 +10,11 @@ export class YoutubeComment {
 	private context: BrowserContext | null = null;
 	private page: Page | null = null;
 	private hasSession = false;
+	private onProgress?: ScrapeProgressListener;
+
+	constructor(onProgress?: ScrapeProgressListener) {
+		this.onProgress = onProgress;
+	}
 
 	private async initBrowser(): Promise<void> {
 		if (this.browser) return;
@@ -45,6 +52,10 @@ export class YoutubeComment {
 		if (!this.page) return;
 
 		logger.info("Scrolling to load all comments...");
+		this.onProgress?.({
+			type: "status",
+			message: "Scrolling to load all comments",
+		});
 
 		// First, scroll down to trigger comment section loading
 		await this.page.evaluate(() => {
@@ -93,6 +104,13 @@ export class YoutubeComment {
 			});
 
 			logger.info(`Scroll ${scrollCount}: ${currentCount} comments loaded`);
+			this.onProgress?.({
+				type: "status",
+				message:
+					expectedCount > 0
+						? `Loaded ${currentCount} of ${expectedCount} comments`
+						: `Loaded ${currentCount} comments`,
+			});
 
 			// Check if we've loaded enough
 			if (expectedCount > 0 && currentCount >= expectedCount) {
@@ -170,6 +188,55 @@ export class YoutubeComment {
 		await this.page.waitForTimeout(1000);
 	}
 
+	/**
+	 * Open every "N replies" thread and keep clicking "Show more replies"
+	 * until all replies are rendered
+	 */
+	private async expandReplies(): Promise<void> {
+		if (!this.page) return;
+
+		logger.info("Expanding reply threads...");
+		this.onProgress?.({ type: "status", message: "Expanding replies" });
+
+		const maxRounds = 50; // Safety limit
+
+		for (let round = 1; round <= maxRounds; round++) {
+			const clicked = await this.page.evaluate(() => {
+				const buttons = document.querySelectorAll<HTMLElement>(
+					"ytd-comment-replies-renderer #more-replies button, " +
+						"ytd-comment-replies-renderer ytd-continuation-item-renderer button",
+				);
+
+				let count = 0;
+				buttons.forEach((button) => {
+					// "N replies" stays in the DOM, hidden, once a thread is open
+					if (button.offsetParent === null) return;
+					button.click();
+					count++;
+				});
+				return count;
+			});
+
+			if (clicked === 0) break;
+
+			// Wait for the reply pages to load
+			await this.page.waitForTimeout(1500);
+
+			const replyCount = await this.page.evaluate(
+				() =>
+					document.querySelectorAll(
+						"ytd-comment-replies-renderer ytd-comment-view-model, " +
+							"ytd-comment-replies-renderer ytd-comment-renderer",
+					).length,
+			);
+			logger.info(`Replies round ${round}: ${replyCount} replies loaded`);
+			this.onProgress?.({
+				type: "status",
+				message: `Loaded ${replyCount} replies`,
+			});
+		}
+	}
+
 	private async parseComments(): Promise<Comment[]> {
 		if (!this.page) return [];
 
@@ -182,15 +249,72 @@ export class YoutubeComment {
 			});
 
 			const commentData = await this.page.evaluate(() => {
-				const results: Array<{
+				type ParsedComment = {
 					id: string;
 					username: string;
 					nickname: string;
 					text: string;
 					avatar: string;
-					replyCount: number;
 					timestamp: string;
-				}> = [];
+					likeText: string;
+					isPinned: boolean;
+					isCreatorLiked: boolean;
+				};
+
+				const results: Array<
+					ParsedComment & { replyCount: number; replies: ParsedComment[] }
+				> = [];
+
+				const readComment = (
+					element: Element,
+					fallbackId: string,
+				): ParsedComment | null => {
+					// Author info
+					const authorEl = element.querySelector(
+						'#author-text, #author-text-content, a[href*="/@"], a[href*="/channel/"]',
+					);
+					const textEl = element.querySelector(
+						"#content-text, yt-attributed-string#content-text, #content",
+					);
+					const avatarEl = element.querySelector(
+						"#author-thumbnail img, #author-thumbnail yt-img-shadow img",
+					);
+					const timestampEl = element.querySelector(
+						"#published-time-text a, yt-formatted-string.published-time-text",
+					);
+					const likeEl = element.querySelector("#vote-count-middle");
+					const pinnedEl = element.querySelector(
+						"#pinned-comment-badge ytd-pinned-comment-badge-renderer, ytd-pinned-comment-badge-renderer",
+					);
+					// The heart (with the creator's avatar) only renders once hearted
+					const heartEl = element.querySelector(
+						"#creator-heart-button ytd-creator-heart-renderer, ytd-creator-heart-renderer",
+					);
+
+					const username = authorEl?.textContent?.trim() || "";
+					const text = textEl?.textContent?.trim() || "";
+					if (!username || !text) return null;
+
+					// The timestamp links to the comment with its real id, e.g.
+					// "/watch?v=...&lc=Ugx..." (replies are "<parent id>.<reply id>")
+					const permalink = timestampEl?.closest("a")?.getAttribute("href");
+					const linkedId = permalink
+						? new URL(permalink, window.location.origin).searchParams.get("lc")
+						: null;
+
+					return {
+						id: linkedId || fallbackId,
+						username: username.replace(/[@\s]/g, "").toLowerCase(),
+						nickname: username.replace("@", "").trim(),
+						text,
+						avatar: avatarEl?.getAttribute("src") || "",
+						timestamp: timestampEl?.textContent?.trim() || "",
+						// "1.2K" style text, parsed outside the page
+						likeText: likeEl?.textContent?.trim() || "",
+						isPinned: Boolean(pinnedEl),
+						isCreatorLiked: Boolean(heartEl),
+					};
+				};
 
 				const commentElements = document.querySelectorAll(
 					"ytd-comment-thread-renderer",
@@ -202,27 +326,12 @@ export class YoutubeComment {
 					);
 					if (!mainComment) return;
 
-					// Author info
-					const authorEl = mainComment.querySelector(
-						'#author-text, #author-text-content, a[href*="/@"], a[href*="/channel/"]',
-					);
-					const textEl = mainComment.querySelector(
-						"#content-text, yt-attributed-string#content-text, #content",
-					);
-					const avatarEl = mainComment.querySelector(
-						"#author-thumbnail img, #author-thumbnail yt-img-shadow img",
-					);
+					const parsed = readComment(mainComment, `yt_${Date.now()}_${index}`);
+					if (!parsed) return;
+
 					const replyCountEl = thread.querySelector(
 						"#more-replies button, #replies #count, ytd-comment-replies-renderer #more-replies",
 					);
-					const timestampEl = mainComment.querySelector(
-						"#published-time-text a, yt-formatted-string.published-time-text",
-					);
-
-					const username = authorEl?.textContent?.trim() || "";
-					const text = textEl?.textContent?.trim() || "";
-					const avatar = avatarEl?.getAttribute("src") || "";
-					const timestamp = timestampEl?.textContent?.trim() || "";
 
 					// Parse reply count
 					let replyCount = 0;
@@ -232,35 +341,86 @@ export class YoutubeComment {
 						replyCount = parseInt(replyMatch[1], 10);
 					}
 
-					if (username && text) {
-						results.push({
-							id: `yt_${Date.now()}_${index}`,
-							username: username.replace(/[@\s]/g, "").toLowerCase(),
-							nickname: username.replace("@", "").trim(),
-							text,
-							avatar,
-							replyCount,
-							timestamp,
+					const replies: ParsedComment[] = [];
+					const seenReplyIds = new Set<string>();
+					thread
+						.querySelectorAll(
+							"ytd-comment-replies-renderer ytd-comment-view-model, " +
+								"ytd-comment-replies-renderer ytd-comment-renderer",
+						)
+						.forEach((replyElement, replyIndex) => {
+							const reply = readComment(
+								replyElement,
+								`${parsed.id}_reply_${replyIndex}`,
+							);
+							if (!reply || seenReplyIds.has(reply.id)) return;
+							seenReplyIds.add(reply.id);
+							replies.push(reply);
 						});
-					}
+
+					results.push({
+						...parsed,
+						replyCount: Math.max(replyCount, replies.length),
+						replies,
+					});
 				});
 
 				return results;
 			});
 
+			// YouTube only shows "2 weeks ago" style times, so estimate them
+			// from when the page was read
+			// from when the page was read. Text in an unsupported language falls
+			// back to the scrape time, flagged as unknown rather than estimated.
+			const scrapedAt = Date.now();
+			const estimateTime = (timestamp: string) => {
+				const time = parseRelativeTime(timestamp, scrapedAt);
+				if (time === null) {
+					logger.warn(`Couldn't read YouTube comment time "${timestamp}"`);
+				}
+				return time;
+			};
+
 			for (const data of commentData) {
+				const replies = data.replies.map((reply) => {
+					const time = estimateTime(reply.timestamp);
+					return new Comment(
+						reply.id,
+						reply.username,
+						reply.nickname,
+						reply.text,
+						time ?? Math.floor(scrapedAt / 1000),
+						reply.avatar,
+						0,
+						[],
+						data.id,
+						false,
+						parseCompactCount(reply.likeText),
+						reply.isPinned,
+						reply.isCreatorLiked,
+						time !== null,
+						time === null,
+					);
+				});
+
+				const time = estimateTime(data.timestamp);
 				comments.push(
 					new Comment(
 						data.id,
 						data.username,
 						data.nickname,
 						data.text,
-						Math.floor(Date.now() / 1000),
+						time ?? Math.floor(scrapedAt / 1000),
 						data.avatar,
 						data.replyCount,
-						[], // Could expand to fetch replies
+						replies,
 						undefined,
 						false,
+						parseCompactCount(data.likeText),
+						data.isPinned,
+						data.isCreatorLiked,
+						time !== null,
+						time === null,
 					),
 				);
 			}
@@ -304,8 +464,10 @@ export class YoutubeComment {
 
 			// Scroll to load all comments
 			await this.scrollToLoadAllComments();
+			await this.expandReplies();
 
 			// Parse comments
+			this.onProgress?.({ type: "status", message: "Parsing comments" });
 			const comments = await this.parseComments();
 
 			// Get video title
@@ -328,3 +490,8 @@ export class YoutubeComment {
 		}
 	}
 }
+
+export const youtubeScraper: CommentScraper = {
+	platform: youtube,
+	scrape: (url, { onProgress }) => new YoutubeComment(onProgress).scrape(url),
+};
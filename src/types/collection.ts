@@ -0,0 +1,31 @@
+import type { CommentsData } from "./comments";
+
+// A video listed on a TikTok profile or hashtag page
+export interface VideoInfo {
+	id: string;
+	url: string;
+	description: string;
+	create_time: string;
+	author: string;
+	play_count: number;
+	like_count: number;
+	comment_count: number;
+	share_count: number;
+	duration: number; // Seconds
+	cover: string;
+}
+
+// Comments of one video in a collection
+export interface VideoCommentsData extends CommentsData {
+	video: VideoInfo;
+}
+
+// Combined result of scraping a profile's or hashtag's videos
+export interface CollectionData {
+	source: {
+		type: "profile" | "hashtag";
+		name: string;
+	};
+	scraped_at: string;
+	videos: VideoCommentsData[];
+}
@@ -1,3 +1,5 @@
+import { analyzeComment, type CommentAnalysis } from "../analysis";
+
 export interface CommentData {
 	comment_id: string;
 	username: string;
@@ -9,6 +11,12 @@ export interface CommentData {
 	replies: CommentData[];
 	parent_comment_id?: string; // For replies, tracks which comment this is replying to
 	is_orphan_reply?: boolean; // True if parent comment was not found
+	like_count: number;
+	is_pinned: boolean; // Pinned to the top by the creator
+	is_creator_liked: boolean; // Liked ("hearted") by the creator
+	is_time_approximate: boolean; // create_time was estimated from "2 weeks ago" style text
+	is_time_unknown?: boolean; // The relative time couldn't be read, create_time is when it was scraped
+	analysis?: CommentAnalysis; // Missing on results saved before comments were analyzed
 }
 
 export class Comment {
@@ -22,6 +30,12 @@ export class Comment {
 	private _replies: Comment[];
 	private _parent_comment_id?: string;
 	private _is_orphan_reply: boolean;
+	private _like_count: number;
+	private _is_pinned: boolean;
+	private _is_creator_liked: boolean;
+	private _is_time_approximate: boolean;
+	private _is_time_unknown: boolean;
+	private _analysis?: CommentAnalysis;
 
 	constructor(
 		comment_id: string,
@@ -34,6 +48,11 @@ export class Comment {
 		replies: Comment[] = [],
 		parent_comment_id?: string,
 		is_orphan_reply = false,
+		like_count = 0,
+		is_pinned = false,
+		is_creator_liked = false,
+		is_time_approximate = false,
+		is_time_unknown = false,
 	) {
 		this._comment_id = comment_id;
 		this._username = username;
@@ -45,6 +64,38 @@ export class Comment {
 		this._replies = replies;
 		this._parent_comment_id = parent_comment_id;
 		this._is_orphan_reply = is_orphan_reply;
+		this._like_count = like_count;
+		this._is_pinned = is_pinned;
+		this._is_creator_liked = is_creator_liked;
+		this._is_time_approximate = is_time_approximate;
+		this._is_time_unknown = is_time_unknown;
+	}
+
+	/**
+	 * Rebuild a comment from its serialized form, e.g. a previously saved result
+	 */
+	static fromDict(data: CommentData): Comment {
+		// create_time is stored as a UTC ISO string without the zone suffix
+		const createTime = Date.parse(`${data.create_time}Z`) / 1000;
+
+		return new Comment(
+			data.comment_id,
+			data.username,
+			data.nickname,
+			data.comment,
+			Number.isNaN(createTime) ? 0 : createTime,
+			data.avatar,
+			data.total_reply,
+			data.replies.map((reply) => Comment.fromDict(reply)),
+			data.parent_comment_id,
+			data.is_orphan_reply ?? false,
+			// Results saved before engagement metrics existed lack these
+			data.like_count ?? 0,
+			data.is_pinned ?? false,
+			data.is_creator_liked ?? false,
+			data.is_time_approximate ?? false,
+			data.is_time_unknown ?? false,
+		);
 	}
 
 	get comment_id(): string {
@@ -87,6 +138,34 @@ export class Comment {
 		return this._is_orphan_reply;
 	}
 
+	get like_count(): number {
+		return this._like_count;
+	}
+
+	get is_pinned(): boolean {
+		return this._is_pinned;
+	}
+
+	get is_creator_liked(): boolean {
+		return this._is_creator_liked;
+	}
+
+	get is_time_approximate(): boolean {
+		return this._is_time_approximate;
+	}
+
+	get is_time_unknown(): boolean {
+		return this._is_time_unknown;
+	}
+
+	/**
+	 * Sentiment, toxicity and spam scores of the text, computed on first use
+	 */
+	get analysis(): CommentAnalysis {
+		this._analysis ??= analyzeComment(this._comment);
+		return this._analysis;
+	}
+
 	get dict(): CommentData {
 		return {
 			comment_id: this._comment_id,
@@ -99,6 +178,12 @@ export class Comment {
 			replies: this._replies.map((reply) => reply.dict),
 			parent_comment_id: this._parent_comment_id,
 			is_orphan_reply: this._is_orphan_reply,
+			like_count: this._like_count,
+			is_pinned: this._is_pinned,
+			is_creator_liked: this._is_creator_liked,
+			is_time_approximate: this._is_time_approximate,
+			is_time_unknown: this._is_time_unknown,
+			analysis: this.analysis,
 		};
 	}
 
@@ -1,4 +1,4 @@
-import type { Comment, CommentData } from "./comment";
+import { Comment, type CommentData } from "./comment";
 
 export interface CommentsData {
 	caption: string;
@@ -33,6 +33,20 @@ export class Comments {
 		this._auth_message = auth_message;
 	}
 
+	/**
+	 * Rebuild a result from its serialized form, e.g. a previously saved JSON file
+	 */
+	static fromDict(data: CommentsData): Comments {
+		return new Comments(
+			data.caption,
+			data.video_url,
+			data.comments.map((comment) => Comment.fromDict(comment)),
+			data.has_more,
+			data.needs_auth ?? false,
+			data.auth_message ?? "",
+		);
+	}
+
 	get caption(): string {
 		return this._caption;
 	}
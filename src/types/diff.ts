@@ -0,0 +1,14 @@
+import type { CommentData } from "./comment";
+
+export interface EditedComment {
+	before: CommentData;
+	after: CommentData;
+}
+
+// Changes between two scrapes of the same content, matched by comment_id.
+// Comments and replies are compared alike; replies are listed without nesting.
+export interface CommentDiff {
+	added: CommentData[];
+	deleted: CommentData[];
+	edited: EditedComment[];
+}
@@ -1,2 +1,13 @@
+export type {
+	CollectionData,
+	VideoCommentsData,
+	VideoInfo,
+} from "./collection";
 export { Comment, type CommentData } from "./comment";
 export { Comments, type CommentsData } from "./comments";
+export type { CommentDiff, EditedComment } from "./diff";
+export type {
+	ScrapeProgressEvent,
+	ScrapeProgressListener,
+} from "./progress";
+export type { RenderCard, RenderRequest } from "./render";
@@ -0,0 +1,15 @@
+import type { CommentData } from "./comment";
+
+// Progress reported by a scraper while it runs
+export type ScrapeProgressEvent =
+	| { type: "status"; message: string }
+	| { type: "page"; page: number; cursor: number }
+	| {
+			type: "comments";
+			fetched: number; // Top-level comments fetched so far
+			total?: number; // Total reported by the platform, when known
+			comments: CommentData[]; // Comments added since the last event
+	  }
+	| { type: "replies"; commentId: string; fetched: number; total: number };
+
+export type ScrapeProgressListener = (event: ScrapeProgressEvent) => void;
@@ -0,0 +1,14 @@
+import type { CommentData } from "./comment";
+
+// A comment card rendered to PNG by the server, optionally with its replies
+export interface RenderCard {
+	name: string; // File name inside the exported ZIP
+	comment: CommentData;
+	replies: CommentData[];
+}
+
+// Payload handed to the /render page
+export interface RenderRequest {
+	platform: string; // Picks the platform theme
+	cards: RenderCard[];
+}
@@ -0,0 +1,54 @@
+import type { CommentData, CommentDiff } from "../types";
+
+/**
+ * Index comments and all of their nested replies by comment_id
+ */
+function flattenComments(
+	comments: CommentData[],
+	index = new Map<string, CommentData>(),
+): Map<string, CommentData> {
+	for (const comment of comments) {
+		index.set(comment.comment_id, comment);
+		flattenComments(comment.replies, index);
+	}
+	return index;
+}
+
+/**
+ * Compare two scrapes of the same content. A comment counts as edited when
+ * its comment_id is in both but the text changed.
+ */
+export function diffComments(
+	previous: CommentData[],
+	current: CommentData[],
+): CommentDiff {
+	const previousById = flattenComments(previous);
+	const currentById = flattenComments(current);
+	const diff: CommentDiff = { added: [], deleted: [], edited: [] };
+
+	// Replies are reported on their own, so drop them from the listed comments
+	const withoutReplies = (comment: CommentData): CommentData => ({
+		...comment,
+		replies: [],
+	});
+
+	for (const [commentId, comment] of currentById) {
+		const before = previousById.get(commentId);
+		if (!before) {
+			diff.added.push(withoutReplies(comment));
+		} else if (before.comment !== comment.comment) {
+			diff.edited.push({
+				before: withoutReplies(before),
+				after: withoutReplies(comment),
+			});
+		}
+	}
+
+	for (const [commentId, comment] of previousById) {
+		if (!currentById.has(commentId)) {
+			diff.deleted.push(withoutReplies(comment));
+		}
+	}
+
+	return diff;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import {
+	extractFacebookCommentId,
+	extractFacebookParentId,
+	extractInstagramCommentId,
+	extractInstagramParentId,
+	hashCommentId,
+	normalizeFacebookCommentId,
+} from "./comment-id";
+
+// base64 of "comment:731234567890123_9001" and "..._9011"
+const FB_COMMENT = "Y29tbWVudDo3MzEyMzQ1Njc4OTAxMjNfOTAwMQ==";
+const FB_REPLY = "Y29tbWVudDo3MzEyMzQ1Njc4OTAxMjNfOTAxMQ==";
+
+describe("extractInstagramCommentId", () => {
+	test("reads comment and reply permalinks", () => {
+		expect(
+			extractInstagramCommentId("/p/C1a2b3c4d5/c/17912345678901234/"),
+		).toBe("17912345678901234");
+		expect(
+			extractInstagramCommentId(
+				"https://www.instagram.com/p/C1a2b3c4d5/c/17912345678901234/r/18023456789012345/",
+			),
+		).toBe("18023456789012345");
+	});
+
+	test("returns null for other links", () => {
+		expect(extractInstagramCommentId("/p/C1a2b3c4d5/")).toBeNull();
+		expect(extractInstagramCommentId("/mira.k/")).toBeNull();
+		expect(extractInstagramCommentId(null)).toBeNull();
+	});
+});
+
+describe("extractInstagramParentId", () => {
+	test("reads the parent of a reply", () => {
+		expect(
+			extractInstagramParentId(
+				"/p/C1a2b3c4d5/c/17912345678901234/r/18023456789012345/",
+			),
+		).toBe("17912345678901234");
+		expect(
+			extractInstagramParentId("/p/C1a2b3c4d5/c/17912345678901234/"),
+		).toBeNull();
+	});
+});
+
+describe("extractFacebookCommentId", () => {
+	test("reads numeric IDs", () => {
+		expect(
+			extractFacebookCommentId(
+				"https://www.facebook.com/photo?fbid=731234567890123&comment_id=731234567890123_9001",
+			),
+		).toBe("731234567890123_9001");
+	});
+
+	test("decodes base64 IDs", () => {
+		expect(
+			extractFacebookCommentId(
+				`/watch/?v=731234567890123&comment_id=${encodeURIComponent(FB_COMMENT)}`,
+			),
+		).toBe("731234567890123_9001");
+	});
+
+	test("prefers the reply ID", () => {
+		const href = `/photo?fbid=731234567890123&comment_id=${FB_COMMENT}&reply_comment_id=${FB_REPLY}`;
+		expect(extractFacebookCommentId(href)).toBe("731234567890123_9011");
+		expect(extractFacebookParentId(href)).toBe("731234567890123_9001");
+	});
+
+	test("returns null without a comment ID", () => {
+		expect(extractFacebookCommentId("/photo?fbid=731234567890123")).toBeNull();
+		expect(
+			extractFacebookParentId(`/photo?comment_id=${FB_COMMENT}`),
+		).toBeNull();
+		expect(extractFacebookCommentId(undefined)).toBeNull();
+	});
+});
+
+describe("normalizeFacebookCommentId", () => {
+	test("keeps IDs it can't decode", () => {
+		// base64 of "feedback:731234567890123"
+		expect(normalizeFacebookCommentId("ZmVlZGJhY2s6NzMxMjM0NTY3ODkwMTIz")).toBe(
+			"ZmVlZGJhY2s6NzMxMjM0NTY3ODkwMTIz",
+		);
+	});
+});
+
+describe("hashCommentId", () => {
+	test("gives the same ID on every scrape", () => {
+		// Pinned so a change to the hash shows up as new IDs for stored comments
+		expect(
+			hashCommentId(
+				"ig",
+				"mira.k",
+				"The colours here are unreal",
+				"2024-06-10T07:23:20.000Z",
+			),
+		).toBe("ig_e1627caaa81a6a24");
+		expect(
+			hashCommentId(
+				"fb",
+				"Maria Lopez",
+				"Is this the trail past the lighthouse?",
+			),
+		).toBe("fb_7f752653e2b62a0c");
+	});
+
+	test("changes with any field", () => {
+		const id = hashCommentId("ig", "mira.k", "hello", "2024-06-10");
+		expect(hashCommentId("fb", "mira.k", "hello", "2024-06-10")).not.toBe(id);
+		expect(hashCommentId("ig", "mira", "hello", "2024-06-10")).not.toBe(id);
+		expect(hashCommentId("ig", "mira.k", "hello!", "2024-06-10")).not.toBe(id);
+		expect(hashCommentId("ig", "mira.k", "hello", "2024-06-11")).not.toBe(id);
+	});
+
+	test("keeps fields apart", () => {
+		expect(hashCommentId("ig", "ab", "c")).not.toBe(
+			hashCommentId("ig", "a", "bc"),
+		);
+	});
+});
@@ -0,0 +1,91 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Read the comment ID from an Instagram comment permalink,
+ * e.g. "/p/C1a2b3c4d5/c/17912345678901234/". Replies link to
+ * ".../c/<parent id>/r/<reply id>/".
+ */
+export function extractInstagramCommentId(
+	href: string | null | undefined,
+): string | null {
+	return (
+		href?.match(/\/r\/(\d+)/)?.[1] ?? href?.match(/\/c\/(\d+)/)?.[1] ?? null
+	);
+}
+
+/**
+ * Parent comment ID of an Instagram reply permalink, null for top-level comments
+ */
+export function extractInstagramParentId(
+	href: string | null | undefined,
+): string | null {
+	return href?.match(/\/c\/(\d+)\/r\/\d+/)?.[1] ?? null;
+}
+
+/**
+ * Read the comment ID from a Facebook comment link. Replies link to their
+ * thread with both `comment_id` and `reply_comment_id`. Newer links encode
+ * the ID as base64 of "comment:<post id>_<comment id>".
+ */
+export function extractFacebookCommentId(
+	href: string | null | undefined,
+): string | null {
+	const params = facebookLinkParams(href);
+	const id = params?.get("reply_comment_id") || params?.get("comment_id");
+	return id ? normalizeFacebookCommentId(id) : null;
+}
+
+/**
+ * Parent comment ID of a Facebook reply link, null for top-level comments
+ */
+export function extractFacebookParentId(
+	href: string | null | undefined,
+): string | null {
+	const params = facebookLinkParams(href);
+	const parentId = params?.get("reply_comment_id")
+		? params.get("comment_id")
+		: null;
+	return parentId ? normalizeFacebookCommentId(parentId) : null;
+}
+
+function facebookLinkParams(
+	href: string | null | undefined,
+): URLSearchParams | null {
+	if (!href) return null;
+
+	try {
+		return new URL(href, "https://www.facebook.com").searchParams;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Facebook IDs are either numeric ("<post id>_<comment id>") or base64 of
+ * "comment:<post id>_<comment id>", return the numeric form
+ */
+export function normalizeFacebookCommentId(id: string): string {
+	if (/^[\d_]+$/.test(id)) return id;
+
+	const decoded = Buffer.from(id, "base64").toString("utf8");
+	return decoded.match(/^comment:([\d_]+)$/)?.[1] ?? id;
+}
+
+/**
+ * Deterministic ID for comments whose platform ID isn't in the page, so
+ * re-scraping the same post gives the same IDs. Only pass a timestamp when
+ * it's absolute, a "2h" style time would change the ID between scrapes.
+ */
+export function hashCommentId(
+	prefix: string,
+	author: string,
+	text: string,
+	timestamp = "",
+): string {
+	const hash = createHash("sha1")
+		.update([author, text, timestamp].join("\u0000"))
+		.digest("hex")
+		.slice(0, 16);
+
+	return `${prefix}_${hash}`;
+}
@@ -0,0 +1,21 @@
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+	k: 1_000,
+	m: 1_000_000,
+	b: 1_000_000_000,
+};
+
+/**
+ * Parse a count as displayed by the platforms ("1,234", "1.2K", "3M", "12 likes").
+ * Returns 0 when no number can be found.
+ */
+export function parseCompactCount(text: string | null | undefined): number {
+	const match = text?.replace(/,/g, "").match(/(\d+(?:\.\d+)?)\s*([kmb])?\b/i);
+	if (!match?.[1]) return 0;
+
+	const value = Number.parseFloat(match[1]);
+	const multiplier = match[2]
+		? (SUFFIX_MULTIPLIERS[match[2].toLowerCase()] ?? 1)
+		: 1;
+
+	return Math.round(value * multiplier);
+}
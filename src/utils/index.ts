@@ -1,10 +1,20 @@
+export { diffComments } from "./comment-diff";
+export {
+	extractFacebookCommentId,
+	extractFacebookParentId,
+	extractInstagramCommentId,
+	extractInstagramParentId,
+	hashCommentId,
+	normalizeFacebookCommentId,
+} from "./comment-id";
+export { parseCompactCount } from "./compact-count";
 export { logger } from "./logger";
+export { parseRelativeTime } from "./relative-time";
 export {
-    detectPlatform,
-    detectPlatformInfo,
-    extractContentId,
-    getPlatformInfo,
-    type Platform,
-    type PlatformInfo
-} from "./platform-detector";
-
+	extractVideoId,
+	isShortUrl,
+	parseCollectionSource,
+	resolveShortUrl,
+	type TiktokCollectionSource,
+} from "./tiktok-url";
+export { isUuid } from "./uuid";
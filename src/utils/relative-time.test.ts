@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { parseRelativeTime } from "./relative-time";
+
+const NOW = Date.UTC(2024, 5, 15, 12, 0, 0);
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+const MONTH = 30 * DAY;
+const YEAR = 365 * DAY;
+
+// Seconds the text is counted back from NOW
+function ago(text: string): number | null {
+	const time = parseRelativeTime(text, NOW);
+	return time === null ? null : NOW / 1000 - time;
+}
+
+describe("parseRelativeTime", () => {
+	test.each([
+		["English", "2 weeks ago", 2 * WEEK],
+		["English", "45 seconds ago", 45],
+		["English", "5 minutes ago", 5 * MINUTE],
+		["Spanish", "hace 3 días", 3 * DAY],
+		["Spanish", "hace 1 mes", MONTH],
+		["Portuguese", "há 2 semanas", 2 * WEEK],
+		["Portuguese", "há 5 horas", 5 * HOUR],
+		["French", "il y a 2 jours", 2 * DAY],
+		["French", "il y a 1 an", YEAR],
+		["German", "vor 3 Tagen", 3 * DAY],
+		["German", "vor einem Monat", MONTH],
+		["Italian", "2 giorni fa", 2 * DAY],
+		["Italian", "3 settimane fa", 3 * WEEK],
+		["Dutch", "2 dagen geleden", 2 * DAY],
+		["Dutch", "1 uur geleden", HOUR],
+		["Indonesian", "2 minggu yang lalu", 2 * WEEK],
+		["Indonesian", "5 bulan yang lalu", 5 * MONTH],
+		["Russian", "2 дня назад", 2 * DAY],
+		["Russian", "5 лет назад", 5 * YEAR],
+		["Russian", "10 минут назад", 10 * MINUTE],
+	])("reads %s: %s", (_locale, text, seconds) => {
+		expect(ago(text)).toBe(seconds);
+	});
+
+	test("ignores (edited) and its translations", () => {
+		expect(ago("1 year ago (edited)")).toBe(YEAR);
+		expect(ago("hace 2 años (editado)")).toBe(2 * YEAR);
+	});
+
+	test("counts one when there's no number", () => {
+		expect(ago("a day ago")).toBe(DAY);
+		// "an" is the article here, not the French year
+		expect(ago("an hour ago")).toBe(HOUR);
+	});
+
+	test("reads yesterday and just now", () => {
+		expect(ago("yesterday")).toBe(DAY);
+		expect(ago("gestern")).toBe(DAY);
+		expect(ago("вчера")).toBe(DAY);
+		expect(ago("just now")).toBe(0);
+	});
+
+	test("returns null for text it can't read", () => {
+		expect(ago("3 日前")).toBeNull();
+		expect(ago("2週間前")).toBeNull();
+		expect(ago("2 tuần trước")).toBeNull();
+		expect(ago("")).toBeNull();
+		expect(parseRelativeTime(undefined, NOW)).toBeNull();
+	});
+});
@@ -0,0 +1,157 @@
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Word prefixes per unit, in English, Spanish, Portuguese, French, German,
+// Italian, Dutch, Indonesian and Russian. Longer units come first so
+// "minggu" (week) isn't read as minutes.
+const UNITS: { seconds: number; prefixes: string[] }[] = [
+	{
+		seconds: 365 * DAY,
+		prefixes: [
+			"year",
+			"yr",
+			"año",
+			"an",
+			"jahr",
+			"jaar",
+			"tahun",
+			"год",
+			"лет",
+		],
+	},
+	{
+		seconds: 30 * DAY,
+		prefixes: [
+			"month",
+			"mes",
+			"mês",
+			"mois",
+			"monat",
+			"maand",
+			"bulan",
+			"месяц",
+		],
+	},
+	{
+		seconds: 7 * DAY,
+		prefixes: [
+			"week",
+			"wk",
+			"semana",
+			"semaine",
+			"woche",
+			"settiman",
+			"weken",
+			"minggu",
+			"недел",
+		],
+	},
+	{
+		seconds: DAY,
+		prefixes: [
+			"day",
+			"día",
+			"dia",
+			"jour",
+			"tag",
+			"giorn",
+			"dag",
+			"hari",
+			"день",
+			"дня",
+			"дней",
+		],
+	},
+	{
+		seconds: HOUR,
+		prefixes: [
+			"hour",
+			"hr",
+			"hora",
+			"heure",
+			"stunde",
+			"ora",
+			"ore",
+			"uur",
+			"jam",
+			"час",
+		],
+	},
+	{
+		seconds: MINUTE,
+		prefixes: ["min", "menit", "минут"],
+	},
+	{
+		seconds: 1,
+		prefixes: ["sec", "seg", "sek", "detik", "секунд"],
+	},
+];
+
+// Phrases without a number or unit
+const YESTERDAY = [
+	"yesterday",
+	"ayer",
+	"ontem",
+	"hier",
+	"gestern",
+	"ieri",
+	"gisteren",
+	"kemarin",
+	"вчера",
+];
+const JUST_NOW = [
+	"just now",
+	"ahora",
+	"agora",
+	"à l'instant",
+	"gerade eben",
+	"adesso",
+	"zojuist",
+	"baru saja",
+	"только что",
+];
+
+/**
+ * Convert relative time text like "2 weeks ago", "hace 3 días" or
+ * "1 year ago (edited)" to a unix timestamp, counted back from `now` (ms).
+ * Returns null when the text can't be understood.
+ */
+export function parseRelativeTime(
+	text: string | null | undefined,
+	now = Date.now(),
+): number | null {
+	// Drop "(edited)" and its translations
+	const normalized = text
+		?.replace(/\([^)]*\)/g, "")
+		.trim()
+		.toLowerCase();
+	if (!normalized) return null;
+
+	const nowSeconds = Math.floor(now / 1000);
+
+	if (JUST_NOW.some((phrase) => normalized.includes(phrase))) {
+		return nowSeconds;
+	}
+	if (YESTERDAY.some((phrase) => normalized.includes(phrase))) {
+		return nowSeconds - DAY;
+	}
+
+	// The unit is the last word that looks like one, so the article in
+	// "an hour ago" isn't mistaken for the French "an" (year)
+	let unitSeconds: number | null = null;
+	for (const word of normalized.split(/[\s\d]+/)) {
+		const unit = UNITS.find(({ prefixes }) =>
+			prefixes.some((prefix) => word.startsWith(prefix)),
+		);
+		if (unit) {
+			unitSeconds = unit.seconds;
+		}
+	}
+	if (unitSeconds === null) return null;
+
+	// "a week ago", "un mes", "einem Tag" have no number
+	const amount = Number.parseInt(normalized.match(/\d+/)?.[0] ?? "1", 10);
+
+	return nowSeconds - amount * unitSeconds;
+}
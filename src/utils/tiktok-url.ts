@@ -0,0 +1,92 @@
+/**
+ * Check if the input is a TikTok short URL (vm/vt.tiktok.com or tiktok.com/t/)
+ */
+export function isShortUrl(input: string): boolean {
+	return (
+		/(?:vm|vt)\.tiktok\.com\/\w+/.test(input) ||
+		/tiktok\.com\/t\/\w+/.test(input)
+	);
+}
+
+/**
+ * Follow a short URL's redirects and return the video ID it points to
+ */
+export async function resolveShortUrl(
+	shortUrl: string,
+): Promise<string | undefined> {
+	try {
+		const response = await fetch(shortUrl, {
+			method: "HEAD",
+			redirect: "follow",
+		});
+		const finalUrl = response.url;
+		const videoIdMatch = finalUrl.match(/\/video\/(\d+)/);
+		return videoIdMatch?.[1];
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Extract the video ID from a TikTok URL, or return the input if it already is one
+ */
+export function extractVideoId(input: string): string | undefined {
+	if (/^\d+$/.test(input.trim())) {
+		return input.trim();
+	}
+
+	const patterns = [
+		/tiktok\.com\/@[^/]+\/video\/(\d+)/,
+		/tiktok\.com\/.*?\/video\/(\d+)/,
+		/vm\.tiktok\.com\/(\w+)/,
+		/vt\.tiktok\.com\/(\w+)/,
+		/tiktok\.com\/t\/(\w+)/,
+	];
+
+	for (const pattern of patterns) {
+		const match = input.match(pattern);
+		if (match?.[1]) {
+			return match[1];
+		}
+	}
+
+	return undefined;
+}
+
+export interface TiktokCollectionSource {
+	type: "profile" | "hashtag";
+	name: string; // Username without "@", or hashtag without "#"
+}
+
+/**
+ * Read a profile ("tiktok.com/@user", "@user") or hashtag
+ * ("tiktok.com/tag/name", "#name") from the input. Video URLs return undefined.
+ */
+export function parseCollectionSource(
+	input: string,
+): TiktokCollectionSource | undefined {
+	const trimmed = input.trim();
+
+	const hashtag =
+		trimmed.match(/tiktok\.com\/tag\/([^/?#]+)/)?.[1] ??
+		trimmed.match(/^#(\S+)$/)?.[1];
+	if (hashtag) {
+		try {
+			return { type: "hashtag", name: decodeURIComponent(hashtag) };
+		} catch {
+			// Malformed percent-encoding, such as a lone "%"
+			return undefined;
+		}
+	}
+
+	if (/\/video\/\d+/.test(trimmed)) return undefined;
+
+	const profile =
+		trimmed.match(/tiktok\.com\/@([\w.-]+)\/?(?:[?#].*)?$/)?.[1] ??
+		trimmed.match(/^@([\w.-]+)$/)?.[1];
+	if (profile) {
+		return { type: "profile", name: profile };
+	}
+
+	return undefined;
+}
@@ -0,0 +1,10 @@
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value has the shape of a UUID. IDs from request paths are checked
+ * before querying, Postgres rejects anything else with an error.
+ */
+export function isUuid(value: string): boolean {
+	return UUID_PATTERN.test(value);
+}